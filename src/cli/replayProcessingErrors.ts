@@ -0,0 +1,58 @@
+import { parseArgs } from 'node:util';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { runWithContext } from '../utils/requestContext.js';
+import { listProcessingErrorLeads } from '../services/supabaseService.js';
+import { replayProcessingErrorLeads } from '../services/leads/leadRecovery.js';
+
+/**
+ * Replays leads saved with classification processing_error
+ *
+ *   npm run replay-errors -- --list             List unrecovered rows
+ *   npm run replay-errors -- --id <uuid> [...]  Replay specific rows
+ *   npm run replay-errors -- --all [--limit 25] Replay the oldest unrecovered rows
+ *
+ * Prints the summary report as JSON and exits non-zero if any replay failed.
+ */
+const USAGE = 'Usage: replay-errors --list | --id <uuid> [--id <uuid> ...] | --all [--limit <n>]';
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      list: { type: 'boolean', default: false },
+      all: { type: 'boolean', default: false },
+      id: { type: 'string', multiple: true },
+      limit: { type: 'string' },
+    },
+  });
+
+  const limit = values.limit ? parseInt(values.limit, 10) : undefined;
+
+  if (values.list) {
+    const leads = await listProcessingErrorLeads({ limit: limit ?? 100 });
+    console.log(JSON.stringify(leads, null, 2));
+    return 0;
+  }
+
+  if (!values.all && !values.id?.length) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const report = await replayProcessingErrorLeads({
+    ids: values.all ? undefined : values.id,
+    limit,
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+
+  return report.failed > 0 ? 1 : 0;
+}
+
+// One correlation ID for the whole run
+runWithContext({ correlationId: uuidv4() }, main)
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    logger.error('Processing error replay failed', error);
+    process.exit(1);
+  });
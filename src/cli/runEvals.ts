@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'node:util';
+import { v4 as uuidv4 } from 'uuid';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { runWithContext } from '../utils/requestContext.js';
+import { formatValidationErrors } from '../schemas/webhook.js';
+import { EvalDatasetSchema, type EvalDataset } from '../schemas/evalDataset.js';
+import { getLLMRouter, setLLMRouter } from '../services/llm/llmRouter.js';
+import { createRecordingLLMRouter, createReplayLLMRouter } from '../services/llm/recordedRouter.js';
+import { runEvaluation } from '../services/evals/evalRunner.js';
+import { compareEvalReports, formatEvalReport } from '../services/evals/evalReport.js';
+import type { EvalMode, EvalReport, LLMFixtures } from '../types/eval.types.js';
+
+/**
+ * Runs the lead and job classifiers against a labelled golden dataset
+ *
+ *   npm run eval -- [--dataset evals/golden-dataset.json]
+ *                   [--mode live|record|replay] [--fixtures evals/fixtures/recorded-responses.json]
+ *                   [--output report.json] [--baseline previous-report.json] [--min-accuracy 0.8]
+ *
+ * live calls the configured LLM providers, record does the same and saves every reply to
+ * the fixtures file, replay answers from the fixtures file only (no network - for CI).
+ * Prints accuracy, confusion matrices and the score drift against --baseline (a report
+ * saved with --output from an earlier prompt or model version). Exits non-zero if an item
+ * failed, accuracy is below --min-accuracy or replay has no fixtures file.
+ */
+const USAGE =
+  'Usage: eval [--dataset <file>] [--mode live|record|replay] [--fixtures <file>] ' +
+  '[--output <file>] [--baseline <file>] [--min-accuracy <0-1>]';
+
+const EVAL_MODES: EvalMode[] = ['live', 'record', 'replay'];
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${file}: ${getErrorMessage(error)}`);
+  }
+}
+
+function writeJson(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`);
+}
+
+function loadDataset(file: string): EvalDataset {
+  const result = EvalDatasetSchema.safeParse(readJson(file));
+
+  if (!result.success) {
+    throw new Error(`Invalid dataset ${file}: ${formatValidationErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: 'evals/golden-dataset.json' },
+      mode: { type: 'string', default: 'live' },
+      fixtures: { type: 'string', default: 'evals/fixtures/recorded-responses.json' },
+      output: { type: 'string' },
+      baseline: { type: 'string' },
+      'min-accuracy': { type: 'string' },
+    },
+  });
+
+  const mode = EVAL_MODES.find((candidate) => candidate === values.mode);
+  const minAccuracy = values['min-accuracy'] !== undefined ? parseFloat(values['min-accuracy']) : 0;
+
+  if (!mode || Number.isNaN(minAccuracy)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (mode === 'replay' && !fs.existsSync(values.fixtures)) {
+    console.error(`No recorded responses at ${values.fixtures} - run --mode record and commit the file`);
+    return 1;
+  }
+
+  const dataset = loadDataset(values.dataset);
+  // A recording replaces the fixtures file, so replies to old prompt versions don't pile up
+  const fixtures: LLMFixtures = mode === 'replay' ? (readJson(values.fixtures) as LLMFixtures) : {};
+
+  if (mode === 'record') {
+    setLLMRouter(createRecordingLLMRouter(getLLMRouter(), fixtures));
+  } else if (mode === 'replay') {
+    setLLMRouter(createReplayLLMRouter(fixtures));
+  }
+
+  const report = await runEvaluation(dataset, mode);
+
+  if (mode === 'record') {
+    writeJson(values.fixtures, fixtures);
+    logger.info('Recorded LLM responses', { file: values.fixtures, count: Object.keys(fixtures).length });
+  }
+
+  if (values.output) {
+    writeJson(values.output, report);
+  }
+
+  const drift = values.baseline ? compareEvalReports(readJson(values.baseline) as EvalReport, report) : undefined;
+
+  console.log(formatEvalReport(report, drift));
+
+  const failed = report.leads.errors + report.jobs.errors > 0;
+  const belowThreshold = [report.leads, report.jobs].some(
+    (summary) => summary.total > 0 && summary.accuracy < minAccuracy
+  );
+
+  return failed || belowThreshold ? 1 : 0;
+}
+
+// One correlation ID for the whole run
+runWithContext({ correlationId: uuidv4() }, main)
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    logger.error('Evaluation run failed', error);
+    process.exit(1);
+  });
@@ -1,24 +1,28 @@
 import dotenv from 'dotenv';
 import type { Config } from '../types/index.js';
+import type { CaptchaProvider } from '../types/intake.types.js';
 
 dotenv.config();
 
+const CAPTCHA_PROVIDERS: CaptchaProvider[] = ['turnstile', 'hcaptcha', 'stub'];
+
 export const config: Config = {
   port: process.env.PORT || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
 
-  // OpenAI
-  openai: {
-    apiKey: process.env.OPENAI_API_KEY,
-    model: 'gpt-4o-mini',
-    temperature: 0.7,
-  },
-
-  // OpenRouter (for job evaluation with model fallback)
-  openRouter: {
-    apiKey: process.env.OPENROUTER_API_KEY,
-    primaryModel: 'openai/gpt-4o',
-    fallbackModel: 'openai/gpt-4o-mini',
+  // LLM providers and per-task models - bundled src/config/llm/llm-routes.json unless a file is given.
+  // API keys stay in the environment (OPENAI_API_KEY, OPENROUTER_API_KEY, ...), named by the routes file.
+  llm: {
+    // 'fake' answers from keyword rules (bundled src/config/llm/fake-ai-rules.json unless a file is given)
+    // and optional recorded fixtures - no API keys or network, for local development and tests
+    aiProvider: process.env.AI_PROVIDER === 'fake' ? 'fake' : 'llm',
+    fakeRulesPath: process.env.FAKE_AI_RULES_PATH,
+    fakeFixturesPath: process.env.FAKE_AI_FIXTURES_PATH,
+    routesPath: process.env.LLM_ROUTES_PATH,
+    // USD per million tokens by model - bundled src/config/llm/llm-prices.json unless a file is given
+    pricesPath: process.env.LLM_PRICES_PATH,
+    // Follow-up calls asking the model to fix a reply that isn't valid JSON for the schema
+    maxRepairAttempts: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '1', 10),
   },
 
   // Supabase
@@ -38,9 +42,70 @@ export const config: Config = {
     email: process.env.ADMIN_ALERT_EMAIL,
   },
 
+  // Admin API (lead status, overrides) - x-api-key header
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY,
+  },
+
+  // Lead validation rules - bundled src/config/rules/validation-rules.json unless a file is given
+  validation: {
+    rulesPath: process.env.VALIDATION_RULES_PATH,
+    reloadIntervalMs: parseInt(process.env.VALIDATION_RULES_RELOAD_MS || '5000', 10),
+  },
+
   // Webhook security
   webhook: {
-    secret: process.env.WEBHOOK_SECRET,
+    // All active signing secrets - list both old and new while rotating
+    secrets: [
+      ...(process.env.WEBHOOK_SECRETS?.split(',').map((s) => s.trim()) || []),
+      process.env.WEBHOOK_SECRET,
+    ].filter((s): s is string => Boolean(s)),
+    timestampToleranceSeconds: parseInt(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || '300', 10),
+    // Accept old body-only signatures (no timestamp/nonce) while senders migrate
+    allowLegacySignatures: process.env.WEBHOOK_ALLOW_LEGACY_SIGNATURES === 'true',
+    // Replayed submissions (same Idempotency-Key or identical payload) within this window return the first response
+    idempotencyWindowMs: parseInt(process.env.WEBHOOK_IDEMPOTENCY_WINDOW_HOURS || '24', 10) * 60 * 60 * 1000,
+  },
+
+  // Third-party form providers posting to /api/webhook/:provider
+  formProviders: {
+    typeformSecret: process.env.TYPEFORM_WEBHOOK_SECRET,
+    hubspotClientSecret: process.env.HUBSPOT_CLIENT_SECRET,
+    webflowSecret: process.env.WEBFLOW_WEBHOOK_SECRET,
+    // Inbound email (POST /api/webhook/mailgun, /api/webhook/resend)
+    mailgunSigningKey: process.env.MAILGUN_WEBHOOK_SIGNING_KEY,
+    resendInboundSecret: process.env.RESEND_INBOUND_WEBHOOK_SECRET,
+    // Public URL of this API - HubSpot signs the full request URL, which differs from req.host behind a proxy
+    publicBaseUrl: process.env.PUBLIC_BASE_URL,
+    // Extra provider field -> form field mappings, e.g. {"what_do_you_need":"message"}
+    fieldMap: JSON.parse(process.env.FORM_FIELD_MAP || '{}'),
+  },
+
+  // Anti-bot checks on form submissions - failures are fast-rejected before AI scoring
+  botProtection: {
+    // Forms submitted sooner than this after form_rendered_at are taken for bots
+    minFillTimeMs: parseInt(process.env.FORM_MIN_FILL_TIME_MS || '3000', 10),
+    // turnstile, hcaptcha or stub (local development - accepts any token except "fail")
+    captchaProvider: CAPTCHA_PROVIDERS.find((provider) => provider === process.env.CAPTCHA_PROVIDER),
+    captchaSecret: process.env.CAPTCHA_SECRET,
+    // Reject website form submissions without a CAPTCHA token
+    captchaRequired: process.env.CAPTCHA_REQUIRED === 'true',
+    captchaTimeoutMs: parseInt(process.env.CAPTCHA_TIMEOUT_MS || '5000', 10),
+  },
+
+  // Job description files attached to form submissions (multipart uploads or signed URLs)
+  attachments: {
+    maxBytes: parseInt(process.env.ATTACHMENT_MAX_BYTES || String(10 * 1024 * 1024), 10),
+    maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '3', 10),
+    // Extracted text appended to needs_description is cut off after this many characters
+    maxTextChars: parseInt(process.env.ATTACHMENT_MAX_TEXT_CHARS || '20000', 10),
+    // Hosts signed attachment URLs may point to - URL attachments are refused when empty
+    allowedUrlHosts: (process.env.ATTACHMENT_URL_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    downloadTimeoutMs: parseInt(process.env.ATTACHMENT_DOWNLOAD_TIMEOUT_MS || '15000', 10),
+    storageBucket: process.env.ATTACHMENT_STORAGE_BUCKET || 'lead-attachments',
   },
 
   // Apify (for scrapers)
@@ -58,13 +123,76 @@ export const config: Config = {
     maxItems: parseInt(process.env.SCRAPER_MAX_ITEMS || '50', 10),
     retentionDays: parseInt(process.env.JOB_RETENTION_DAYS || '20', 10),
   },
+
+  // AI job evaluations reused for identical ads (same title, company, description and prompt version)
+  jobEvaluationCache: {
+    // Fake evaluations default to memory so they never land in a shared cache
+    driver:
+      process.env.JOB_EVALUATION_CACHE_DRIVER === 'memory' ||
+      (!process.env.JOB_EVALUATION_CACHE_DRIVER && process.env.AI_PROVIDER === 'fake')
+        ? 'memory'
+        : 'supabase',
+    ttlMs: parseInt(process.env.JOB_EVALUATION_CACHE_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000,
+  },
+
+  // Repeat-lead detection: same email/company within this window becomes a follow-up signal
+  repeatLead: {
+    windowDays: parseInt(process.env.REPEAT_LEAD_WINDOW_DAYS || '30', 10),
+  },
+
+  // Background lead processing queue
+  leadQueue: {
+    driver: process.env.LEAD_QUEUE_DRIVER === 'memory' ? 'memory' : 'supabase',
+    workerEnabled: process.env.LEAD_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.LEAD_QUEUE_POLL_INTERVAL_MS || '2000', 10),
+    maxAttempts: parseInt(process.env.LEAD_QUEUE_MAX_ATTEMPTS || '3', 10),
+    retryBackoffMs: parseInt(process.env.LEAD_QUEUE_RETRY_BACKOFF_MS || '30000', 10),
+    staleAfterMs: parseInt(process.env.LEAD_QUEUE_STALE_AFTER_MS || '300000', 10),
+    stepRetries: parseInt(process.env.LEAD_PIPELINE_STEP_RETRIES || '2', 10),
+    stepBackoffMs: parseInt(process.env.LEAD_PIPELINE_STEP_BACKOFF_MS || '1000', 10),
+  },
+
+  // Timeouts, retries and circuit breakers for external calls (utils/resilience.ts)
+  resilience: {
+    dependencies: {
+      llm: {
+        timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10),
+        retries: parseInt(process.env.LLM_RETRIES || '2', 10),
+      },
+      resend: {
+        timeoutMs: parseInt(process.env.RESEND_TIMEOUT_MS || '10000', 10),
+        retries: parseInt(process.env.RESEND_RETRIES || '2', 10),
+      },
+      supabase: {
+        timeoutMs: parseInt(process.env.SUPABASE_TIMEOUT_MS || '15000', 10),
+        retries: parseInt(process.env.SUPABASE_RETRIES || '2', 10),
+      },
+      // An actor run waits for the scrape to finish
+      apify: {
+        timeoutMs: parseInt(process.env.APIFY_TIMEOUT_MS || '600000', 10),
+        retries: parseInt(process.env.APIFY_RETRIES || '1', 10),
+      },
+    },
+    retryBaseDelayMs: parseInt(process.env.EXTERNAL_RETRY_BASE_DELAY_MS || '500', 10),
+    retryMaxDelayMs: parseInt(process.env.EXTERNAL_RETRY_MAX_DELAY_MS || '10000', 10),
+    breakerFailureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    breakerResetMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000', 10),
+  },
 };
 
 // Validation
-const requiredEnvVars = ['OPENAI_API_KEY', 'SUPABASE_URL', 'SUPABASE_KEY', 'RESEND_API_KEY'];
+const requiredEnvVars = [
+  ...(config.llm.aiProvider === 'fake' ? [] : ['OPENAI_API_KEY']),
+  'SUPABASE_URL',
+  'SUPABASE_KEY',
+  'RESEND_API_KEY',
+];
 const missing = requiredEnvVars.filter((key) => !process.env[key]);
 
 if (missing.length > 0 && process.env.NODE_ENV !== 'test') {
   console.error(`Missing required environment variables: ${missing.join(', ')}`);
+  if (config.llm.aiProvider === 'fake') {
+    console.error('AI_PROVIDER=fake only fakes the AI calls - Supabase and Resend are still required');
+  }
   process.exit(1);
 }
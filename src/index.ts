@@ -6,6 +6,10 @@ import { config } from './config/env.js';
 import { logger } from './utils/logger.js';
 import webhookRouter from './routes/webhook.js';
 import jobScrapingRouter from './routes/jobScraping.js';
+import leadsRouter from './routes/leads.js';
+import { startLeadWorker, stopLeadWorker } from './services/leads/leadWorker.js';
+import { requestContext } from './middleware/requestContext.js';
+import { REQUEST_ID_HEADER } from './utils/requestContext.js';
 // Import for Express Request type augmentation (adds rawBody property)
 import './middleware/webhookAuth.js';
 
@@ -15,6 +19,9 @@ interface ErrorWithStatus extends Error {
 
 const app: Application = express();
 
+// Correlation ID (X-Request-Id) on every log line and record of the request
+app.use(requestContext);
+
 // Security middleware
 app.use(helmet());
 
@@ -23,6 +30,7 @@ app.use(
   cors({
     origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
     credentials: true,
+    exposedHeaders: [REQUEST_ID_HEADER],
   })
 );
 
@@ -47,7 +55,27 @@ app.use(
     },
   })
 );
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(
+  express.urlencoded({
+    extended: true,
+    limit: '10mb',
+    verify: (req: Request, _res, buf) => {
+      // Form-encoded providers (e.g. Mailgun inbound email) are verified too
+      req.rawBody = buf;
+    },
+  })
+);
+// Multipart forms (job description uploads, Mailgun emails with attachments) are buffered
+// for signature checks and parsed per route by middleware/multipartBody.ts
+app.use(
+  express.raw({
+    type: 'multipart/form-data',
+    limit: config.attachments.maxBytes * config.attachments.maxFiles + 1024 * 1024,
+    verify: (req: Request, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -70,6 +98,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 // Mount routes
 app.use('/api', webhookRouter);
 app.use('/api/scraping/jobs', jobScrapingRouter);
+app.use('/api/leads', leadsRouter);
 
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
@@ -79,7 +108,15 @@ app.get('/', (_req: Request, res: Response) => {
     status: 'running',
     endpoints: {
       webhook: 'POST /api/webhook',
+      providerWebhook: 'POST /api/webhook/:provider',
       health: 'GET /api/health',
+      leads: {
+        status: 'GET /api/leads/:id',
+        dryRun: 'POST /api/leads/dry-run',
+        reclassify: 'POST /api/leads/:id/reclassify',
+        processingErrors: 'GET /api/leads/processing-errors',
+        replay: 'POST /api/leads/processing-errors/replay',
+      },
       scraping: {
         indeed: 'POST /api/scraping/jobs/indeed',
         cleanup: 'POST /api/scraping/jobs/cleanup',
@@ -119,6 +156,9 @@ const server = app.listen(PORT, () => {
     nodeEnv: config.nodeEnv,
     port: PORT,
   });
+
+  // Background worker for queued webhook submissions
+  startLeadWorker();
 });
 
 // Graceful shutdown handler
@@ -133,7 +173,11 @@ function gracefulShutdown(signal: string) {
     }
 
     logger.info('HTTP server closed, all connections drained');
-    process.exit(0);
+
+    // Let the in-flight submission finish - anything left is picked up again after restart
+    stopLeadWorker()
+      .catch((workerErr) => logger.error('Error stopping lead worker', workerErr))
+      .finally(() => process.exit(0));
   });
 
   // Force exit if shutdown takes too long
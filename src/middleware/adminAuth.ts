@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Timing-safe comparison of API keys (hashed first so lengths always match)
+ */
+function apiKeysMatch(received: string, expected: string): boolean {
+  const receivedHash = crypto.createHash('sha256').update(received).digest();
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(receivedHash, expectedHash);
+}
+
+/**
+ * Middleware to verify the admin API key (x-api-key header) on lead admin routes.
+ * These routes return personal data, so unlike the scraper key a missing
+ * ADMIN_API_KEY only allows requests outside production.
+ */
+export function verifyAdminApiKey(req: Request, res: Response, next: NextFunction): void {
+  const apiKey = req.headers['x-api-key'];
+
+  if (!config.admin.apiKey) {
+    if (config.nodeEnv === 'production') {
+      logger.error('Admin API key not configured - rejecting admin request');
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or missing API key',
+      });
+      return;
+    }
+
+    logger.warn('Admin API key not configured, allowing request');
+    next();
+    return;
+  }
+
+  if (typeof apiKey !== 'string' || !apiKeysMatch(apiKey, config.admin.apiKey)) {
+    logger.warn('Invalid or missing admin API key', { ip: req.ip, path: req.path });
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or missing API key',
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,104 @@
+import busboy from 'busboy';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env.js';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import type { AttachmentFile } from '../services/intake/attachments.js';
+
+type MultipartFields = Record<string, string | string[]>;
+
+interface ParsedMultipart {
+  fields: MultipartFields;
+  files: AttachmentFile[];
+  // Set when a size or count limit cut the upload short
+  limitExceeded: string | null;
+}
+
+/**
+ * Parses a buffered multipart/form-data body.
+ * Repeated fields (or names ending in []) become arrays.
+ */
+function parseMultipart(req: Request, body: Buffer): Promise<ParsedMultipart> {
+  return new Promise((resolve, reject) => {
+    const fields: MultipartFields = {};
+    const files: AttachmentFile[] = [];
+    let limitExceeded: string | null = null;
+
+    const parser = busboy({
+      headers: req.headers,
+      limits: {
+        fileSize: config.attachments.maxBytes,
+        files: config.attachments.maxFiles,
+        fields: 100,
+      },
+    });
+
+    parser.on('field', (rawName, value) => {
+      const name = rawName.endsWith('[]') ? rawName.slice(0, -2) : rawName;
+      const existing = fields[name];
+
+      if (existing !== undefined || rawName.endsWith('[]')) {
+        fields[name] = [...(existing === undefined ? [] : Array.isArray(existing) ? existing : [existing]), value];
+      } else {
+        fields[name] = value;
+      }
+    });
+
+    parser.on('file', (_name, stream, info) => {
+      const chunks: Buffer[] = [];
+
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('limit', () => {
+        limitExceeded = `Attachment larger than ${config.attachments.maxBytes} bytes`;
+      });
+      stream.on('end', () => {
+        // Empty file inputs are sent as a part without a file name
+        if (info.filename && !limitExceeded) {
+          files.push({ filename: info.filename, content_type: info.mimeType, data: Buffer.concat(chunks) });
+        }
+      });
+    });
+
+    parser.on('filesLimit', () => {
+      limitExceeded = `Too many attachments (max ${config.attachments.maxFiles})`;
+    });
+    parser.on('error', reject);
+    parser.on('close', () => resolve({ fields, files, limitExceeded }));
+
+    parser.end(body);
+  });
+}
+
+/**
+ * Turns a multipart/form-data webhook body (buffered by express.raw in index.ts, so
+ * signatures can be checked over it) into form fields in req.body and the uploaded
+ * files in res.locals.attachmentFiles. Other content types pass through untouched.
+ */
+export async function parseMultipartBody(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.is('multipart/form-data') || !Buffer.isBuffer(req.body)) {
+    next();
+    return;
+  }
+
+  try {
+    const { fields, files, limitExceeded } = await parseMultipart(req, req.body);
+
+    if (limitExceeded) {
+      logger.warn('Multipart upload rejected', { reason: limitExceeded });
+      res.status(413).json({
+        success: false,
+        message: limitExceeded,
+      });
+      return;
+    }
+
+    req.body = fields;
+    res.locals.attachmentFiles = files;
+    next();
+  } catch (error) {
+    logger.warn('Malformed multipart body', { error: getErrorMessage(error) });
+    res.status(400).json({
+      success: false,
+      message: 'Malformed multipart body',
+    });
+  }
+}
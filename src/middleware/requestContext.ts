@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import { REQUEST_ID_HEADER, resolveCorrelationId, runWithContext } from '../utils/requestContext.js';
+
+/**
+ * Gives every request a correlation ID, taken from X-Request-Id or generated,
+ * echoes it in the response and runs the rest of the request inside its context
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const correlationId = resolveCorrelationId(req.headers['x-request-id']);
+
+  res.setHeader(REQUEST_ID_HEADER, correlationId);
+  runWithContext({ correlationId }, next);
+}
@@ -1,7 +1,16 @@
 import crypto from 'crypto';
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { config } from '../config/env.js';
 import { logger } from '../utils/logger.js';
+import { createNonceCache } from '../utils/nonceCache.js';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+  signaturesMatch,
+  verifySignedRequest,
+} from '../utils/webhookSigning.js';
+import type { ProviderSignatureResult } from '../types/intake.types.js';
 
 // Extend Express Request to include rawBody
 declare global {
@@ -12,39 +21,73 @@ declare global {
   }
 }
 
+// Nonces only need to be remembered for as long as their timestamp is accepted
+const seenNonces = createNonceCache(config.webhook.timestampToleranceSeconds * 2 * 1000);
+
+const REJECTION_MESSAGES: Record<string, string> = {
+  missing_headers: 'Missing webhook timestamp or nonce',
+  invalid_timestamp: 'Invalid webhook timestamp',
+  timestamp_out_of_range: 'Webhook timestamp outside tolerance window',
+  signature_mismatch: 'Invalid webhook signature',
+};
+
+function headerValue(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function rejectUnauthorized(req: Request, res: Response, reason: string, message: string): void {
+  logger.warn(`Webhook request rejected - ${reason}`, {
+    ip: req.ip,
+    path: req.path,
+  });
+  res.status(401).json({
+    success: false,
+    error: 'Unauthorized',
+    message,
+  });
+}
+
 /**
- * Verifies HMAC-SHA256 signature of incoming webhook requests.
+ * Legacy scheme: HMAC-SHA256 of the body only. Only accepted when
+ * WEBHOOK_ALLOW_LEGACY_SIGNATURES=true, for senders not yet migrated.
+ */
+function isValidLegacySignature(signature: string, rawBody: Buffer): boolean {
+  return config.webhook.secrets.some((secret) =>
+    signaturesMatch(signature, crypto.createHmac('sha256', secret).update(rawBody).digest('hex'))
+  );
+}
+
+/**
+ * Verifies replay-protected HMAC-SHA256 signatures of incoming webhook requests.
  *
- * The sender must create a signature by hashing the request body with the shared secret:
- *   signature = HMAC-SHA256(body, secret)
+ * The sender signs `${timestamp}.${nonce}.${body}` with a shared secret
+ * (see utils/webhookSigning.ts) and sends the x-webhook-timestamp,
+ * x-webhook-nonce and x-webhook-signature headers.
  *
- * The signature should be sent in the 'x-webhook-signature' header as a hex string.
+ * Requests are rejected when the timestamp is outside the tolerance window
+ * or the nonce was already used. Any of the configured secrets is accepted,
+ * so secrets can be rotated without downtime.
  *
- * If WEBHOOK_SECRET is not configured, verification is skipped (for development).
+ * If no secret is configured, verification is skipped (for development).
  */
 export function verifyWebhookSignature(req: Request, res: Response, next: NextFunction): void {
-  const secret = config.webhook.secret;
+  const secrets = config.webhook.secrets;
 
   // Skip verification if no secret is configured (development mode)
-  if (!secret) {
+  if (secrets.length === 0) {
     logger.warn('Webhook signature verification skipped - WEBHOOK_SECRET not configured');
     next();
     return;
   }
 
-  const signature = req.headers['x-webhook-signature'];
+  const signature = headerValue(req, SIGNATURE_HEADER);
+  const timestamp = headerValue(req, TIMESTAMP_HEADER);
+  const nonce = headerValue(req, NONCE_HEADER);
 
   // Check if signature header is present
-  if (!signature || typeof signature !== 'string') {
-    logger.warn('Webhook request rejected - missing x-webhook-signature header', {
-      ip: req.ip,
-      path: req.path,
-    });
-    res.status(401).json({
-      success: false,
-      error: 'Unauthorized',
-      message: 'Missing webhook signature',
-    });
+  if (!signature) {
+    rejectUnauthorized(req, res, 'missing x-webhook-signature header', 'Missing webhook signature');
     return;
   }
 
@@ -61,45 +104,105 @@ export function verifyWebhookSignature(req: Request, res: Response, next: NextFu
     return;
   }
 
-  // Calculate expected signature
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(rawBody)
-    .digest('hex');
-
-  // Use timing-safe comparison to prevent timing attacks
-  const signatureBuffer = Buffer.from(signature, 'hex');
-  const expectedBuffer = Buffer.from(expectedSignature, 'hex');
-
-  // Buffers must be same length for timingSafeEqual
-  if (signatureBuffer.length !== expectedBuffer.length) {
-    logger.warn('Webhook signature verification failed - length mismatch', {
-      ip: req.ip,
-      path: req.path,
-    });
-    res.status(401).json({
-      success: false,
-      error: 'Unauthorized',
-      message: 'Invalid webhook signature',
-    });
+  if (!timestamp && !nonce && config.webhook.allowLegacySignatures) {
+    if (!isValidLegacySignature(signature, rawBody)) {
+      rejectUnauthorized(req, res, 'legacy signature mismatch', 'Invalid webhook signature');
+      return;
+    }
+
+    logger.warn('Webhook accepted with legacy body-only signature', { ip: req.ip, path: req.path });
+    next();
     return;
   }
 
-  const isValid = crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+  const result = verifySignedRequest({
+    body: rawBody,
+    signature,
+    timestamp,
+    nonce,
+    secrets,
+    toleranceSeconds: config.webhook.timestampToleranceSeconds,
+  });
 
-  if (!isValid) {
-    logger.warn('Webhook signature verification failed - signature mismatch', {
-      ip: req.ip,
-      path: req.path,
-    });
-    res.status(401).json({
-      success: false,
-      error: 'Unauthorized',
-      message: 'Invalid webhook signature',
-    });
+  if (!result.valid) {
+    rejectUnauthorized(req, res, result.reason, REJECTION_MESSAGES[result.reason]);
+    return;
+  }
+
+  // Only remember nonces of authentic requests, so forged requests can't burn them
+  if (!seenNonces.checkAndStore(nonce as string)) {
+    rejectUnauthorized(req, res, 'nonce already used (replay)', 'Webhook request already processed');
     return;
   }
 
+  if (result.secretIndex > 0) {
+    logger.debug('Webhook signed with non-primary secret', { secretIndex: result.secretIndex });
+  }
+
   logger.debug('Webhook signature verified successfully');
   next();
 }
+
+/**
+ * Whether providers without a configured secret may send unsigned requests: only
+ * outside production, while our own webhook isn't signed either (development)
+ */
+function allowsUnsignedProviders(): boolean {
+  return config.nodeEnv !== 'production' && config.webhook.secrets.length === 0;
+}
+
+/**
+ * Builds middleware verifying a form provider's own signature scheme
+ * (see utils/providerSignatures.ts).
+ *
+ * If the provider's secret is not configured, the provider is refused with 404 -
+ * otherwise it would be a way around WEBHOOK_SECRET. In development without
+ * WEBHOOK_SECRET, verification is skipped instead, unless requireSecret is set.
+ */
+export function verifyProviderSignature(
+  provider: string,
+  secret: string | undefined,
+  check: (req: Request, rawBody: Buffer, secret: string) => ProviderSignatureResult,
+  options: { requireSecret?: boolean } = {}
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!secret) {
+      if (options.requireSecret || !allowsUnsignedProviders()) {
+        logger.warn(`Webhook rejected - ${provider} secret not configured`, { ip: req.ip, path: req.path });
+        res.status(404).json({
+          success: false,
+          message: 'Form provider not configured',
+        });
+        return;
+      }
+
+      logger.warn(`Webhook signature verification skipped - ${provider} secret not configured`);
+      next();
+      return;
+    }
+
+    const rawBody = req.rawBody;
+
+    if (!rawBody) {
+      logger.error('Raw body not available for signature verification', { provider });
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Unable to verify signature',
+      });
+      return;
+    }
+
+    const result = check(req, rawBody, secret);
+
+    if (!result.valid) {
+      const message =
+        result.reason === 'missing_headers' ? `Missing ${provider} signature` : REJECTION_MESSAGES[result.reason];
+      rejectUnauthorized(req, res, `${provider} ${result.reason}`, message);
+      return;
+    }
+
+    logger.debug('Provider webhook signature verified successfully', { provider });
+    next();
+  };
+}
@@ -1,12 +1,12 @@
 import { z } from 'zod';
-import type { NormalizedJob } from '../types/scraper.types.js';
+import type { PromptFile } from '../types/llm.types.js';
 
 /**
  * System prompt for Job Evaluation AI Agent
  * Copied from the n8n Indeed Job Scraper workflow
  * Used to evaluate scraped job postings for Rookie's target market
  */
-export const JOB_EVALUATION_SYSTEM_PROMPT = `You are a Recruitment Filtering AI for Early-to-Mid Career roles (0 to 8 years experience).
+const JOB_EVALUATION_SYSTEM_PROMPT = `You are a Recruitment Filtering AI for Early-to-Mid Career roles (0 to 8 years experience).
 
 Your task: Analyze job postings in TWO STAGES and assign validity + score.
 
@@ -239,12 +239,11 @@ CRITICAL REMINDERS
 Return JSON now.`;
 
 /**
- * Generate user prompt for job evaluation
+ * User prompt template for job evaluation
  */
-export function generateJobEvaluationUserPrompt(job: NormalizedJob): string {
-  return `Job Title: ${job.title}
-Company: ${job.company}
-Description: ${job.description}
+const JOB_EVALUATION_USER_PROMPT = `Job Title: {{title}}
+Company: {{company}}
+Description: {{description}}
 
 
 Analyze the job posting above and determine if it's suitable for candidates with 0-8 years of experience.
@@ -260,7 +259,12 @@ Return ONLY a JSON object in this exact format:
   "applicationEmail": "return email address(es) extracted or 'Email Not Found'",
   "duration": "return anställningsform, omfattning or empty string"
 }`;
-}
+
+export const jobEvaluationPrompt: PromptFile = {
+  id: 'job_evaluation',
+  system: JOB_EVALUATION_SYSTEM_PROMPT,
+  user: JOB_EVALUATION_USER_PROMPT,
+};
 
 /**
  * Zod schema for validating AI response
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { leadScoringPrompt } from './leadScoring.prompt.js';
+import { jobAdPrompt } from './jobAd.prompt.js';
+import { jobEvaluationPrompt } from './jobEvaluation.prompt.js';
+import type {
+  AIProvenance,
+  LLMMessage,
+  PromptFile,
+  PromptId,
+  VersionedPrompt,
+} from '../types/llm.types.js';
+
+// Prompt files loaded into the registry - one per AI task
+const PROMPT_FILES: PromptFile[] = [leadScoringPrompt, jobAdPrompt, jobEvaluationPrompt];
+
+export interface PromptRegistry {
+  get(id: PromptId): VersionedPrompt;
+  list(): VersionedPrompt[];
+}
+
+/**
+ * Version of a prompt: first 12 hex characters of the sha256 of its system prompt and user template.
+ * Any edit to the prompt text gives a new version.
+ */
+export function computePromptVersion(prompt: Pick<PromptFile, 'system' | 'user'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(prompt.system)
+    .update('\0')
+    .update(prompt.user)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Builds a registry of versioned prompts from prompt files
+ */
+export function createPromptRegistry(files: PromptFile[]): PromptRegistry {
+  const prompts = new Map<PromptId, VersionedPrompt>();
+
+  for (const file of files) {
+    if (prompts.has(file.id)) {
+      throw new Error(`Duplicate prompt id: ${file.id}`);
+    }
+    prompts.set(file.id, { ...file, version: computePromptVersion(file) });
+  }
+
+  return {
+    get(id) {
+      const prompt = prompts.get(id);
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${id}`);
+      }
+      return prompt;
+    },
+    list: () => [...prompts.values()],
+  };
+}
+
+export const promptRegistry = createPromptRegistry(PROMPT_FILES);
+
+/**
+ * Current version of a prompt in the bundled registry
+ */
+export function getPrompt(id: PromptId): VersionedPrompt {
+  return promptRegistry.get(id);
+}
+
+/**
+ * Fills the {{variable}} placeholders of a template. Missing values render as an empty string;
+ * a placeholder without a variable is a bug in the prompt file and throws.
+ */
+export function fillTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing prompt variable: ${name}`);
+    }
+    const value = variables[name];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * System and user messages for a prompt
+ */
+export function renderPrompt(prompt: VersionedPrompt, variables: Record<string, unknown>): LLMMessage[] {
+  return [
+    { role: 'system', content: prompt.system },
+    { role: 'user', content: fillTemplate(prompt.user, variables) },
+  ];
+}
+
+/**
+ * Provenance of a result produced with a prompt and model
+ */
+export function toProvenance(prompt: VersionedPrompt, model: string): AIProvenance {
+  return { prompt_id: prompt.id, prompt_version: prompt.version, model };
+}
@@ -67,7 +67,7 @@ router.post('/indeed', async (req: Request, res: Response) => {
     const parseResult = ScraperRunRequestSchema.safeParse(req.body);
     const runConfig: ScraperRunRequestType = parseResult.success
       ? parseResult.data
-      : { country: 'SE', maxItems: 50 };
+      : { country: 'SE', maxItems: 50, refreshEvaluations: false };
 
     logger.info('Starting Indeed scraper run', { config: runConfig });
 
@@ -80,7 +80,9 @@ router.post('/indeed', async (req: Request, res: Response) => {
     });
 
     // 2. Process jobs through the pipeline
-    const result = await runJobProcessingPipeline(jobs, 'indeed');
+    const result = await runJobProcessingPipeline(jobs, 'indeed', {
+      refreshEvaluations: runConfig.refreshEvaluations,
+    });
 
     // 3. Send email digest (don't wait, don't fail if it errors)
     sendJobScraperDigestEmail(result).catch((err) => {
@@ -0,0 +1,235 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { verifyAdminApiKey } from '../middleware/adminAuth.js';
+import { leadQueue } from '../services/leads/leadWorker.js';
+import { toLeadStatus } from '../services/leads/leadStatus.js';
+import { overrideLeadClassification } from '../services/leads/leadOverride.js';
+import { replayProcessingErrorLeads } from '../services/leads/leadRecovery.js';
+import { listProcessingErrorLeads } from '../services/supabaseService.js';
+import { LeadOverrideRequestSchema, LeadReplayRequestSchema } from '../schemas/leads.js';
+import { dryRunLeadSubmission } from '../services/leads/leadDryRun.js';
+import { getFormAdapter } from '../services/intake/formAdapters.js';
+import { parseWebhookRequest, formatValidationErrors } from '../schemas/webhook.js';
+import { structureFormData } from '../utils/validator.js';
+
+const router: Router = Router();
+
+// All lead routes return personal data - admin only
+router.use(verifyAdminApiKey);
+
+/**
+ * POST /api/leads/dry-run
+ * Runs validation, AI scoring, domain extraction and job ad generation on a submission
+ * and returns every intermediate result. Nothing is written to Supabase and no email is sent.
+ * Takes the webhook body, or a provider payload with ?provider=typeform|hubspot|...
+ */
+router.post('/dry-run', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const provider = typeof req.query.provider === 'string' ? req.query.provider : 'website';
+  const adapter = getFormAdapter(provider);
+
+  if (!adapter) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown form provider',
+    });
+  }
+
+  const mapped = adapter.mapPayload(req.body);
+  const validationResult = parseWebhookRequest(mapped?.body);
+
+  if (!validationResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: formatValidationErrors(validationResult.errors),
+    });
+  }
+
+  try {
+    const formData = structureFormData(validationResult.data, uuidv4(), adapter.source);
+    const result = await dryRunLeadSubmission(formData);
+
+    return res.status(200).json({
+      success: true,
+      dry_run: true,
+      ...result,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Lead dry run failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
+/**
+ * GET /api/leads/processing-errors
+ * Leads saved to rejected_leads after a processing failure and not yet recovered
+ */
+router.get('/processing-errors', async (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(String(req.query.limit ?? '100'), 10) || 100, 500);
+
+  try {
+    const leads = await listProcessingErrorLeads({ limit });
+
+    return res.status(200).json({
+      success: true,
+      count: leads.length,
+      leads,
+    });
+  } catch (error) {
+    logger.error('Failed to list processing error leads', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * POST /api/leads/processing-errors/replay
+ * Re-runs the full pipeline on the given processing_error rows, or on all unrecovered ones
+ */
+router.post('/processing-errors/replay', async (req: Request, res: Response) => {
+  const parseResult = LeadReplayRequestSchema.safeParse(req.body);
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: formatValidationErrors(parseResult.error),
+    });
+  }
+
+  try {
+    const report = await replayProcessingErrorLeads({
+      ids: parseResult.data.ids,
+      limit: parseResult.data.limit,
+    });
+
+    return res.status(200).json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    logger.error('Processing error replay failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * GET /api/leads/:id
+ * Status, classification, linked records and step results of a submission
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid submission id',
+    });
+  }
+
+  try {
+    const submission = await leadQueue.get(id);
+
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submission not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      lead: toLeadStatus(submission),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch lead status', error, { submissionId: id });
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * POST /api/leads/:id/reclassify
+ * Overrides the AI classification of a processed submission and runs the new path.
+ * Moving a lead to valid_lead creates the company, signal, contact and job ad and sends the email.
+ */
+router.post('/:id/reclassify', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid submission id',
+    });
+  }
+
+  const parseResult = LeadOverrideRequestSchema.safeParse(req.body);
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: formatValidationErrors(parseResult.error),
+    });
+  }
+
+  const request = parseResult.data;
+
+  try {
+    const submission = await leadQueue.get(id);
+
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        error: 'Submission not found',
+      });
+    }
+
+    if (submission.status !== 'completed') {
+      return res.status(409).json({
+        success: false,
+        error: `Only processed submissions can be reclassified (status: ${submission.status})`,
+      });
+    }
+
+    if (submission.result?.classification === request.classification) {
+      return res.status(409).json({
+        success: false,
+        error: `Lead is already classified as ${request.classification}`,
+      });
+    }
+
+    const { override } = await overrideLeadClassification(submission, request);
+    const updated = await leadQueue.get(id);
+
+    return res.status(200).json({
+      success: true,
+      override_id: override.id,
+      lead: updated ? toLeadStatus(updated) : null,
+    });
+  } catch (error) {
+    logger.error('Failed to reclassify lead', error, { submissionId: id });
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+export default router;
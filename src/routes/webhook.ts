@@ -1,38 +1,31 @@
-import express, { Request, Response, Router } from 'express';
+import express, { Request, Response, NextFunction, Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env.js';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
+import { insertRejectedLead } from '../services/supabaseService.js';
+import { sendAdminAlert } from '../services/emailService.js';
 import {
-  validateLead,
-  extractDomain,
-  normalizeCompanyData,
-  prepareContactData,
-} from '../utils/validator.js';
-import { scoreLead, generateJobAd } from '../services/aiService.js';
-import {
-  findOrCreateCompany,
-  createSignal,
-  insertRejectedLead,
-  insertCandidateLead,
-  upsertContact,
-  createJobAdRecord,
-} from '../services/supabaseService.js';
-import { sendEmailToLead, sendAdminAlert } from '../services/emailService.js';
+  enqueueLeadSubmission,
+  findRecentSubmissionByIdempotencyKey,
+} from '../services/leads/leadWorker.js';
+import { resolveIdempotencyKey } from '../utils/idempotency.js';
+import { getCorrelationId } from '../utils/requestContext.js';
+import { getCircuitBreakerSnapshots } from '../utils/resilience.js';
+import { structureFormData } from '../utils/validator.js';
 import {
   parseWebhookRequest,
   formatValidationErrors,
 } from '../schemas/webhook.js';
-import { verifyWebhookSignature } from '../middleware/webhookAuth.js';
-import type {
-  FormData,
-  WebhookSuccessResponse,
-  JobAdWithCompanyId,
-} from '../types/index.js';
+import { getFormAdapter, FORM_PROVIDER_HEADER } from '../services/intake/formAdapters.js';
+import { findAttachmentProblem, type AttachmentFile } from '../services/intake/attachments.js';
+import { storeUploadedAttachments, attachmentsFromUrls } from '../services/leads/leadAttachments.js';
+import { runBotCheck, withoutBotCheckFields } from '../services/intake/botProtection.js';
+import { parseMultipartBody } from '../middleware/multipartBody.js';
+import type { FormData, WebhookSuccessResponse } from '../types/index.js';
+import type { FormAdapter } from '../types/intake.types.js';
 
 const router: Router = express.Router();
 
-/**
- * Main webhook handler
- * Replicates the entire N8n flow
- */
 /**
  * Masks PII fields for GDPR-compliant logging while preserving structure visibility
  */
@@ -48,21 +41,72 @@ function maskPiiForLogging(body: Record<string, unknown>): Record<string, unknow
   if (typeof masked.phone === 'string') {
     masked.phone = masked.phone.length > 0 ? `[REDACTED:${masked.phone.length}chars]` : '[EMPTY]';
   }
+  // Signed URLs carry access tokens
+  if (masked.attachment_urls !== undefined) {
+    masked.attachment_urls = `[REDACTED:${Array.isArray(masked.attachment_urls) ? masked.attachment_urls.length : 1}urls]`;
+  }
 
   return masked;
 }
 
-router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Response) => {
+/**
+ * Resolves the intake adapter from the :provider path segment or the X-Form-Provider header.
+ * Plain POST /api/webhook without either is our own website form.
+ */
+function selectFormAdapter(req: Request, res: Response, next: NextFunction): void {
+  const provider = req.params.provider ?? req.get(FORM_PROVIDER_HEADER) ?? 'website';
+  const adapter = getFormAdapter(provider);
+
+  if (!adapter) {
+    logger.warn('Webhook rejected - unknown form provider', { provider });
+    res.status(404).json({
+      success: false,
+      message: 'Unknown form provider',
+    });
+    return;
+  }
+
+  res.locals.formAdapter = adapter;
+  next();
+}
+
+/**
+ * Checks the signature scheme of the selected provider
+ */
+function verifyFormSignature(req: Request, res: Response, next: NextFunction): void {
+  (res.locals.formAdapter as FormAdapter).verifySignature(req, res, next);
+}
+
+/**
+ * Main webhook handler
+ * Maps the provider payload, validates and persists the submission, then answers 202 right away.
+ * The N8n flow itself runs in the background worker (services/leads/leadPipeline.ts).
+ */
+router.post(['/webhook', '/webhook/:provider'], selectFormAdapter, parseMultipartBody, verifyFormSignature, async (req: Request, res: Response) => {
   const startTime = Date.now();
+  const adapter = res.locals.formAdapter as FormAdapter;
 
   // Declare formData outside try block so it's accessible in catch
   let formData: FormData | undefined;
 
   try {
-    logger.info('Webhook received', { body: maskPiiForLogging(req.body) });
+    // Step 1: Map the provider payload onto our flat form body
+    const mapped = adapter.mapPayload(req.body);
+
+    if (!mapped) {
+      logger.warn('Unrecognised form payload', { provider: adapter.provider });
+
+      return res.status(400).json({
+        success: false,
+        message: `Unrecognised ${adapter.provider} form payload`,
+        processingTime: Date.now() - startTime,
+      });
+    }
+
+    logger.info('Webhook received', { provider: adapter.provider, body: maskPiiForLogging(mapped.body) });
 
-    // Step 1: Validate request body with zod
-    const validationResult = parseWebhookRequest(req.body);
+    // Step 2: Validate mapped body with zod
+    const validationResult = parseWebhookRequest(mapped.body);
 
     if (!validationResult.success) {
       const errorMessage = formatValidationErrors(validationResult.errors);
@@ -78,169 +122,105 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
 
     const validatedBody = validationResult.data;
 
-    // Step 2: Structure the validated form data
-    formData = {
-      id: Date.now().toString(),
-      full_name: validatedBody.name,
-      email: validatedBody.email,
-      phone: validatedBody.phone,
-      company_name: validatedBody.company,
-      industry: validatedBody.industry,
-      service_type: validatedBody.service_type,
-      needs_description: validatedBody.message,
-      subject: validatedBody.subject,
-    };
-
-    logger.info('Form data structured', { email: maskEmail(formData.email) });
-
-    // Step 2: Lead Data Validation - Validate and check for spam
-    const validatedData = validateLead(formData);
+    // Step 3: Check attachments - type, count and URL host (sizes are limited while parsing)
+    const attachmentFiles: AttachmentFile[] = adapter.acceptsAttachments ? res.locals.attachmentFiles ?? [] : [];
+    const attachmentUrls = adapter.acceptsAttachments ? validatedBody.attachment_urls ?? [] : [];
+    const attachmentProblem = findAttachmentProblem(attachmentFiles, attachmentUrls);
 
-    // Step 3: If - Check if validation passes
-    const passesValidation = validatedData.validation_score > 30 && !validatedData.is_likely_spam;
+    if (attachmentProblem) {
+      logger.warn('Attachments rejected', { reason: attachmentProblem });
 
-    if (!passesValidation) {
-      // Fast reject path - Insert as spam and return
-      logger.warn('Lead failed validation - fast reject', {
-        score: validatedData.validation_score,
-        isSpam: validatedData.is_likely_spam,
+      return res.status(400).json({
+        success: false,
+        message: attachmentProblem,
+        processingTime: Date.now() - startTime,
       });
+    }
 
-      await insertRejectedLead(validatedData);
+    // Step 4: Idempotency - a retried or double-clicked submission returns the first response.
+    // Providers' own submission ids dedupe their redeliveries when no Idempotency-Key is sent.
+    const idempotencyKey = resolveIdempotencyKey(
+      req.headers['idempotency-key'] ?? (mapped.externalId && `${adapter.provider}:${mapped.externalId}`),
+      withoutBotCheckFields(validatedBody)
+    );
 
-      const response: WebhookSuccessResponse = {
-        success: true,
-        message: 'Lead received but classified as spam (fast reject)',
-        classification: 'spam',
-        processingTime: Date.now() - startTime,
-      };
+    if (!idempotencyKey) {
+      logger.warn('Invalid Idempotency-Key header');
 
-      return res.status(200).json(response);
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid Idempotency-Key header',
+        processingTime: Date.now() - startTime,
+      });
     }
 
-    // Step 4: Scoring AI Agent - Get AI classification
-    const aiScore = await scoreLead(validatedData);
-
-    // Step 5: Switch - Route based on classification
-    const classification = aiScore.classification;
-
-    logger.info('Classification determined', { classification });
-
-    switch (classification) {
-      case 'valid_lead': {
-        // Valid lead path - Continue to contact creation and job ad generation
-        logger.info('Processing valid lead');
-
-        // Step 6: Extract Domain
-        const dataWithDomain = extractDomain({ ...validatedData, ...aiScore });
-
-        // Step 7: Find or Create Company
-        const companyId = await findOrCreateCompany(
-          dataWithDomain.company_name || '',
-          dataWithDomain.extracted_domain
-        );
-
-        // Step 8: Create Signal
-        await createSignal(companyId, {
-          full_name: dataWithDomain.full_name,
-          email: dataWithDomain.email,
-          phone: dataWithDomain.phone,
-          needs_description: dataWithDomain.needs_description,
-          lead_score: dataWithDomain.lead_score,
-          classification: dataWithDomain.classification,
-        });
-
-        // Step 9: Normalize Company Data
-        const normalizedData = normalizeCompanyData(formData, aiScore, { company_id: companyId });
-
-        // Step 10: Prepare Contact Data
-        const contactData = prepareContactData(formData, normalizedData);
-
-        // Step 11 & 12: Upsert Contact and Generate Job Ad in parallel (independent operations)
-        const [, jobAd] = await Promise.all([
-          upsertContact(contactData),
-          generateJobAd(formData, normalizedData),
-        ]);
-
-        // Add company_id to job ad data
-        const jobAdWithCompanyId: JobAdWithCompanyId = { ...jobAd, company_id: companyId };
-
-        // Step 13: Create Job Ad Record
-        await createJobAdRecord(jobAdWithCompanyId, formData, aiScore);
-
-        // Step 14: Send Email to Lead
-        await sendEmailToLead(formData.email || '', jobAd, formData.company_name || '');
-
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Valid lead processed successfully',
-          classification: 'valid_lead',
-          lead_score: normalizedData.lead_score,
-          job_ad_title: jobAd.title,
-          processingTime: Date.now() - startTime,
-        };
-
-        return res.status(200).json(response);
-      }
+    const previous = await findRecentSubmissionByIdempotencyKey(idempotencyKey);
 
-      case 'invalid_lead': {
-        // Invalid lead path
-        logger.info('Processing invalid lead');
-        await insertRejectedLead(formData, aiScore.classification, aiScore.ai_reasoning);
+    if (previous?.response) {
+      logger.info('Duplicate submission - returning stored response', { submissionId: previous.id });
 
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as invalid',
-          classification: 'invalid_lead',
-          reason: aiScore.ai_reasoning,
-          processingTime: Date.now() - startTime,
-        };
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(202).json(previous.response);
+    }
 
-        return res.status(200).json(response);
-      }
+    // Step 5: Honeypot, fill time and CAPTCHA. A failed check is not answered differently -
+    // the submission is queued and fast-rejected as spam before any AI call.
+    const botCheck = await runBotCheck(validatedBody, {
+      requireCaptcha: adapter.captcha === true && config.botProtection.captchaRequired,
+      remoteIp: req.ip,
+    });
 
-      case 'likely_candidate': {
-        // Candidate path
-        logger.info('Processing likely candidate');
-        await insertCandidateLead(formData, aiScore);
+    if (!botCheck.passed) {
+      logger.warn('Submission failed bot check', { provider: adapter.provider, reasons: botCheck.reasons });
+    }
 
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as job seeker',
-          classification: 'likely_candidate',
-          processingTime: Date.now() - startTime,
-        };
+    // Step 6: Structure the validated form data
+    formData = { ...structureFormData(validatedBody, uuidv4(), adapter.source), bot_check: botCheck };
 
-        return res.status(200).json(response);
-      }
+    // Uploaded files are stored right away, signed URLs are downloaded by the pipeline
+    if (attachmentFiles.length > 0 || attachmentUrls.length > 0) {
+      formData.attachments = [
+        ...(await storeUploadedAttachments(formData.id, attachmentFiles)),
+        ...attachmentsFromUrls(attachmentUrls),
+      ];
+    }
 
-      case 'likely_spam': {
-        // Spam path (from AI classification)
-        logger.info('Processing likely spam (AI classified)');
-        await insertRejectedLead(formData, 'likely_spam', aiScore.ai_reasoning);
+    logger.info('Form data structured', {
+      submissionId: formData.id,
+      source: formData.source,
+      email: maskEmail(formData.email),
+    });
 
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as spam',
-          classification: 'likely_spam',
-          processingTime: Date.now() - startTime,
-        };
+    const response: WebhookSuccessResponse = {
+      success: true,
+      message: 'Submission received and queued for processing',
+      submission_id: formData.id,
+      processingTime: Date.now() - startTime,
+    };
 
-        return res.status(200).json(response);
-      }
+    // Step 7: Persist and queue - the qualification pipeline runs in the background worker.
+    // The key is only stored for submissions that passed the bot check, otherwise a failed
+    // or expired CAPTCHA would turn the person's corrected retry into a replay of the rejection.
+    const submission = await enqueueLeadSubmission(formData.id, formData, {
+      idempotencyKey: botCheck.passed ? idempotencyKey : null,
+      response,
+      correlationId: getCorrelationId(),
+    });
 
-      default: {
-        logger.error('Unknown classification', { classification });
-        throw new Error(`Unknown classification: ${classification}`);
-      }
+    // A concurrent request with the same key won the race - answer with its response
+    if (submission.id !== formData.id && submission.response) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(202).json(submission.response);
     }
+
+    return res.status(202).json(response);
   } catch (error) {
     logger.error('Webhook processing failed', error, {
       body: req.body,
       processingTime: Date.now() - startTime,
     });
 
-    // Save form data to rejected_leads so it's not lost
+    // Queueing failed - save form data to rejected_leads so it's not lost
     if (formData) {
       try {
         await insertRejectedLead(formData, 'processing_error', `Processing error: ${getErrorMessage(error)}`);
@@ -252,7 +232,7 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
 
       // Send admin alert email with form data and error details
       try {
-        await sendAdminAlert(formData, error, 'webhook_processing');
+        await sendAdminAlert(formData, error, 'webhook_queueing');
       } catch (alertError) {
         logger.error('Failed to send admin alert', alertError);
         // Continue anyway - data is already saved
@@ -273,11 +253,15 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
 
 /**
  * Health check endpoint
+ * Reports 'degraded' while any external dependency's circuit breaker is open.
  */
 router.get('/health', (_req: Request, res: Response) => {
+  const circuitBreakers = getCircuitBreakerSnapshots();
+
   res.status(200).json({
-    status: 'healthy',
+    status: circuitBreakers.some((breaker) => breaker.state !== 'closed') ? 'degraded' : 'healthy',
     timestamp: new Date().toISOString(),
+    circuit_breakers: circuitBreakers,
   });
 });
 
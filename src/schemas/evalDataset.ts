@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+// Form submission fields the lead scoring prompt reads
+const EvalFormDataSchema = z.object({
+  full_name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  company_name: z.string().optional(),
+  industry: z.string().optional(),
+  service_type: z.string().optional(),
+  needs_description: z.string().optional(),
+  language: z.enum(['sv', 'en']).optional(),
+});
+
+const LeadEvalCaseSchema = z.object({
+  id: z.string().min(1),
+  form_data: EvalFormDataSchema,
+  expected: z.object({
+    classification: z.enum(['valid_lead', 'invalid_lead', 'likely_candidate', 'likely_spam']),
+  }),
+  notes: z.string().optional(),
+});
+
+// Job fields the job evaluation prompt reads - the rest of NormalizedJob is filled in by the harness
+const EvalJobSchema = z.object({
+  title: z.string().min(1),
+  company: z.string().min(1),
+  description: z.string(),
+  location: z.string().default(''),
+  source: z.enum(['indeed', 'linkedin', 'arbetsformedlingen']).default('indeed'),
+});
+
+const JobEvalCaseSchema = z.object({
+  id: z.string().min(1),
+  job: EvalJobSchema,
+  expected: z.object({
+    isValid: z.boolean(),
+  }),
+  notes: z.string().optional(),
+});
+
+/**
+ * Schema of a golden dataset for the offline evaluation harness (npm run eval).
+ *
+ * - leads: labelled form submissions, scored with scoreLead
+ * - jobs: labelled scraped jobs, evaluated with evaluateJob
+ */
+export const EvalDatasetSchema = z
+  .object({
+    name: z.string().min(1),
+    leads: z.array(LeadEvalCaseSchema).default([]),
+    jobs: z.array(JobEvalCaseSchema).default([]),
+  })
+  .superRefine((dataset, ctx) => {
+    for (const key of ['leads', 'jobs'] as const) {
+      const seen = new Set<string>();
+      dataset[key].forEach((item, index) => {
+        if (seen.has(item.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key, index, 'id'],
+            message: `Duplicate id: ${item.id}`,
+          });
+        }
+        seen.add(item.id);
+      });
+    }
+  });
+
+export type EvalDataset = z.infer<typeof EvalDatasetSchema>;
+export type LeadEvalCase = z.infer<typeof LeadEvalCaseSchema>;
+export type JobEvalCase = z.infer<typeof JobEvalCaseSchema>;
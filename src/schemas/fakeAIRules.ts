@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Reply sent as JSON - checked against the task's schema like any model reply
+const FakeAIReplySchema = z.record(z.unknown());
+
+const FakeAIRuleSchema = z.object({
+  // Any of these, as whole words and ignoring case, in the user prompt selects the reply
+  keywords: z.array(z.string().min(1)).min(1, 'A rule needs at least one keyword'),
+  reply: FakeAIReplySchema,
+});
+
+const FakeAITaskSchema = z.object({
+  rules: z.array(FakeAIRuleSchema).default([]),
+  default: FakeAIReplySchema,
+});
+
+/**
+ * Schema of the fake AI rules file (src/config/llm/fake-ai-rules.json or FAKE_AI_RULES_PATH).
+ *
+ * - tasks: per AI task, keyword rules tried in order and the reply when none matches
+ */
+export const FakeAIRulesSchema = z.object({
+  tasks: z.object({
+    lead_scoring: FakeAITaskSchema,
+    job_ad: FakeAITaskSchema,
+    job_evaluation: FakeAITaskSchema,
+  }),
+});
+
+export type FakeAIRule = z.infer<typeof FakeAIRuleSchema>;
+export type FakeAIRules = z.infer<typeof FakeAIRulesSchema>;
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for third-party form provider payloads.
+ * Lenient on purpose: only the parts the adapters read are described,
+ * everything else passes through untouched.
+ */
+
+// Typeform: one answer per question, value key depends on the answer type
+const TypeformAnswerSchema = z
+  .object({
+    type: z.string(),
+    field: z.object({
+      id: z.string(),
+      ref: z.string().optional(),
+      type: z.string().optional(),
+    }),
+    text: z.string().optional(),
+    email: z.string().optional(),
+    phone_number: z.string().optional(),
+    url: z.string().optional(),
+    number: z.number().optional(),
+    date: z.string().optional(),
+    choice: z.object({ label: z.string().optional(), other: z.string().optional() }).optional(),
+    choices: z.object({ labels: z.array(z.string()).optional(), other: z.string().optional() }).optional(),
+  })
+  .passthrough();
+
+export const TypeformPayloadSchema = z
+  .object({
+    event_id: z.string().optional(),
+    event_type: z.string().optional(),
+    form_response: z
+      .object({
+        form_id: z.string().optional(),
+        token: z.string().optional(),
+        hidden: z.record(z.unknown()).optional(),
+        answers: z.array(TypeformAnswerSchema).default([]),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type TypeformAnswer = z.infer<typeof TypeformAnswerSchema>;
+export type TypeformPayload = z.infer<typeof TypeformPayloadSchema>;
+
+// HubSpot: form submission ({ fields: [{ name, value }] }) or contact webhook ({ properties: { email: { value } } })
+const HubspotPropertyValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.object({ value: z.unknown() }).passthrough(),
+]);
+
+export const HubspotFormSubmissionSchema = z
+  .object({
+    conversionId: z.string().optional(),
+    submittedAt: z.union([z.number(), z.string()]).optional(),
+    fields: z.array(z.object({ name: z.string(), value: z.unknown() }).passthrough()),
+  })
+  .passthrough();
+
+export const HubspotContactSchema = z
+  .object({
+    vid: z.union([z.number(), z.string()]).optional(),
+    objectId: z.union([z.number(), z.string()]).optional(),
+    properties: z.record(HubspotPropertyValueSchema),
+  })
+  .passthrough();
+
+// Webflow: form_submission trigger, field values keyed by the form's field names
+export const WebflowPayloadSchema = z
+  .object({
+    triggerType: z.string().optional(),
+    payload: z
+      .object({
+        id: z.string().optional(),
+        name: z.string().optional(),
+        data: z.record(z.unknown()),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type WebflowPayload = z.infer<typeof WebflowPayloadSchema>;
+
+// Generic JSON: any flat object
+export const GenericFormPayloadSchema = z.record(z.unknown());
+
+// Mailgun inbound route post (urlencoded fields, parsed by express)
+export const MailgunInboundSchema = z
+  .object({
+    sender: z.string().optional(),
+    from: z.string().optional(),
+    subject: z.string().optional(),
+    'body-plain': z.string().optional(),
+    'body-html': z.string().optional(),
+    'stripped-text': z.string().optional(),
+    'stripped-signature': z.string().optional(),
+    'Message-Id': z.string().optional(),
+    timestamp: z.string().optional(),
+    token: z.string().optional(),
+    signature: z.string().optional(),
+  })
+  .passthrough()
+  .refine((payload) => Boolean(payload.from || payload.sender), { message: 'Sender is required' });
+
+export type MailgunInbound = z.infer<typeof MailgunInboundSchema>;
+
+// Resend email.received event
+export const ResendInboundSchema = z
+  .object({
+    type: z.literal('email.received'),
+    data: z
+      .object({
+        email_id: z.string().optional(),
+        message_id: z.string().optional(),
+        from: z.string(),
+        subject: z.string().optional(),
+        text: z.string().optional(),
+        html: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export type ResendInbound = z.infer<typeof ResendInboundSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// Schema for POST /api/leads/:id/reclassify
+export const LeadOverrideRequestSchema = z.object({
+  classification: z.enum(['valid_lead', 'invalid_lead', 'likely_candidate', 'likely_spam']),
+  reason: z.string().trim().min(3, 'Reason is required').max(1000),
+  overridden_by: z.string().trim().max(255).optional(),
+});
+
+export type LeadOverrideRequestType = z.infer<typeof LeadOverrideRequestSchema>;
+
+// Schema for POST /api/leads/processing-errors/replay - either explicit ids or all: true
+export const LeadReplayRequestSchema = z
+  .object({
+    ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+    all: z.boolean().optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+  })
+  .refine((request) => Boolean(request.ids) !== Boolean(request.all), {
+    message: 'Provide either ids or all: true',
+  });
+
+export type LeadReplayRequestType = z.infer<typeof LeadReplayRequestSchema>;
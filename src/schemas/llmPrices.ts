@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const LLMModelPriceSchema = z.object({
+  input_usd_per_million: z.number().min(0),
+  output_usd_per_million: z.number().min(0),
+});
+
+/**
+ * Schema of the LLM price table (src/config/llm/llm-prices.json or LLM_PRICES_PATH):
+ * USD per million prompt (input) and completion (output) tokens, by model name as used in the routes file
+ */
+export const LLMPricesSchema = z.object({
+  models: z.record(z.string().min(1), LLMModelPriceSchema),
+});
+
+export type LLMModelPrice = z.infer<typeof LLMModelPriceSchema>;
+export type LLMPrices = z.infer<typeof LLMPricesSchema>;
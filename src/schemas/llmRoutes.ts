@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+const LLMProviderConfigSchema = z
+  .object({
+    // Fixed endpoint, or the name of an env variable holding it (local servers).
+    // Without either the official OpenAI API is used.
+    base_url: z.string().url().optional(),
+    base_url_env: z.string().min(1).optional(),
+    // Env variable holding the API key - local servers often need none
+    api_key_env: z.string().min(1).optional(),
+    // Structured output support of the endpoint - local servers often have neither
+    response_format: z.enum(['json_schema', 'json_object', 'none']).default('none'),
+  })
+  .refine((provider) => !(provider.base_url && provider.base_url_env), {
+    message: 'Use either base_url or base_url_env',
+  });
+
+const LLMTargetSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2),
+});
+
+const LLMRouteSchema = z.array(LLMTargetSchema).min(1, 'A task needs at least one target');
+
+/**
+ * Schema of the LLM routes file (src/config/llm/llm-routes.json or LLM_ROUTES_PATH).
+ *
+ * - providers: OpenAI-compatible endpoints by name
+ * - tasks: per AI task, the provider/model pairs to try in order
+ */
+export const LLMRoutesSchema = z
+  .object({
+    providers: z.record(z.string().regex(/^[a-z][a-z0-9_-]*$/, 'Provider names are lowercase'), LLMProviderConfigSchema),
+    tasks: z.object({
+      lead_scoring: LLMRouteSchema,
+      job_ad: LLMRouteSchema,
+      job_evaluation: LLMRouteSchema,
+    }),
+  })
+  .superRefine((routes, ctx) => {
+    for (const [task, targets] of Object.entries(routes.tasks)) {
+      targets.forEach((target, index) => {
+        if (!routes.providers[target.provider]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['tasks', task, index, 'provider'],
+            message: `Unknown provider: ${target.provider}`,
+          });
+        }
+      });
+    }
+  });
+
+export type LLMProviderConfig = z.infer<typeof LLMProviderConfigSchema>;
+export type LLMRoutes = z.infer<typeof LLMRoutesSchema>;
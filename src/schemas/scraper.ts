@@ -57,6 +57,8 @@ export const ScraperRunRequestSchema = z.object({
   exclusionKeywords: z.array(z.string()).optional(),
   country: z.string().optional().default('SE'),
   maxItems: z.number().min(1).max(500).optional().default(50),
+  // Skip the job evaluation cache and re-evaluate every job (e.g. after tuning the prompt by hand)
+  refreshEvaluations: z.boolean().optional().default(false),
 });
 
 export type ScraperRunRequestType = z.infer<typeof ScraperRunRequestSchema>;
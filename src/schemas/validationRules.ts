@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// Form data fields a rule can inspect
+const RuleFieldSchema = z.enum([
+  'full_name',
+  'email',
+  'phone',
+  'company_name',
+  'industry',
+  'service_type',
+  'needs_description',
+  'subject',
+  'org_number',
+]);
+
+const ruleBase = {
+  id: z.string().min(1),
+  field: RuleFieldSchema,
+  weight: z.number().min(0).default(1),
+  explanation: z.string().min(1),
+  enabled: z.boolean().default(true),
+};
+
+// A rule matches when its condition holds for the field value
+export const ValidationRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...ruleBase,
+    type: z.literal('regex'),
+    pattern: z.string().min(1),
+    // No g/y - stateful flags would make repeated test() calls flip results
+    flags: z.string().regex(/^[imsu]*$/, 'Only i, m, s and u flags are allowed').optional(),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('min_length'),
+    value: z.number().int().min(0),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('contains'),
+    value: z.string().min(1),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal('format'),
+    // phone: normalizes to E.164 (utils/phoneNumber.ts), org_number: valid Swedish organisationsnummer,
+    // free_mail / disposable_email / role_address: email lists in email-domains.json (utils/emailClassification.ts)
+    format: z.enum(['phone', 'org_number', 'free_mail', 'disposable_email', 'role_address']),
+  }),
+]);
+
+/**
+ * Schema of the validation rules file (src/config/rules/validation-rules.json or VALIDATION_RULES_PATH).
+ *
+ * - quality_rules: matching rules add their weight to the validation score (0-100, share of total weight)
+ * - spam_rules: matching rules add their weight to the spam score
+ * - thresholds.min_validation_score: leads must score above this to be AI-scored
+ * - thresholds.spam_threshold: spam score at which a lead is flagged as likely spam
+ */
+export const ValidationRulesSchema = z
+  .object({
+    version: z.string().min(1),
+    thresholds: z.object({
+      min_validation_score: z.number().min(0).max(100),
+      spam_threshold: z.number().positive(),
+    }),
+    quality_rules: z.array(ValidationRuleSchema).min(1),
+    spam_rules: z.array(ValidationRuleSchema),
+  })
+  .superRefine((rules, ctx) => {
+    const ids = new Set<string>();
+
+    for (const list of ['quality_rules', 'spam_rules'] as const) {
+      rules[list].forEach((rule, index) => {
+        if (ids.has(rule.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate rule id: ${rule.id}`, path: [list, index, 'id'] });
+        }
+        ids.add(rule.id);
+
+        if (rule.type === 'regex') {
+          try {
+            new RegExp(rule.pattern, rule.flags);
+          } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern in rule ${rule.id}`, path: [list, index, 'pattern'] });
+          }
+        }
+      });
+    }
+  });
+
+export type ValidationRule = z.infer<typeof ValidationRuleSchema>;
+export type ValidationRules = z.infer<typeof ValidationRulesSchema>;
@@ -1,4 +1,30 @@
 import { z } from 'zod';
+import { normalizeOrgNumber } from '../utils/orgNumber.js';
+import { parseLanguage } from '../utils/languageDetection.js';
+
+/**
+ * Optional Swedish organisationsnummer - Luhn-checked and normalized to NNNNNN-NNNN.
+ * An empty field counts as not given.
+ */
+const orgNumberSchema = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() === '' ? undefined : value),
+  z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) {
+        return undefined;
+      }
+
+      const normalized = normalizeOrgNumber(value);
+      if (!normalized) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid organisation number' });
+        return z.NEVER;
+      }
+
+      return normalized;
+    })
+);
 
 /**
  * Schema for validating incoming webhook request body.
@@ -14,6 +40,20 @@ export const webhookRequestSchema = z.object({
   service_type: z.string().optional(),
   message: z.string().optional(),
   subject: z.string().optional(),
+  org_number: orgNumberSchema,
+  // Signed URLs of job description files (PDF/DOCX) - a single URL may be sent as a string
+  attachment_urls: z.preprocess(
+    (value) => (typeof value === 'string' ? [value] : value),
+    z.array(z.string().url('Invalid attachment URL')).optional()
+  ),
+  // Overrides the detected language of the lead: sv or en (locale tags like en-GB work too).
+  // Other languages are ignored and the language is detected from the message.
+  language: z.preprocess(parseLanguage, z.enum(['sv', 'en']).optional()),
+  // Anti-bot fields (services/intake/botProtection.ts): a hidden field people leave empty,
+  // when the form was rendered (epoch ms/s or ISO date) and the Turnstile/hCaptcha widget token
+  honeypot: z.string().optional(),
+  form_rendered_at: z.union([z.number(), z.string()]).optional(),
+  captcha_token: z.string().optional(),
 });
 
 /**
@@ -1,17 +1,144 @@
-import { Resend } from 'resend';
+import { Resend, type CreateEmailOptions, type CreateEmailResponse } from 'resend';
 import { config } from '../config/env.js';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
-import type { FormData, JobAdData, EmailResponse } from '../types/index.js';
+import { getCorrelationId } from '../utils/requestContext.js';
+import { callExternal, getErrorStatus } from '../utils/resilience.js';
+import type { FormData, JobAdData, EmailResponse, LeadLanguage, RepeatLeadMatch } from '../types/index.js';
 import type { ScraperRunResult, ProcessedJob } from '../types/scraper.types.js';
 
 const resend = new Resend(config.resend.apiKey);
 
+// Resend reports API errors by name - these mean the service is struggling, with the status they stand for
+const RESEND_UNAVAILABLE_ERRORS: Record<string, number> = {
+  rate_limit_exceeded: 429,
+  application_error: 500,
+  internal_server_error: 500,
+};
+
+/**
+ * Sends an email under the resend timeout policy and circuit breaker.
+ * Rate limits and server errors are thrown so they count against the breaker; other errors
+ * are returned as before. Only rate limits are retried - after a timeout or 5xx the email
+ * may already have gone out, and a retry would send it twice.
+ */
+async function sendViaResend(payload: CreateEmailOptions): Promise<CreateEmailResponse> {
+  return callExternal(
+    'resend',
+    async () => {
+      const response = await resend.emails.send(payload);
+      const status = response.error ? RESEND_UNAVAILABLE_ERRORS[response.error.name] : undefined;
+
+      if (response.error && status) {
+        throw Object.assign(new Error(`Resend ${response.error.name}: ${response.error.message}`), { status });
+      }
+
+      return response;
+    },
+    { isRetryable: (error) => getErrorStatus(error) === 429 }
+  );
+}
+
+interface CandidateExample {
+  title: string;
+  background: string;
+  skills: string;
+  education: string;
+}
+
+// Copy of the confirmation email, in each language a lead can be answered in
+interface ConfirmationEmailCopy {
+  subject: string;
+  heading: string;
+  intro: string;
+  jobAdHeading: string;
+  jobAdIntro: string;
+  jobAdEditNote: string;
+  candidatesHeading: string;
+  dummyBadge: string;
+  candidatesIntro: string;
+  labels: { background: string; skills: string; education: string };
+  candidates: CandidateExample[];
+  candidatesNote: string;
+  nextStepsHeading: string;
+  nextSteps: string[];
+  portalButton: string;
+  footer: string;
+}
+
+const CONFIRMATION_EMAIL_COPY: Record<LeadLanguage, ConfirmationEmailCopy> = {
+  sv: {
+    subject: 'Tack för din förfrågan till Rookie - Vi har kandidater!',
+    heading: 'Tack för din förfrågan!',
+    intro: 'Vi har tagit emot ditt personalbehov och börjat arbeta på det.',
+    jobAdHeading: 'Utkast till jobbannons',
+    jobAdIntro: 'Baserat på din beskrivning har vi skapat ett förslag:',
+    jobAdEditNote: 'Du kan redigera och slutföra denna annons i företagsportalen.',
+    candidatesHeading: 'Potentiella kandidater',
+    dummyBadge: 'EXEMPEL – DUMMY DATA',
+    candidatesIntro: 'Här är några exempel på kandidatprofiler som skulle kunna passa:',
+    labels: { background: 'Bakgrund', skills: 'Kompetenser', education: 'Utbildning' },
+    candidates: [
+      {
+        title: 'Kandidat A (EXEMPEL)',
+        background: '3 års erfarenhet, stark teknisk profil med fokus på projektledning',
+        skills: 'analytisk förmåga, ledarskapsförmåga',
+        education: 'Civilingenjör + certifieringar',
+      },
+      {
+        title: 'Kandidat B (EXEMPEL)',
+        background: 'Junior profil med 2+ års erfarenhet, strategisk förståelse',
+        skills: 'affärsutveckling, projektledning, coaching',
+        education: 'Kandidatexamen inom relevant område',
+      },
+    ],
+    candidatesNote: '<strong>OBS:</strong> Ovanstående är exempel. Riktiga kandidater visas när annonsen slutförts.',
+    nextStepsHeading: 'Nästa steg',
+    nextSteps: ['Slutföra och publicera jobbannonsen', 'Se riktiga kandidatförslag', 'Boka intervjuer direkt i systemet'],
+    portalButton: 'Gå till företagsportalen',
+    footer: 'Om du har frågor, svara på detta mejl eller ring oss.',
+  },
+  en: {
+    subject: 'Thank you for your request to Rookie - We have candidates!',
+    heading: 'Thank you for your request!',
+    intro: 'We have received your staffing needs and started working on them.',
+    jobAdHeading: 'Draft job ad',
+    jobAdIntro: 'Based on your description, we have put together a proposal:',
+    jobAdEditNote: 'You can edit and finalise this ad in the company portal.',
+    candidatesHeading: 'Potential candidates',
+    dummyBadge: 'EXAMPLE – DUMMY DATA',
+    candidatesIntro: 'Here are some example candidate profiles that could be a good fit:',
+    labels: { background: 'Background', skills: 'Skills', education: 'Education' },
+    candidates: [
+      {
+        title: 'Candidate A (EXAMPLE)',
+        background: '3 years of experience, strong technical profile with a focus on project management',
+        skills: 'analytical skills, leadership',
+        education: 'MSc in Engineering + certifications',
+      },
+      {
+        title: 'Candidate B (EXAMPLE)',
+        background: 'Junior profile with 2+ years of experience, strategic understanding',
+        skills: 'business development, project management, coaching',
+        education: "Bachelor's degree in a relevant field",
+      },
+    ],
+    candidatesNote: '<strong>Note:</strong> The profiles above are examples. Real candidates are shown once the ad is finalised.',
+    nextStepsHeading: 'Next steps',
+    nextSteps: ['Finalise and publish the job ad', 'See real candidate suggestions', 'Book interviews directly in the system'],
+    portalButton: 'Go to the company portal',
+    footer: 'If you have any questions, reply to this email or give us a call.',
+  },
+};
+
 /**
- * Generates the HTML email template
+ * Generates the HTML email template in the lead's language
  */
-function generateEmailHTML(jobAd: JobAdData, companyName: string): string {
+function generateEmailHTML(jobAd: JobAdData, companyName: string, language: LeadLanguage): string {
+  const copy = CONFIRMATION_EMAIL_COPY[language];
+  const { labels } = copy;
+
   return `<!DOCTYPE html>
-<html lang="sv">
+<html lang="${language}">
 <head>
   <meta charset="UTF-8" />
 
@@ -140,55 +267,50 @@ function generateEmailHTML(jobAd: JobAdData, companyName: string): string {
 <body>
   <div class="container">
     <div class="header">
-      <h1>Tack för din förfrågan!</h1>
-      <p>Vi har tagit emot ditt personalbehov och börjat arbeta på det.</p>
+      <h1>${copy.heading}</h1>
+      <p>${copy.intro}</p>
     </div>
 
     <div class="content">
       <div class="section">
-        <h2>Utkast till jobbannons</h2>
-        <p>Baserat på din beskrivning har vi skapat ett förslag:</p>
+        <h2>${copy.jobAdHeading}</h2>
+        <p>${copy.jobAdIntro}</p>
 
         <h3>${jobAd.title}</h3>
         <h4>${companyName}</h4>
         <div class="job-description">${jobAd.description}</div>
 
-        <p><em>Du kan redigera och slutföra denna annons i företagsportalen.</em></p>
+        <p><em>${copy.jobAdEditNote}</em></p>
       </div>
 
       <div class="section">
-        <h2>Potentiella kandidater</h2>
-        <span class="dummy-badge">EXEMPEL – DUMMY DATA</span>
-        <p>Här är några exempel på kandidatprofiler som skulle kunna passa:</p>
-
+        <h2>${copy.candidatesHeading}</h2>
+        <span class="dummy-badge">${copy.dummyBadge}</span>
+        <p>${copy.candidatesIntro}</p>
+${copy.candidates
+  .map(
+    (candidate) => `
         <div class="candidate">
-          <h4>Kandidat A (EXEMPEL)</h4>
-          <p><strong>Bakgrund:</strong> 3 års erfarenhet, stark teknisk profil med fokus på projektledning</p>
-          <p><strong>Kompetenser:</strong> analytisk förmåga, ledarskapsförmåga</p>
-          <p><strong>Utbildning:</strong> Civilingenjör + certifieringar</p>
+          <h4>${candidate.title}</h4>
+          <p><strong>${labels.background}:</strong> ${candidate.background}</p>
+          <p><strong>${labels.skills}:</strong> ${candidate.skills}</p>
+          <p><strong>${labels.education}:</strong> ${candidate.education}</p>
         </div>
-
-        <div class="candidate">
-          <h4>Kandidat B (EXEMPEL)</h4>
-          <p><strong>Bakgrund:</strong> Junior profil med 2+ års erfarenhet, strategisk förståelse</p>
-          <p><strong>Kompetenser:</strong> affärsutveckling, projektledning, coaching</p>
-          <p><strong>Utbildning:</strong> Kandidatexamen inom relevant område</p>
-        </div>
-
-        <p><strong>OBS:</strong> Ovanstående är exempel. Riktiga kandidater visas när annonsen slutförts.</p>
+`
+  )
+  .join('')}
+        <p>${copy.candidatesNote}</p>
       </div>
 
       <div class="section" style="text-align: center;">
-        <h2>Nästa steg</h2>
+        <h2>${copy.nextStepsHeading}</h2>
         <ul style="text-align: left;">
-          <li>Slutföra och publicera jobbannonsen</li>
-          <li>Se riktiga kandidatförslag</li>
-          <li>Boka intervjuer direkt i systemet</li>
+${copy.nextSteps.map((step) => `          <li>${step}</li>`).join('\n')}
         </ul>
 
-        <a href="https://portal.rookie.se" class="button">Gå till företagsportalen</a>
+        <a href="https://portal.rookie.se" class="button">${copy.portalButton}</a>
 
-        <p class="footer-note">Om du har frågor, svara på detta mejl eller ring oss.</p>
+        <p class="footer-note">${copy.footer}</p>
       </div>
     </div>
   </div>
@@ -197,23 +319,24 @@ function generateEmailHTML(jobAd: JobAdData, companyName: string): string {
 }
 
 /**
- * Sends the confirmation email to the lead using Resend
+ * Sends the confirmation email to the lead using Resend, in the lead's language
  */
 export async function sendEmailToLead(
   leadEmail: string,
   jobAd: JobAdData,
-  companyName: string
+  companyName: string,
+  language: LeadLanguage = 'sv'
 ): Promise<EmailResponse> {
   try {
-    logger.info('Sending email to lead via Resend', { email: maskEmail(leadEmail) });
+    logger.info('Sending email to lead via Resend', { email: maskEmail(leadEmail), language });
 
     // For testing without verified domain, send to Rookie account only
     // Original lead email included in subject for tracking
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await sendViaResend({
       from: config.resend.fromEmail,
       to: 'rookiework.dev@gmail.com',
-      subject: `Tack för din förfrågan till Rookie - Vi har kandidater! [Lead: ${leadEmail}]`,
-      html: generateEmailHTML(jobAd, companyName),
+      subject: `${CONFIRMATION_EMAIL_COPY[language].subject} [Lead: ${leadEmail}]`,
+      html: generateEmailHTML(jobAd, companyName, language),
     });
 
     if (error) {
@@ -320,6 +443,7 @@ function generateAdminAlertHTML(
         <p><strong>Fel vid:</strong> ${failurePoint}</p>
         <p><strong>Felmeddelande:</strong> ${errorMessage}</p>
         <p><strong>Tidpunkt:</strong> ${new Date().toLocaleString('sv-SE')}</p>
+        <p><strong>Korrelations-ID:</strong> ${getCorrelationId() || 'N/A'}</p>
       </div>
     </div>
 
@@ -367,10 +491,13 @@ export async function sendAdminAlert(
       failurePoint,
     });
 
-    const { data, error: emailError } = await resend.emails.send({
+    // The correlation ID in the subject finds the log lines and records of the failed submission
+    const correlationId = getCorrelationId();
+
+    const { data, error: emailError } = await sendViaResend({
       from: config.resend.fromEmail,
       to: config.adminAlert.email,
-      subject: `🚨 Form Submission Failed - ${formData.company_name || 'Unknown Company'}`,
+      subject: `🚨 Form Submission Failed - ${formData.company_name || 'Unknown Company'}${correlationId ? ` [${correlationId}]` : ''}`,
       html: generateAdminAlertHTML(formData, error, failurePoint),
     });
 
@@ -392,6 +519,148 @@ export async function sendAdminAlert(
   }
 }
 
+/**
+ * Generates repeat lead alert email HTML
+ */
+function generateRepeatLeadAlertHTML(formData: FormData, match: RepeatLeadMatch): string {
+  const matchedBy = match.matched_by === 'email' ? 'Samma e-postadress' : 'Samma företagsdomän';
+
+  return `<!DOCTYPE html>
+<html lang="sv">
+<head>
+  <meta charset="UTF-8" />
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #111827;
+      background: #f9fafb;
+      margin: 0;
+      padding: 20px;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      background: #ffffff;
+      border-radius: 8px;
+      padding: 24px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+    }
+    .alert-header {
+      background: #dbeafe;
+      color: #1e3a8a;
+      padding: 16px;
+      border-radius: 6px;
+      margin-bottom: 20px;
+    }
+    .alert-header h1 {
+      margin: 0;
+      font-size: 20px;
+    }
+    .section {
+      margin-bottom: 20px;
+    }
+    .section h2 {
+      font-size: 16px;
+      color: #374151;
+      margin-bottom: 8px;
+      border-bottom: 2px solid #e5e7eb;
+      padding-bottom: 4px;
+    }
+    .data-item {
+      background: #f9fafb;
+      padding: 8px 12px;
+      margin: 4px 0;
+      border-radius: 4px;
+    }
+    .data-item strong {
+      color: #4b5563;
+    }
+    .footer {
+      margin-top: 24px;
+      padding-top: 16px;
+      border-top: 1px solid #e5e7eb;
+      font-size: 12px;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="alert-header">
+      <h1>🔁 Känd lead har hört av sig igen</h1>
+    </div>
+
+    <div class="section">
+      <h2>Matchning</h2>
+      <div class="data-item"><strong>Matchad på:</strong> ${matchedBy}</div>
+      <div class="data-item"><strong>Företags-ID:</strong> ${match.company_id}</div>
+      <div class="data-item"><strong>Tidigare post:</strong> ${match.source} (${match.record_id})</div>
+      <div class="data-item"><strong>Senast sedd:</strong> ${new Date(match.last_seen_at).toLocaleString('sv-SE')}</div>
+    </div>
+
+    <div class="section">
+      <h2>Ny inlämning</h2>
+      <div class="data-item"><strong>Namn:</strong> ${formData.full_name || 'N/A'}</div>
+      <div class="data-item"><strong>E-post:</strong> ${formData.email || 'N/A'}</div>
+      <div class="data-item"><strong>Telefon:</strong> ${formData.phone || 'N/A'}</div>
+      <div class="data-item"><strong>Företag:</strong> ${formData.company_name || 'N/A'}</div>
+    </div>
+
+    <div class="section">
+      <h2>Beskrivning av behov</h2>
+      <div class="data-item">${formData.needs_description || 'N/A'}</div>
+    </div>
+
+    <div class="footer">
+      <p><strong>Åtgärd:</strong> Inlämningen har kopplats till befintligt företag som en uppföljningssignal. Ingen ny jobbannons har genererats och inget mejl har skickats till leaden.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Sends an alert email to admin when a known lead submits again
+ */
+export async function sendRepeatLeadAlert(
+  formData: FormData,
+  match: RepeatLeadMatch
+): Promise<EmailResponse | null> {
+  try {
+    if (!config.adminAlert?.email) {
+      logger.warn('Admin alert email not configured, skipping repeat lead alert');
+      return null;
+    }
+
+    logger.info('Sending repeat lead alert email', {
+      email: maskEmail(formData.email),
+      companyId: match.company_id,
+      matchedBy: match.matched_by,
+    });
+
+    const { data, error } = await sendViaResend({
+      from: config.resend.fromEmail,
+      to: config.adminAlert.email,
+      subject: `🔁 Known lead came back - ${formData.company_name || 'Unknown Company'}`,
+      html: generateRepeatLeadAlertHTML(formData, match),
+    });
+
+    if (error) {
+      logger.error('Failed to send repeat lead alert email', error);
+      return null;
+    }
+
+    logger.info('Repeat lead alert email sent', { emailId: data?.id });
+
+    return data as EmailResponse;
+  } catch (err) {
+    logger.error('Error sending repeat lead alert email', err);
+    // Don't throw - we don't want alert failures to break the flow
+    return null;
+  }
+}
+
 // ============================================================================
 // SCRAPER DIGEST EMAIL
 // ============================================================================
@@ -580,6 +849,18 @@ function generateScraperDigestHTML(result: ScraperRunResult): string {
         <div class="stat-number" style="color: #d32f2f;">${result.stats.errors}</div>
         <div class="stat-label">Errors</div>
       </div>
+      <div class="stat-box">
+        <div class="stat-number" style="color: #666;">${result.stats.cacheHits}</div>
+        <div class="stat-label">Cached Evaluations</div>
+      </div>
+      <div class="stat-box">
+        <div class="stat-number" style="color: #666;">${(result.stats.promptTokens + result.stats.completionTokens).toLocaleString('en-US')}</div>
+        <div class="stat-label">AI Tokens (${result.stats.aiCalls} calls)</div>
+      </div>
+      <div class="stat-box">
+        <div class="stat-number" style="color: #666;">$${result.stats.estimatedCostUsd.toFixed(4)}</div>
+        <div class="stat-label">Est. AI Cost</div>
+      </div>
     </div>
 
     ${validJobsHtml}
@@ -608,7 +889,7 @@ export async function sendJobScraperDigestEmail(result: ScraperRunResult): Promi
       discardedJobs: result.stats.discarded,
     });
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await sendViaResend({
       from: config.resend.fromEmail,
       to: recipient,
       subject: `Job Scraper: ${result.stats.valid} new ${result.source} jobs (${result.stats.afterDedup} processed)`,
@@ -0,0 +1,183 @@
+import type {
+  ConfusionMatrix,
+  EvalReport,
+  EvalSummary,
+  ScoreDrift,
+  ScoreDriftItem,
+} from '../../types/eval.types.js';
+
+// Column for items whose AI call failed
+const ERROR_LABEL = 'error';
+
+export const LEAD_LABELS = ['valid_lead', 'invalid_lead', 'likely_candidate', 'likely_spam'];
+export const JOB_LABELS = ['valid', 'invalid'];
+
+/**
+ * Label of a job evaluation in the confusion matrix
+ */
+export function jobLabel(isValid: boolean | null): string {
+  if (isValid === null) {
+    return ERROR_LABEL;
+  }
+  return isValid ? 'valid' : 'invalid';
+}
+
+/**
+ * Counts by expected label (rows) and actual label (columns), with an error column
+ */
+export function buildConfusionMatrix(
+  labels: string[],
+  pairs: Array<{ expected: string; actual: string | null }>
+): ConfusionMatrix {
+  const matrix: ConfusionMatrix = {};
+
+  for (const expected of labels) {
+    matrix[expected] = Object.fromEntries([...labels, ERROR_LABEL].map((actual) => [actual, 0]));
+  }
+
+  for (const { expected, actual } of pairs) {
+    const row = (matrix[expected] ??= {});
+    const column = actual ?? ERROR_LABEL;
+    row[column] = (row[column] ?? 0) + 1;
+  }
+
+  return matrix;
+}
+
+/**
+ * Accuracy and confusion matrix of one classifier's results
+ */
+export function summarizeResults<T extends { expected: unknown; actual: unknown; error?: string }>(
+  results: T[],
+  labels: string[],
+  toLabel: (value: T['expected']) => string
+): EvalSummary<T> {
+  const correct = results.filter((result) => result.actual !== null && result.actual === result.expected).length;
+
+  return {
+    total: results.length,
+    correct,
+    errors: results.filter((result) => result.error !== undefined).length,
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    confusion: buildConfusionMatrix(
+      labels,
+      results.map((result) => ({
+        expected: toLabel(result.expected),
+        actual: result.actual === null ? null : toLabel(result.actual as T['expected']),
+      }))
+    ),
+    results,
+  };
+}
+
+/**
+ * Score drift between two runs over the same dataset - e.g. before and after a prompt
+ * edit or a model switch. Only items scored in both runs are compared.
+ */
+export function compareEvalReports(baseline: EvalReport, current: EvalReport): ScoreDrift {
+  const items: ScoreDriftItem[] = [];
+
+  const collect = <A>(
+    kind: ScoreDriftItem['kind'],
+    before: Array<{ id: string; score: number | null; actual: A | null }>,
+    after: Array<{ id: string; score: number | null; actual: A | null }>,
+    toLabel: (actual: A | null) => string
+  ) => {
+    const beforeById = new Map(before.map((result) => [result.id, result]));
+
+    for (const result of after) {
+      const previous = beforeById.get(result.id);
+      if (!previous || previous.score === null || result.score === null) {
+        continue;
+      }
+
+      items.push({
+        kind,
+        id: result.id,
+        baseline_score: previous.score,
+        score: result.score,
+        delta: result.score - previous.score,
+        baseline_label: toLabel(previous.actual),
+        label: toLabel(result.actual),
+      });
+    }
+  };
+
+  collect('lead', baseline.leads.results, current.leads.results, (classification) => classification ?? ERROR_LABEL);
+  collect('job', baseline.jobs.results, current.jobs.results, jobLabel);
+
+  const deltas = items.map((item) => Math.abs(item.delta));
+
+  return {
+    compared: items.length,
+    mean_abs_delta: deltas.length > 0 ? deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length : 0,
+    max_abs_delta: deltas.length > 0 ? Math.max(...deltas) : 0,
+    label_changes: items.filter((item) => item.label !== item.baseline_label).length,
+    items: items.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+  };
+}
+
+/**
+ * Plain-text confusion matrix, expected labels down and actual labels across
+ */
+export function formatConfusionMatrix(matrix: ConfusionMatrix): string {
+  const rows = Object.keys(matrix);
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(matrix[row])))];
+  const header = 'expected \\ actual';
+  const width = Math.max(header.length, ...[...columns, ...rows].map((label) => label.length));
+
+  const line = (cells: string[]) => cells.map((cell) => cell.padEnd(width)).join('  ').trimEnd();
+
+  return [
+    line([header, ...columns]),
+    ...rows.map((row) => line([row, ...columns.map((column) => String(matrix[row][column] ?? 0))])),
+  ].join('\n');
+}
+
+/**
+ * Human-readable summary of a run, with the score drift against a baseline when given
+ */
+export function formatEvalReport(report: EvalReport, drift?: ScoreDrift): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const sections: string[] = [
+    `Dataset: ${report.dataset} (${report.mode})`,
+    `Prompt versions: ${Object.entries(report.prompt_versions)
+      .map(([id, version]) => `${id}=${version}`)
+      .join(', ')}`,
+  ];
+
+  for (const [name, summary] of [
+    ['Leads (classification)', report.leads],
+    ['Jobs (isValid)', report.jobs],
+  ] as const) {
+    if (summary.total === 0) {
+      continue;
+    }
+
+    sections.push(
+      `\n${name}: ${summary.correct}/${summary.total} correct (${percent(summary.accuracy)}), ${summary.errors} errors`,
+      formatConfusionMatrix(summary.confusion)
+    );
+
+    const failures = (summary.results as Array<{ id: string; error?: string }>).filter((result) => result.error);
+    for (const failure of failures) {
+      sections.push(`  ${failure.id}: ${failure.error}`);
+    }
+  }
+
+  if (drift) {
+    sections.push(
+      `\nScore drift vs baseline: ${drift.compared} compared, mean |delta| ${drift.mean_abs_delta.toFixed(1)}, ` +
+        `max |delta| ${drift.max_abs_delta}, ${drift.label_changes} label changes`
+    );
+
+    for (const item of drift.items.filter((entry) => entry.delta !== 0 || entry.label !== entry.baseline_label)) {
+      const labelChange = item.label !== item.baseline_label ? ` (${item.baseline_label} -> ${item.label})` : '';
+      sections.push(
+        `  ${item.kind} ${item.id}: ${item.baseline_score} -> ${item.score} (${item.delta > 0 ? '+' : ''}${item.delta})${labelChange}`
+      );
+    }
+  }
+
+  return sections.join('\n');
+}
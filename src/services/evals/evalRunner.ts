@@ -0,0 +1,107 @@
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { scoreLead, evaluateJob } from '../aiService.js';
+import { getPrompt } from '../../prompts/promptRegistry.js';
+import { summarizeResults, jobLabel, LEAD_LABELS, JOB_LABELS } from './evalReport.js';
+import type { FormData } from '../../types/index.js';
+import type { NormalizedJob } from '../../types/scraper.types.js';
+import type { EvalDataset, JobEvalCase, LeadEvalCase } from '../../schemas/evalDataset.js';
+import type { EvalMode, EvalReport, JobEvalResult, LeadEvalResult } from '../../types/eval.types.js';
+
+/**
+ * Scores one labelled submission. AI failures are recorded on the result, not thrown.
+ */
+async function runLeadCase(item: LeadEvalCase): Promise<LeadEvalResult> {
+  try {
+    const score = await scoreLead({ id: item.id, ...item.form_data } as FormData);
+
+    return {
+      id: item.id,
+      expected: item.expected.classification,
+      actual: score.classification,
+      score: score.lead_score,
+      provenance: score.ai_provenance ?? null,
+    };
+  } catch (error) {
+    return {
+      id: item.id,
+      expected: item.expected.classification,
+      actual: null,
+      score: null,
+      provenance: null,
+      error: getErrorMessage(error),
+    };
+  }
+}
+
+/**
+ * Dataset job as the NormalizedJob the scraper would have produced
+ */
+function toNormalizedJob(item: JobEvalCase): NormalizedJob {
+  return {
+    externalId: item.id,
+    url: '',
+    rawData: {},
+    ...item.job,
+  };
+}
+
+/**
+ * Evaluates one labelled job. AI failures are recorded on the result, not thrown.
+ */
+async function runJobCase(item: JobEvalCase): Promise<JobEvalResult> {
+  try {
+    const evaluation = await evaluateJob(toNormalizedJob(item));
+
+    return {
+      id: item.id,
+      expected: item.expected.isValid,
+      actual: evaluation.isValid,
+      score: evaluation.score,
+      provenance: evaluation.provenance ?? null,
+    };
+  } catch (error) {
+    return {
+      id: item.id,
+      expected: item.expected.isValid,
+      actual: null,
+      score: null,
+      provenance: null,
+      error: getErrorMessage(error),
+    };
+  }
+}
+
+/**
+ * Runs scoreLead and evaluateJob over a golden dataset, one item at a time, with
+ * whichever LLM router is active (live, recording or replaying).
+ */
+export async function runEvaluation(dataset: EvalDataset, mode: EvalMode): Promise<EvalReport> {
+  logger.info('Starting evaluation run', {
+    dataset: dataset.name,
+    mode,
+    leads: dataset.leads.length,
+    jobs: dataset.jobs.length,
+  });
+
+  const leadResults: LeadEvalResult[] = [];
+  for (const item of dataset.leads) {
+    leadResults.push(await runLeadCase(item));
+  }
+
+  const jobResults: JobEvalResult[] = [];
+  for (const item of dataset.jobs) {
+    jobResults.push(await runJobCase(item));
+  }
+
+  return {
+    dataset: dataset.name,
+    mode,
+    created_at: new Date().toISOString(),
+    prompt_versions: {
+      lead_scoring: getPrompt('lead_scoring').version,
+      job_evaluation: getPrompt('job_evaluation').version,
+    },
+    leads: summarizeResults(leadResults, LEAD_LABELS, (classification) => classification),
+    jobs: summarizeResults(jobResults, JOB_LABELS, jobLabel),
+  };
+}
@@ -0,0 +1,185 @@
+import path from 'path';
+import mammoth from 'mammoth';
+import { extractText } from 'unpdf';
+import { config } from '../../config/env.js';
+import { getErrorMessage } from '../../utils/logger.js';
+
+export type AttachmentKind = 'pdf' | 'docx';
+
+// A file received with a form submission, before it is stored
+export interface AttachmentFile {
+  filename: string;
+  content_type: string;
+  data: Buffer;
+}
+
+export const ATTACHMENT_CONTENT_TYPES: Record<AttachmentKind, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Detects a PDF or DOCX file from its content. The declared type isn't trusted.
+ * A DOCX is a zip archive, so zips also need a .docx name or the DOCX content type.
+ */
+export function detectAttachmentKind(file: Pick<AttachmentFile, 'filename' | 'content_type' | 'data'>): AttachmentKind | null {
+  if (file.data.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+    return 'pdf';
+  }
+
+  if (
+    file.data.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC) &&
+    (path.extname(file.filename).toLowerCase() === '.docx' || file.content_type === ATTACHMENT_CONTENT_TYPES.docx)
+  ) {
+    return 'docx';
+  }
+
+  return null;
+}
+
+/**
+ * Reduces a client-supplied file name to something safe for a storage path
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = path.basename(filename.replace(/\\/g, '/'));
+  const safe = base.replace(/[^\w.\-]+/g, '_').replace(/^\.+/, '');
+
+  return safe.slice(-100) || 'attachment';
+}
+
+/**
+ * Whether a signed attachment URL may be downloaded: https and a host in ATTACHMENT_URL_HOSTS
+ * (subdomains included), so the API can't be used to fetch arbitrary internal URLs.
+ */
+export function isAllowedAttachmentUrl(url: string, allowedHosts: string[] = config.attachments.allowedUrlHosts): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return false;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  return allowedHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Checks uploaded files and attachment URLs against the type, count and host limits.
+ * Returns the problem, or null if the attachments can be accepted. Sizes are limited while parsing.
+ */
+export function findAttachmentProblem(files: AttachmentFile[], urls: string[]): string | null {
+  if (files.length + urls.length > config.attachments.maxFiles) {
+    return `Too many attachments (max ${config.attachments.maxFiles})`;
+  }
+
+  const unsupported = files.find((file) => !detectAttachmentKind(file));
+  if (unsupported) {
+    return `Unsupported attachment type: ${sanitizeFilename(unsupported.filename)} (PDF or DOCX only)`;
+  }
+
+  if (urls.some((url) => !isAllowedAttachmentUrl(url))) {
+    return 'Attachment URL not allowed';
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the plain text of a PDF or DOCX, with whitespace collapsed
+ */
+export async function extractAttachmentText(file: AttachmentFile): Promise<string> {
+  const kind = detectAttachmentKind(file);
+
+  if (!kind) {
+    throw new Error(`Unsupported attachment type: ${file.filename}`);
+  }
+
+  try {
+    const text =
+      kind === 'pdf'
+        ? (await extractText(new Uint8Array(file.data), { mergePages: true })).text
+        : (await mammoth.extractRawText({ buffer: file.data })).value;
+
+    return text
+      .replace(/[ \t\f\v]+/g, ' ')
+      .replace(/\s*\n\s*\n\s*/g, '\n\n')
+      .trim();
+  } catch (error) {
+    throw new Error(`Failed to extract text from ${file.filename}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Appends extracted attachment text to the needs description, one section per file,
+ * cut off at ATTACHMENT_MAX_TEXT_CHARS so a long document can't crowd out the prompt
+ */
+export function appendAttachmentText(
+  needsDescription: string | undefined,
+  sections: Array<{ filename: string; text: string }>,
+  maxChars: number = config.attachments.maxTextChars
+): string | undefined {
+  const attached = sections
+    .filter((section) => section.text.length > 0)
+    .map((section) => `[Attached file: ${section.filename}]\n${section.text}`)
+    .join('\n\n');
+
+  if (!attached) {
+    return needsDescription;
+  }
+
+  const truncated = attached.length > maxChars ? `${attached.slice(0, maxChars).trimEnd()} […]` : attached;
+
+  return needsDescription ? `${needsDescription}\n\n${truncated}` : truncated;
+}
+
+/**
+ * Downloads a signed attachment URL, enforcing ATTACHMENT_MAX_BYTES and the download timeout
+ */
+export async function downloadAttachment(url: string): Promise<AttachmentFile> {
+  if (!isAllowedAttachmentUrl(url)) {
+    throw new Error('Attachment URL not allowed');
+  }
+
+  try {
+    // No redirects - the target host has to be the allowed one
+    const response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(config.attachments.downloadTimeoutMs),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > config.attachments.maxBytes) {
+      throw new Error(`File larger than ${config.attachments.maxBytes} bytes`);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of response.body) {
+      size += chunk.length;
+      if (size > config.attachments.maxBytes) {
+        throw new Error(`File larger than ${config.attachments.maxBytes} bytes`);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+
+    return {
+      filename: sanitizeFilename(decodeURIComponent(new URL(url).pathname)),
+      content_type: response.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream',
+      data: Buffer.concat(chunks),
+    };
+  } catch (error) {
+    throw new Error(`Failed to download attachment: ${getErrorMessage(error)}`);
+  }
+}
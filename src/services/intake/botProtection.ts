@@ -0,0 +1,109 @@
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { getCaptchaVerifier } from './captchaVerifiers.js';
+import type { BotCheckReason, BotCheckResult, WebhookRequestBody } from '../../types/index.js';
+import type { CaptchaVerifier } from '../../types/intake.types.js';
+
+type BotCheckFields = Pick<WebhookRequestBody, 'honeypot' | 'form_rendered_at' | 'captcha_token'>;
+
+interface BotCheckOptions {
+  // Treat a missing token as a failure (our own form with CAPTCHA_REQUIRED=true)
+  requireCaptcha: boolean;
+  remoteIp?: string;
+  verifier?: CaptchaVerifier | null;
+  now?: number;
+  minFillTimeMs?: number;
+}
+
+/**
+ * Reads form_rendered_at as epoch milliseconds. Accepts epoch seconds or ms
+ * (number or numeric string) and ISO dates. Returns null if it can't be read.
+ */
+export function parseFormRenderedAt(value: number | string | undefined): number | null {
+  if (value === undefined || value === '') {
+    return null;
+  }
+
+  // Epoch seconds are 10 digits until the year 2286
+  const fromEpoch = (epoch: number) => (epoch < 1e11 ? epoch * 1000 : epoch);
+
+  if (typeof value === 'number') {
+    return fromEpoch(value);
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return fromEpoch(Number(value));
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Checks the honeypot and fill time. The render timestamp comes from the visitor's
+ * clock, so a timestamp in the future (clock ahead of ours) is ignored rather than held against them.
+ */
+export function checkFormSignals(
+  body: BotCheckFields,
+  now: number = Date.now(),
+  minFillTimeMs: number = config.botProtection.minFillTimeMs
+): { reasons: BotCheckReason[]; fill_time_ms: number | null } {
+  const reasons: BotCheckReason[] = [];
+
+  // The honeypot field is hidden from people - only bots fill it in
+  if (body.honeypot && body.honeypot.trim().length > 0) {
+    reasons.push('honeypot_filled');
+  }
+
+  const renderedAt = parseFormRenderedAt(body.form_rendered_at);
+  const fillTimeMs = renderedAt !== null ? now - renderedAt : null;
+
+  if (fillTimeMs !== null && fillTimeMs >= 0 && fillTimeMs < minFillTimeMs) {
+    reasons.push('filled_too_fast');
+  }
+
+  return { reasons, fill_time_ms: fillTimeMs };
+}
+
+/**
+ * Runs the honeypot, fill time and CAPTCHA checks on a submission.
+ * The CAPTCHA token is verified whenever one is sent and a provider is configured.
+ * If the CAPTCHA service is down the submission is let through (captcha: 'error') rather than lost.
+ */
+export async function runBotCheck(body: BotCheckFields, options: BotCheckOptions): Promise<BotCheckResult> {
+  const { reasons, fill_time_ms } = checkFormSignals(body, options.now, options.minFillTimeMs);
+  const verifier = options.verifier === undefined ? getCaptchaVerifier() : options.verifier;
+
+  let captcha: BotCheckResult['captcha'] = 'not_checked';
+
+  if (verifier && body.captcha_token) {
+    try {
+      const result = await verifier.verify(body.captcha_token, options.remoteIp);
+
+      if (result.success) {
+        captcha = 'passed';
+      } else {
+        captcha = 'failed';
+        reasons.push('captcha_failed');
+        logger.warn('CAPTCHA token rejected', { provider: verifier.provider, reason: result.reason });
+      }
+    } catch (error) {
+      captcha = 'error';
+      logger.error('CAPTCHA service unavailable - submission let through', error, { provider: verifier.provider });
+    }
+  } else if (verifier && options.requireCaptcha) {
+    captcha = 'missing';
+    reasons.push('captcha_missing');
+  }
+
+  return { passed: reasons.length === 0, reasons, fill_time_ms, captcha };
+}
+
+/**
+ * The webhook body without the anti-bot fields, which change on every submit
+ * and must not affect the idempotency hash or the stored lead
+ */
+export function withoutBotCheckFields<T extends BotCheckFields>(body: T): Omit<T, keyof BotCheckFields> {
+  const { honeypot: _honeypot, form_rendered_at: _formRenderedAt, captcha_token: _captchaToken, ...rest } = body;
+  return rest;
+}
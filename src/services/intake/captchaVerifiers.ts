@@ -0,0 +1,79 @@
+import { config } from '../../config/env.js';
+import { getErrorMessage } from '../../utils/logger.js';
+import type { CaptchaProvider, CaptchaVerificationResult, CaptchaVerifier } from '../../types/intake.types.js';
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+const HCAPTCHA_VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
+
+interface SiteverifyResponse {
+  success?: boolean;
+  'error-codes'?: string[];
+}
+
+/**
+ * Calls a siteverify endpoint. Turnstile and hCaptcha share the same form-encoded API.
+ * Throws when the service can't be reached, so callers can tell an outage from a failed token.
+ */
+async function siteverify(url: string, token: string, remoteIp?: string): Promise<CaptchaVerificationResult> {
+  const secret = config.botProtection.captchaSecret;
+  if (!secret) {
+    throw new Error('CAPTCHA_SECRET not configured');
+  }
+
+  const params = new URLSearchParams({ secret, response: token });
+  if (remoteIp) {
+    params.set('remoteip', remoteIp);
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      body: params,
+      signal: AbortSignal.timeout(config.botProtection.captchaTimeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const result = (await response.json()) as SiteverifyResponse;
+
+    return result.success
+      ? { success: true }
+      : { success: false, reason: result['error-codes']?.join(', ') || 'rejected' };
+  } catch (error) {
+    throw new Error(`CAPTCHA verification failed: ${getErrorMessage(error)}`);
+  }
+}
+
+export const turnstileVerifier: CaptchaVerifier = {
+  provider: 'turnstile',
+  verify: (token, remoteIp) => siteverify(TURNSTILE_VERIFY_URL, token, remoteIp),
+};
+
+export const hcaptchaVerifier: CaptchaVerifier = {
+  provider: 'hcaptcha',
+  verify: (token, remoteIp) => siteverify(HCAPTCHA_VERIFY_URL, token, remoteIp),
+};
+
+/**
+ * Local stand-in for development and tests - no network call.
+ * Accepts every token except "fail".
+ */
+export const stubCaptchaVerifier: CaptchaVerifier = {
+  provider: 'stub',
+  verify: async (token) => (token === 'fail' ? { success: false, reason: 'stub-rejected' } : { success: true }),
+};
+
+const CAPTCHA_VERIFIERS: Record<CaptchaProvider, CaptchaVerifier> = {
+  turnstile: turnstileVerifier,
+  hcaptcha: hcaptchaVerifier,
+  stub: stubCaptchaVerifier,
+};
+
+/**
+ * Verifier selected by CAPTCHA_PROVIDER, or null when CAPTCHA checks are off
+ */
+export function getCaptchaVerifier(provider: CaptchaProvider | undefined = config.botProtection.captchaProvider): CaptchaVerifier | null {
+  return provider ? CAPTCHA_VERIFIERS[provider] : null;
+}
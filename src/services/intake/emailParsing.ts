@@ -0,0 +1,208 @@
+import { extractDomain, unknownCompanyName } from '../../utils/validator.js';
+
+/**
+ * Helpers for turning an inbound email into form fields.
+ * Provider payload shapes live in the email adapters.
+ */
+
+// Inbound email in provider-neutral form
+export interface InboundEmail {
+  from: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  // Provider-side parsing, when available (Mailgun stripped-text / stripped-signature)
+  strippedText?: string;
+  strippedSignature?: string;
+}
+
+export interface EmailSender {
+  name?: string;
+  email?: string;
+}
+
+export interface SignatureDetails {
+  name?: string;
+  company?: string;
+  phone?: string;
+}
+
+// Lines that start the quoted original message in a reply or forward
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+wrote:$/i,
+  /^Den .+skrev.*:$/i,
+  /^-{2,}\s*(Original Message|Ursprungligt meddelande|Forwarded message|Vidarebefordrat meddelande)\s*-{2,}$/i,
+  /^(From|Från):\s.+/,
+  /^_{10,}$/, // Outlook separator
+];
+
+// Sign-offs that start the signature when there is no "-- " delimiter
+const SIGN_OFF_PATTERN =
+  /^(med vänliga hälsningar|vänliga hälsningar|med vänlig hälsning|vänlig hälsning|mvh|hälsningar|best regards|kind regards|regards|best|cheers|thanks|tack)[,.!]?$/i;
+
+// How far from the end a sign-off may appear and still count as the signature
+const SIGN_OFF_MAX_LINES_FROM_END = 12;
+
+const COMPANY_SUFFIX_PATTERN = /\b(AB|Aktiebolag|HB|KB|Ltd|Limited|Inc|LLC|GmbH|AS|ApS|Oy)\b\.?$/;
+const PHONE_PATTERN = /(\+?\d[\d\s\-()]{6,}\d)/;
+const CONTACT_LINE_PATTERN = /@|https?:\/\/|www\./i;
+
+/**
+ * Parses a From header: "Anna Svensson <anna@company.se>" or a bare address
+ */
+export function parseEmailSender(from: string): EmailSender {
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+
+  if (match) {
+    const name = match[1].trim();
+    return { name: name.length > 0 ? name : undefined, email: match[2].trim().toLowerCase() };
+  }
+
+  const address = from.trim();
+  return address.includes('@') ? { email: address.toLowerCase() } : {};
+}
+
+/**
+ * Name guessed from an address's local part: anna.svensson@... -> "Anna Svensson".
+ * A local part without letters is used as it is.
+ */
+export function nameFromEmailAddress(email: string): string {
+  const localPart = email.split('@')[0];
+  const words = localPart
+    .split(/[._+-]+/)
+    .map((word) => word.replace(/\d+/g, ''))
+    .filter((word) => word.length > 0);
+
+  return words.length > 0
+    ? words.map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(' ')
+    : localPart;
+}
+
+/**
+ * Removes the quoted original message from a reply or forward
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+      break;
+    }
+    if (trimmed.startsWith('>')) {
+      continue;
+    }
+
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+/**
+ * Splits the message body from the signature. Uses the standard "-- " delimiter,
+ * otherwise the last sign-off line ("Med vänliga hälsningar", "Best regards", ...) near the end.
+ */
+export function splitSignature(text: string): { body: string; signature: string } {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  let index = lines.findIndex((line) => line.trimEnd() === '--');
+  let signatureStart = index + 1;
+
+  if (index === -1) {
+    for (let i = lines.length - 1; i >= Math.max(0, lines.length - SIGN_OFF_MAX_LINES_FROM_END); i--) {
+      if (SIGN_OFF_PATTERN.test(lines[i].trim())) {
+        index = i;
+        signatureStart = i + 1;
+        break;
+      }
+    }
+  }
+
+  if (index === -1) {
+    return { body: text.trim(), signature: '' };
+  }
+
+  return {
+    body: lines.slice(0, index).join('\n').trim(),
+    signature: lines.slice(signatureStart).join('\n').trim(),
+  };
+}
+
+/**
+ * Picks name, company and phone out of an email signature.
+ * The first plain line is taken as the name, the company is the line ending
+ * in a company suffix (AB, Ltd, ...).
+ */
+export function extractSignatureDetails(signature: string): SignatureDetails {
+  const lines = signature
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const phone = lines.map((line) => line.match(PHONE_PATTERN)?.[1]).find(Boolean);
+  const plainLines = lines.filter((line) => !PHONE_PATTERN.test(line) && !CONTACT_LINE_PATTERN.test(line));
+
+  const company = plainLines.find((line) => COMPANY_SUFFIX_PATTERN.test(line));
+  const name = plainLines.find((line) => line !== company);
+
+  return { name, company, phone: phone?.trim() };
+}
+
+/**
+ * Crude HTML to text for emails that only have an HTML part
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Maps an inbound email onto the flat webhook body.
+ * Quoted replies and the signature are stripped from the message; name, company and
+ * phone come from the sender and signature. Without a name, one is guessed from the
+ * address. Without a company in the signature, a business sender domain stands in
+ * for the company name, or a placeholder for personal addresses - so the lead is
+ * validated and scored like a form lead rather than refused.
+ */
+export function inboundEmailToFormBody(email: InboundEmail): Record<string, string | undefined> {
+  const sender = parseEmailSender(email.from);
+
+  let message: string;
+  let signature: string;
+
+  if (email.strippedText !== undefined) {
+    message = email.strippedText.trim();
+    signature = email.strippedSignature ?? '';
+  } else {
+    const text = email.text ?? (email.html ? htmlToText(email.html) : '');
+    ({ body: message, signature } = splitSignature(stripQuotedReply(text)));
+  }
+
+  const details = extractSignatureDetails(signature);
+  const senderDomain = sender.email ? extractDomain({ email: sender.email }) : null;
+
+  const domainCompany = senderDomain?.domain_source === 'email' ? senderDomain.extracted_domain ?? undefined : undefined;
+
+  return {
+    name: sender.name ?? details.name ?? (sender.email && nameFromEmailAddress(sender.email)),
+    email: sender.email,
+    phone: details.phone,
+    company: details.company ?? domainCompany ?? (sender.email && unknownCompanyName(sender.email)),
+    message,
+    subject: email.subject,
+  };
+}
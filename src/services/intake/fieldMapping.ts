@@ -0,0 +1,113 @@
+import type { WebhookRequestBody } from '../../types/index.js';
+
+// Attachment and anti-bot fields are only sent by our own form
+type FormField = Exclude<
+  keyof WebhookRequestBody,
+  'attachment_urls' | 'honeypot' | 'form_rendered_at' | 'captcha_token'
+>;
+
+/**
+ * Known field names per form field, normalized with normalizeFieldKey.
+ * Covers the English and Swedish labels marketing uses across form builders.
+ */
+const FIELD_ALIASES: Record<FormField, string[]> = {
+  name: ['name', 'full_name', 'fullname', 'your_name', 'contact_name', 'namn', 'kontaktperson'],
+  email: ['email', 'e_mail', 'email_address', 'your_email', 'e_post', 'epost', 'mail'],
+  phone: ['phone', 'phone_number', 'telephone', 'mobile', 'mobilephone', 'telefon', 'telefonnummer', 'mobil'],
+  company: ['company', 'company_name', 'organization', 'organisation', 'foretag', 'foretagsnamn'],
+  industry: ['industry', 'bransch'],
+  service_type: ['service_type', 'service', 'tjanst'],
+  message: ['message', 'description', 'needs', 'needs_description', 'comments', 'meddelande', 'beskrivning'],
+  subject: ['subject', 'amne'],
+  language: ['language', 'lang', 'locale', 'sprak'],
+  org_number: [
+    'org_number',
+    'orgnr',
+    'org_nr',
+    'organisationsnummer',
+    'organization_number',
+    'organisation_number',
+    'company_number',
+  ],
+};
+
+const FIRST_NAME_ALIASES = ['firstname', 'first_name', 'fornamn'];
+const LAST_NAME_ALIASES = ['lastname', 'last_name', 'efternamn'];
+
+/**
+ * Normalizes a provider field key or label: "E-post" -> "e_post", "Företag" -> "foretag"
+ */
+export function normalizeFieldKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Converts a provider field value to a string, or undefined if empty/unsupported
+ */
+export function fieldValueToString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    const joined = value.map(fieldValueToString).filter(Boolean).join(', ');
+    return joined.length > 0 ? joined : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Maps arbitrary provider fields onto the flat webhook body by field name.
+ * `fieldMap` adds provider-specific mappings (provider key -> form field) and wins over the aliases.
+ * Unknown fields are dropped. Name falls back to first + last name.
+ */
+export function mapFieldsByAlias(
+  fields: Record<string, unknown>,
+  fieldMap: Record<string, string> = {}
+): Partial<Record<FormField, string>> {
+  const normalized = new Map<string, string>();
+  for (const [key, value] of Object.entries(fields)) {
+    const text = fieldValueToString(value);
+    if (text !== undefined) {
+      normalized.set(normalizeFieldKey(key), text);
+    }
+  }
+
+  const body: Partial<Record<FormField, string>> = {};
+
+  for (const [providerKey, formField] of Object.entries(fieldMap)) {
+    const value = normalized.get(normalizeFieldKey(providerKey));
+    if (value !== undefined && formField in FIELD_ALIASES) {
+      body[formField as FormField] = value;
+    }
+  }
+
+  for (const [formField, aliases] of Object.entries(FIELD_ALIASES) as Array<[FormField, string[]]>) {
+    if (body[formField] !== undefined) continue;
+
+    const alias = aliases.find((a) => normalized.has(a));
+    if (alias) {
+      body[formField] = normalized.get(alias);
+    }
+  }
+
+  if (!body.name) {
+    const firstName = FIRST_NAME_ALIASES.map((a) => normalized.get(a)).find(Boolean);
+    const lastName = LAST_NAME_ALIASES.map((a) => normalized.get(a)).find(Boolean);
+    const fullName = [firstName, lastName].filter(Boolean).join(' ');
+    if (fullName) {
+      body.name = fullName;
+    }
+  }
+
+  return body;
+}
@@ -0,0 +1,29 @@
+import { websiteFormAdapter } from './websiteAdapter.js';
+import { typeformAdapter } from './typeformAdapter.js';
+import { hubspotAdapter } from './hubspotAdapter.js';
+import { webflowAdapter } from './webflowAdapter.js';
+import { genericJsonAdapter } from './genericJsonAdapter.js';
+import { mailgunEmailAdapter } from './mailgunEmailAdapter.js';
+import { resendEmailAdapter } from './resendEmailAdapter.js';
+import type { FormAdapter, FormProvider } from '../../types/intake.types.js';
+
+// Selects the adapter on POST /api/webhook when the provider isn't in the path
+export const FORM_PROVIDER_HEADER = 'x-form-provider';
+
+const FORM_ADAPTERS: Record<FormProvider, FormAdapter> = {
+  website: websiteFormAdapter,
+  typeform: typeformAdapter,
+  hubspot: hubspotAdapter,
+  webflow: webflowAdapter,
+  generic: genericJsonAdapter,
+  mailgun: mailgunEmailAdapter,
+  resend: resendEmailAdapter,
+};
+
+/**
+ * Looks up the intake adapter for a provider name. Returns null for unknown providers.
+ */
+export function getFormAdapter(provider: string): FormAdapter | null {
+  const key = provider.trim().toLowerCase();
+  return Object.hasOwn(FORM_ADAPTERS, key) ? FORM_ADAPTERS[key as FormProvider] : null;
+}
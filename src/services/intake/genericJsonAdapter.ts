@@ -0,0 +1,26 @@
+import { config } from '../../config/env.js';
+import { verifyWebhookSignature } from '../../middleware/webhookAuth.js';
+import { GenericFormPayloadSchema } from '../../schemas/intake.js';
+import { mapFieldsByAlias } from './fieldMapping.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Any flat JSON form (Zapier, Make, landing page builders, ...).
+ * Fields are matched by common English/Swedish names plus FORM_FIELD_MAP.
+ * Signed with our own scheme, since these senders have none of their own.
+ */
+export const genericJsonAdapter: FormAdapter = {
+  provider: 'generic',
+  source: 'generic_form',
+  verifySignature: verifyWebhookSignature,
+  acceptsAttachments: true,
+
+  mapPayload(payload) {
+    const parsed = GenericFormPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    return { body: mapFieldsByAlias(parsed.data, config.formProviders.fieldMap) };
+  },
+};
@@ -0,0 +1,63 @@
+import { config } from '../../config/env.js';
+import { verifyProviderSignature } from '../../middleware/webhookAuth.js';
+import {
+  HUBSPOT_SIGNATURE_HEADER,
+  HUBSPOT_TIMESTAMP_HEADER,
+  verifyHubspotSignature,
+} from '../../utils/providerSignatures.js';
+import { HubspotFormSubmissionSchema, HubspotContactSchema } from '../../schemas/intake.js';
+import { mapFieldsByAlias } from './fieldMapping.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * HubSpot form submissions ({ fields: [{ name, value }] }) and contact
+ * workflow webhooks ({ properties: { email: { value } } }).
+ * Fields are matched by HubSpot's internal property names (firstname, lastname, email, company, ...).
+ */
+export const hubspotAdapter: FormAdapter = {
+  provider: 'hubspot',
+  source: 'hubspot',
+
+  verifySignature: verifyProviderSignature('hubspot', config.formProviders.hubspotClientSecret, (req, rawBody, secret) => {
+    const baseUrl = config.formProviders.publicBaseUrl?.replace(/\/+$/, '') || `${req.protocol}://${req.get('host')}`;
+
+    return verifyHubspotSignature({
+      method: req.method,
+      uri: `${baseUrl}${req.originalUrl}`,
+      body: rawBody,
+      signature: req.get(HUBSPOT_SIGNATURE_HEADER),
+      timestamp: req.get(HUBSPOT_TIMESTAMP_HEADER),
+      secret,
+      toleranceSeconds: config.webhook.timestampToleranceSeconds,
+    });
+  }),
+
+  mapPayload(payload) {
+    const submission = HubspotFormSubmissionSchema.safeParse(payload);
+    if (submission.success) {
+      const fields = Object.fromEntries(submission.data.fields.map((field) => [field.name, field.value]));
+      return {
+        body: mapFieldsByAlias(fields, config.formProviders.fieldMap),
+        externalId: submission.data.conversionId,
+      };
+    }
+
+    const contact = HubspotContactSchema.safeParse(payload);
+    if (!contact.success) {
+      return null;
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(contact.data.properties).map(([name, property]) => [
+        name,
+        typeof property === 'object' ? property.value : property,
+      ])
+    );
+    const objectId = contact.data.objectId ?? contact.data.vid;
+
+    return {
+      body: mapFieldsByAlias(fields, config.formProviders.fieldMap),
+      externalId: objectId !== undefined ? String(objectId) : undefined,
+    };
+  },
+};
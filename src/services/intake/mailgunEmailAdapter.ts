@@ -0,0 +1,51 @@
+import { config } from '../../config/env.js';
+import { verifyProviderSignature } from '../../middleware/webhookAuth.js';
+import { verifyMailgunSignature } from '../../utils/providerSignatures.js';
+import { MailgunInboundSchema } from '../../schemas/intake.js';
+import { inboundEmailToFormBody } from './emailParsing.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Inbound emails forwarded by a Mailgun route (forward("https://.../api/webhook/mailgun")).
+ * Mailgun's own stripped-text / stripped-signature are used when present.
+ */
+export const mailgunEmailAdapter: FormAdapter = {
+  provider: 'mailgun',
+  source: 'email',
+
+  verifySignature: verifyProviderSignature(
+    'mailgun',
+    config.formProviders.mailgunSigningKey,
+    (req, _rawBody, secret) =>
+      verifyMailgunSignature({
+        timestamp: req.body?.timestamp,
+        token: req.body?.token,
+        signature: req.body?.signature,
+        secret,
+        toleranceSeconds: config.webhook.timestampToleranceSeconds,
+      }),
+    // Anyone can send an email, so unsigned deliveries are never accepted
+    { requireSecret: true }
+  ),
+
+  mapPayload(payload) {
+    const parsed = MailgunInboundSchema.safeParse(payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    const email = parsed.data;
+
+    return {
+      body: inboundEmailToFormBody({
+        from: email.from ?? email.sender ?? '',
+        subject: email.subject,
+        text: email['body-plain'],
+        html: email['body-html'],
+        strippedText: email['stripped-text'],
+        strippedSignature: email['stripped-signature'],
+      }),
+      externalId: email['Message-Id'],
+    };
+  },
+};
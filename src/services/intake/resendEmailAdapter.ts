@@ -0,0 +1,49 @@
+import { config } from '../../config/env.js';
+import { verifyProviderSignature } from '../../middleware/webhookAuth.js';
+import {
+  SVIX_ID_HEADER,
+  SVIX_TIMESTAMP_HEADER,
+  SVIX_SIGNATURE_HEADER,
+  verifySvixSignature,
+} from '../../utils/providerSignatures.js';
+import { ResendInboundSchema } from '../../schemas/intake.js';
+import { inboundEmailToFormBody } from './emailParsing.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Inbound emails received by Resend (email.received webhook event)
+ */
+export const resendEmailAdapter: FormAdapter = {
+  provider: 'resend',
+  source: 'email',
+
+  verifySignature: verifyProviderSignature(
+    'resend',
+    config.formProviders.resendInboundSecret,
+    (req, rawBody, secret) =>
+      verifySvixSignature({
+        body: rawBody,
+        id: req.get(SVIX_ID_HEADER),
+        timestamp: req.get(SVIX_TIMESTAMP_HEADER),
+        signature: req.get(SVIX_SIGNATURE_HEADER),
+        secret,
+        toleranceSeconds: config.webhook.timestampToleranceSeconds,
+      }),
+    // Anyone can send an email, so unsigned deliveries are never accepted
+    { requireSecret: true }
+  ),
+
+  mapPayload(payload) {
+    const parsed = ResendInboundSchema.safeParse(payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    const { data } = parsed.data;
+
+    return {
+      body: inboundEmailToFormBody({ from: data.from, subject: data.subject, text: data.text, html: data.html }),
+      externalId: data.message_id ?? data.email_id,
+    };
+  },
+};
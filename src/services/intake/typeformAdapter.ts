@@ -0,0 +1,74 @@
+import { config } from '../../config/env.js';
+import { verifyProviderSignature } from '../../middleware/webhookAuth.js';
+import { TYPEFORM_SIGNATURE_HEADER, verifyTypeformSignature } from '../../utils/providerSignatures.js';
+import { TypeformPayloadSchema, type TypeformAnswer } from '../../schemas/intake.js';
+import { mapFieldsByAlias, fieldValueToString } from './fieldMapping.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Extracts the value of a Typeform answer - the key holding it depends on the answer type
+ */
+function answerValue(answer: TypeformAnswer): unknown {
+  switch (answer.type) {
+    case 'email':
+      return answer.email;
+    case 'phone_number':
+      return answer.phone_number;
+    case 'number':
+      return answer.number;
+    case 'url':
+      return answer.url;
+    case 'date':
+      return answer.date;
+    case 'choice':
+      return answer.choice?.label ?? answer.choice?.other;
+    case 'choices':
+      return [...(answer.choices?.labels ?? []), answer.choices?.other];
+    default:
+      return answer.text;
+  }
+}
+
+/**
+ * Typeform form_response webhooks.
+ * Questions are matched by their block `ref` (set it to e.g. "company" in the form editor),
+ * hidden fields are matched by name. Email and phone questions are also recognised by type.
+ */
+export const typeformAdapter: FormAdapter = {
+  provider: 'typeform',
+  source: 'typeform',
+
+  verifySignature: verifyProviderSignature('typeform', config.formProviders.typeformSecret, (req, rawBody, secret) =>
+    verifyTypeformSignature({
+      body: rawBody,
+      signature: req.get(TYPEFORM_SIGNATURE_HEADER),
+      secret,
+    })
+  ),
+
+  mapPayload(payload) {
+    const parsed = TypeformPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    const { form_response: response } = parsed.data;
+    const fields: Record<string, unknown> = { ...response.hidden };
+
+    for (const answer of response.answers) {
+      fields[answer.field.ref ?? answer.field.id] = answerValue(answer);
+    }
+
+    const body = mapFieldsByAlias(fields, config.formProviders.fieldMap);
+    const emailAnswer = response.answers.find((a) => a.type === 'email');
+    const phoneAnswer = response.answers.find((a) => a.type === 'phone_number');
+    if (!body.email && emailAnswer) {
+      body.email = fieldValueToString(emailAnswer.email);
+    }
+    if (!body.phone && phoneAnswer) {
+      body.phone = fieldValueToString(phoneAnswer.phone_number);
+    }
+
+    return { body, externalId: response.token ?? parsed.data.event_id };
+  },
+};
@@ -0,0 +1,41 @@
+import { config } from '../../config/env.js';
+import { verifyProviderSignature } from '../../middleware/webhookAuth.js';
+import {
+  WEBFLOW_SIGNATURE_HEADER,
+  WEBFLOW_TIMESTAMP_HEADER,
+  verifyWebflowSignature,
+} from '../../utils/providerSignatures.js';
+import { WebflowPayloadSchema } from '../../schemas/intake.js';
+import { mapFieldsByAlias } from './fieldMapping.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Webflow form_submission webhooks. Fields are matched by the form's field names
+ * ("Name", "Email", "Företag", ...).
+ */
+export const webflowAdapter: FormAdapter = {
+  provider: 'webflow',
+  source: 'webflow',
+
+  verifySignature: verifyProviderSignature('webflow', config.formProviders.webflowSecret, (req, rawBody, secret) =>
+    verifyWebflowSignature({
+      body: rawBody,
+      signature: req.get(WEBFLOW_SIGNATURE_HEADER),
+      timestamp: req.get(WEBFLOW_TIMESTAMP_HEADER),
+      secret,
+      toleranceSeconds: config.webhook.timestampToleranceSeconds,
+    })
+  ),
+
+  mapPayload(payload) {
+    const parsed = WebflowPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+      return null;
+    }
+
+    return {
+      body: mapFieldsByAlias(parsed.data.payload.data, config.formProviders.fieldMap),
+      externalId: parsed.data.payload.id,
+    };
+  },
+};
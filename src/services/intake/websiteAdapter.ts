@@ -0,0 +1,17 @@
+import { verifyWebhookSignature } from '../../middleware/webhookAuth.js';
+import type { FormAdapter } from '../../types/intake.types.js';
+
+/**
+ * Our own website form - the body is already in webhookRequestSchema shape
+ */
+export const websiteFormAdapter: FormAdapter = {
+  provider: 'website',
+  source: 'website_form',
+  verifySignature: verifyWebhookSignature,
+  acceptsAttachments: true,
+  captcha: true,
+  mapPayload: (payload) =>
+    payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? { body: payload as Record<string, unknown> }
+      : null,
+};
@@ -6,6 +6,7 @@ import {
   defaultExclusionKeywords,
 } from '../../config/scrapers/jobs/indeed.config.js';
 import { logger, getErrorMessage } from '../../utils/logger.js';
+import { callExternal, getErrorStatus } from '../../utils/resilience.js';
 import { parseRawIndeedJobs } from '../../schemas/scraper.js';
 import type { RawIndeedJob, NormalizedJob, ScraperRunConfig } from '../../types/scraper.types.js';
 
@@ -20,8 +21,10 @@ export async function fetchIndeedJobs(runConfig?: ScraperRunConfig): Promise<Raw
   // Debug: Log that we have an API key (first 10 chars only for security)
   console.log('[DEBUG] Apify API key loaded:', config.apify.apiKey?.substring(0, 15) + '...');
 
+  // Retries are done by callExternal, not by the client
   const client = new ApifyClient({
     token: config.apify.apiKey,
+    maxRetries: 0,
   });
 
   const keywords = runConfig?.keywords || config.scraper.keywords || defaultIndeedKeywords;
@@ -37,20 +40,26 @@ export async function fetchIndeedJobs(runConfig?: ScraperRunConfig): Promise<Raw
   });
 
   try {
-    // Run the Apify actor
-    const run = await client.actor(indeedConfig.apifyActorId).call({
-      country,
-      position: keywords,
-      maxItems,
-      followApplyRedirects: false,
-      parseCompanyDetails: false,
-      saveOnlyUniqueItems: true,
-      proxy: { useApifyProxy: true },
-      sort: 'date',
-    });
+    // Run the Apify actor. Each call starts a new paid run, and a timeout doesn't stop the
+    // one already started, so only rate limits (run not started) are retried.
+    const run = await callExternal(
+      'apify',
+      () =>
+        client.actor(indeedConfig.apifyActorId).call({
+          country,
+          position: keywords,
+          maxItems,
+          followApplyRedirects: false,
+          parseCompanyDetails: false,
+          saveOnlyUniqueItems: true,
+          proxy: { useApifyProxy: true },
+          sort: 'date',
+        }),
+      { isRetryable: (error) => getErrorStatus(error) === 429 }
+    );
 
     // Fetch results from the dataset
-    const { items } = await client.dataset(run.defaultDatasetId).listItems();
+    const { items } = await callExternal('apify', () => client.dataset(run.defaultDatasetId).listItems());
 
     logger.info('Indeed scraper completed', {
       totalItems: items.length,
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import type {
+  NormalizedJob,
+  JobEvaluationResult,
+  JobEvaluationCacheEntry,
+} from '../../types/scraper.types.js';
+
+/**
+ * Storage backend for AI job evaluations.
+ * Entries are keyed on the job content and prompt version (computeJobEvaluationCacheKey),
+ * so the same ad reposted or scraped again is not sent to the LLM twice.
+ */
+export interface JobEvaluationCache {
+  /** Returns the stored evaluation, or null when there is none or it has expired. */
+  get(key: string): Promise<JobEvaluationResult | null>;
+  set(key: string, evaluation: JobEvaluationResult, promptVersion: string): Promise<void>;
+}
+
+/**
+ * Lowercase, Unicode-normalize and collapse whitespace so formatting-only
+ * differences between two copies of an ad give the same key
+ */
+export function normalizeJobText(value: string | undefined): string {
+  return (value || '').normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache key for a job evaluation: sha256 of the normalized title, company
+ * and description plus the version of the prompt that evaluated it.
+ */
+export function computeJobEvaluationCacheKey(
+  job: Pick<NormalizedJob, 'title' | 'company' | 'description'>,
+  promptVersion: string
+): string {
+  const content = JSON.stringify([
+    promptVersion,
+    normalizeJobText(job.title),
+    normalizeJobText(job.company),
+    normalizeJobText(job.description),
+  ]);
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * In-process cache for local development and tests.
+ * Entries are lost on restart - use the Supabase driver in production.
+ */
+export function createMemoryJobEvaluationCache(
+  ttlMs: number,
+  now: () => number = Date.now
+): JobEvaluationCache {
+  const entries = new Map<string, JobEvaluationCacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      if (new Date(entry.expires_at).getTime() <= now()) {
+        entries.delete(key);
+        return null;
+      }
+
+      return entry.evaluation;
+    },
+
+    async set(key, evaluation, promptVersion) {
+      entries.set(key, {
+        cache_key: key,
+        prompt_version: promptVersion,
+        evaluation,
+        expires_at: new Date(now() + ttlMs).toISOString(),
+        created_at: new Date(now()).toISOString(),
+      });
+    },
+  };
+}
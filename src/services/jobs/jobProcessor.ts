@@ -1,6 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config/env.js';
 import { logger, getErrorMessage } from '../../utils/logger.js';
 import { evaluateJob } from '../aiService.js';
+import { getPrompt } from '../../prompts/promptRegistry.js';
+import { sumUsage } from '../llm/llmUsage.js';
 import {
   findOrCreateCompany,
   findExistingJobsBySource,
@@ -9,6 +12,12 @@ import {
   upsertScrapedContact,
 } from '../supabaseService.js';
 import { guessCompanyDomain } from './indeedJobScraper.js';
+import {
+  computeJobEvaluationCacheKey,
+  createMemoryJobEvaluationCache,
+  type JobEvaluationCache,
+} from './jobEvaluationCache.js';
+import { createSupabaseJobEvaluationCache } from './supabaseJobEvaluationCache.js';
 import type {
   NormalizedJob,
   JobEvaluationResult,
@@ -16,7 +25,14 @@ import type {
   ScraperRunResult,
   ExtractedContact,
   JobScraperSource,
+  JobProcessingOptions,
 } from '../../types/scraper.types.js';
+import type { AIUsage } from '../../types/llm.types.js';
+
+const jobEvaluationCache: JobEvaluationCache =
+  config.jobEvaluationCache.driver === 'memory'
+    ? createMemoryJobEvaluationCache(config.jobEvaluationCache.ttlMs)
+    : createSupabaseJobEvaluationCache(config.jobEvaluationCache.ttlMs);
 
 /**
  * Deduplicate jobs against existing database records
@@ -90,13 +106,54 @@ function extractContactFromJob(
   };
 }
 
+/**
+ * Evaluate a job with AI, reusing the cached evaluation of an identical ad when there is one.
+ * Cache errors are logged and treated as a miss - they never fail the job.
+ */
+async function evaluateJobWithCache(
+  job: NormalizedJob,
+  refresh: boolean
+): Promise<{ evaluation: JobEvaluationResult; cached: boolean; usage?: AIUsage }> {
+  const promptVersion = getPrompt('job_evaluation').version;
+  const cacheKey = computeJobEvaluationCacheKey(job, promptVersion);
+
+  if (!refresh) {
+    const cached = await jobEvaluationCache.get(cacheKey).catch((error) => {
+      logger.warn('Job evaluation cache lookup failed', { error: getErrorMessage(error) });
+      return null;
+    });
+
+    if (cached) {
+      logger.debug('Job evaluation cache hit', { title: job.title, company: job.company });
+      return { evaluation: cached, cached: true };
+    }
+  }
+
+  const { usage, ...evaluation } = await evaluateJob(job);
+
+  await jobEvaluationCache.set(cacheKey, evaluation, promptVersion).catch((error) => {
+    logger.warn('Failed to cache job evaluation', { error: getErrorMessage(error) });
+  });
+
+  return { evaluation, cached: false, usage };
+}
+
 /**
  * Process a single job through the pipeline
  */
-export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
+export async function processJob(
+  job: NormalizedJob,
+  options: JobProcessingOptions = {}
+): Promise<ProcessedJob> {
+  let evaluationCached: boolean | undefined;
+  let usage: AIUsage | undefined;
+
   try {
-    // 1. Evaluate with AI
-    const evaluation = await evaluateJob(job);
+    // 1. Evaluate with AI (or reuse the cached evaluation)
+    const evaluated = await evaluateJobWithCache(job, options.refreshEvaluations === true);
+    const evaluation = evaluated.evaluation;
+    evaluationCached = evaluated.cached;
+    usage = evaluated.usage;
 
     // 2. Find or create company
     const guessedDomain = guessCompanyDomain(job.company);
@@ -131,6 +188,8 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
       jobAdId: jobAdResult.id,
       signalId: signalResult.id,
       success: true,
+      evaluationCached,
+      usage,
     };
   } catch (error) {
     logger.error('Error processing job', error, { title: job.title, company: job.company });
@@ -152,6 +211,8 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
       signalId: '',
       success: false,
       error: getErrorMessage(error),
+      evaluationCached,
+      usage,
     };
   }
 }
@@ -161,7 +222,8 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
  */
 export async function processJobBatch(
   jobs: NormalizedJob[],
-  concurrency: number = 3
+  concurrency: number = 3,
+  options: JobProcessingOptions = {}
 ): Promise<ProcessedJob[]> {
   const results: ProcessedJob[] = [];
 
@@ -169,7 +231,7 @@ export async function processJobBatch(
   for (let i = 0; i < jobs.length; i += concurrency) {
     const chunk = jobs.slice(i, i + concurrency);
 
-    const chunkResults = await Promise.all(chunk.map(processJob));
+    const chunkResults = await Promise.all(chunk.map((job) => processJob(job, options)));
 
     results.push(...chunkResults);
 
@@ -188,7 +250,8 @@ export async function processJobBatch(
  */
 export async function runJobProcessingPipeline(
   jobs: NormalizedJob[],
-  source: JobScraperSource
+  source: JobScraperSource,
+  options: JobProcessingOptions = {}
 ): Promise<ScraperRunResult> {
   const runId = uuidv4();
   const startTime = new Date();
@@ -197,6 +260,7 @@ export async function runJobProcessingPipeline(
     runId,
     source,
     jobCount: jobs.length,
+    refreshEvaluations: options.refreshEvaluations === true,
   });
 
   try {
@@ -220,6 +284,12 @@ export async function runJobProcessingPipeline(
           valid: 0,
           discarded: 0,
           errors: 0,
+          cacheHits: 0,
+          cacheMisses: 0,
+          aiCalls: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          estimatedCostUsd: 0,
         },
         validJobs: [],
         discardedJobs: [],
@@ -228,7 +298,7 @@ export async function runJobProcessingPipeline(
     }
 
     // 2. Process all jobs
-    const processedJobs = await processJobBatch(newJobs);
+    const processedJobs = await processJobBatch(newJobs, 3, options);
 
     // 3. Separate valid and discarded
     const validJobs = processedJobs.filter((p) => p.success && p.evaluation.isValid);
@@ -237,6 +307,8 @@ export async function runJobProcessingPipeline(
       .filter((p) => !p.success)
       .map((p) => ({ job: p.job, error: p.error || 'Unknown error' }));
 
+    const usage = sumUsage(...processedJobs.map((p) => p.usage));
+
     const endTime = new Date();
 
     const result: ScraperRunResult = {
@@ -253,6 +325,12 @@ export async function runJobProcessingPipeline(
         valid: validJobs.length,
         discarded: discardedJobs.length,
         errors: errors.length,
+        cacheHits: processedJobs.filter((p) => p.evaluationCached === true).length,
+        cacheMisses: processedJobs.filter((p) => p.evaluationCached === false).length,
+        aiCalls: usage.calls,
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        estimatedCostUsd: usage.cost_usd,
       },
       validJobs,
       discardedJobs,
@@ -284,6 +362,12 @@ export async function runJobProcessingPipeline(
         valid: 0,
         discarded: 0,
         errors: 1,
+        cacheHits: 0,
+        cacheMisses: 0,
+        aiCalls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimatedCostUsd: 0,
       },
       validJobs: [],
       discardedJobs: [],
@@ -0,0 +1,14 @@
+import { getCachedJobEvaluation, upsertCachedJobEvaluation } from '../supabaseService.js';
+import type { JobEvaluationCache } from './jobEvaluationCache.js';
+
+/**
+ * Durable cache backed by the job_evaluation_cache table in Supabase.
+ * Expired rows are ignored on read and overwritten by the next evaluation.
+ */
+export function createSupabaseJobEvaluationCache(ttlMs: number): JobEvaluationCache {
+  return {
+    get: (key) => getCachedJobEvaluation(key),
+    set: (key, evaluation, promptVersion) =>
+      upsertCachedJobEvaluation(key, evaluation, promptVersion, new Date(Date.now() + ttlMs)),
+  };
+}
@@ -0,0 +1,156 @@
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { uploadLeadAttachment, downloadLeadAttachment } from '../supabaseService.js';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  appendAttachmentText,
+  detectAttachmentKind,
+  downloadAttachment,
+  extractAttachmentText,
+  sanitizeFilename,
+  type AttachmentFile,
+} from '../intake/attachments.js';
+import type { FormData, LeadAttachment } from '../../types/index.js';
+
+// Output of the extract_attachments pipeline step
+export interface ExtractedAttachments {
+  attachments: LeadAttachment[];
+  sections: Array<{ filename: string; text: string }>;
+}
+
+/**
+ * Storage path of an attachment: one folder per submission, numbered to keep equal names apart
+ */
+function attachmentPath(submissionId: string, index: number, filename: string): string {
+  return `${submissionId}/${index + 1}-${sanitizeFilename(filename)}`;
+}
+
+/**
+ * Stores files uploaded with the webhook request, before the submission is queued
+ */
+export async function storeUploadedAttachments(submissionId: string, files: AttachmentFile[]): Promise<LeadAttachment[]> {
+  return Promise.all(
+    files.map(async (file, index) => {
+      const kind = detectAttachmentKind(file);
+      const contentType = kind ? ATTACHMENT_CONTENT_TYPES[kind] : file.content_type;
+
+      return {
+        filename: sanitizeFilename(file.filename),
+        content_type: contentType,
+        source: 'upload' as const,
+        storage_path: await uploadLeadAttachment(attachmentPath(submissionId, index, file.filename), file.data, contentType),
+        size_bytes: file.data.length,
+      };
+    })
+  );
+}
+
+/**
+ * Attachment records for signed URLs - downloaded later by the pipeline, not during the request
+ */
+export function attachmentsFromUrls(urls: string[]): LeadAttachment[] {
+  return urls.map((url) => ({
+    filename: sanitizeFilename(new URL(url).pathname),
+    content_type: 'application/octet-stream',
+    source: 'url',
+    url,
+    storage_path: null,
+    size_bytes: null,
+  }));
+}
+
+interface ReadAttachment {
+  attachment: LeadAttachment;
+  section: ExtractedAttachments['sections'][number] | null;
+}
+
+/**
+ * An attachment that could not be read, with the reason. The lead goes on without its text.
+ */
+function unreadAttachment(submissionId: string, attachment: LeadAttachment, error: unknown): ReadAttachment {
+  const message = getErrorMessage(error);
+  logger.warn('Lead attachment skipped', { submissionId, filename: attachment.filename, error: message });
+
+  return { attachment: { ...attachment, error: message }, section: null };
+}
+
+/**
+ * Reads every attachment of a submission and extracts its text.
+ * URL attachments are downloaded and stored in the bucket, so the recruiter
+ * keeps the original after the signed URL expires. A file that can't be
+ * downloaded or read gets an error and is left out; storage errors still
+ * fail the step, so it is retried.
+ */
+export async function extractLeadAttachments(formData: FormData): Promise<ExtractedAttachments> {
+  const attachments = formData.attachments ?? [];
+
+  const extracted = await Promise.all(
+    attachments.map(async (attachment, index): Promise<ReadAttachment> => {
+      let file: AttachmentFile;
+      let storagePath = attachment.storage_path;
+
+      if (storagePath) {
+        file = {
+          filename: attachment.filename,
+          content_type: attachment.content_type,
+          data: await downloadLeadAttachment(storagePath),
+        };
+      } else if (attachment.url) {
+        try {
+          file = await downloadAttachment(attachment.url);
+        } catch (error) {
+          // Expired or broken link
+          return unreadAttachment(formData.id, attachment, error);
+        }
+        storagePath = await uploadLeadAttachment(
+          attachmentPath(formData.id, index, file.filename),
+          file.data,
+          file.content_type
+        );
+      } else {
+        return unreadAttachment(formData.id, attachment, new Error('Neither a storage path nor a URL'));
+      }
+
+      const kind = detectAttachmentKind(file);
+      const filename = sanitizeFilename(file.filename);
+      const stored: LeadAttachment = {
+        ...attachment,
+        filename,
+        content_type: kind ? ATTACHMENT_CONTENT_TYPES[kind] : file.content_type,
+        storage_path: storagePath,
+        size_bytes: file.data.length,
+      };
+
+      try {
+        const text = await extractAttachmentText(file);
+        return { attachment: { ...stored, text_chars: text.length }, section: { filename, text } };
+      } catch (error) {
+        return unreadAttachment(formData.id, stored, error);
+      }
+    })
+  );
+
+  logger.info('Lead attachments extracted', {
+    submissionId: formData.id,
+    attachments: extracted.map(({ attachment }) => ({
+      filename: attachment.filename,
+      textChars: attachment.text_chars,
+      ...(attachment.error && { error: attachment.error }),
+    })),
+  });
+
+  return {
+    attachments: extracted.map(({ attachment }) => attachment),
+    sections: extracted.flatMap(({ section }) => (section ? [section] : [])),
+  };
+}
+
+/**
+ * Form data with the extracted attachment text appended to needs_description
+ */
+export function applyExtractedAttachments(formData: FormData, extracted: ExtractedAttachments): FormData {
+  return {
+    ...formData,
+    attachments: extracted.attachments,
+    needs_description: appendAttachmentText(formData.needs_description, extracted.sections),
+  };
+}
@@ -0,0 +1,62 @@
+import { logger } from '../../utils/logger.js';
+import {
+  validateLead,
+  passesValidationGate,
+  extractDomain,
+  normalizeCompanyData,
+} from '../../utils/validator.js';
+import { scoreLead, generateJobAd } from '../aiService.js';
+import type { FormData, LeadDryRunResult } from '../../types/index.js';
+
+// Placeholder company id - no company is looked up or created in a dry run
+const DRY_RUN_COMPANY_ID = 'dry-run';
+
+/**
+ * Runs the qualification steps that don't write anything and returns every intermediate result.
+ * Follows the same path as the real pipeline: fast-rejected leads are not scored, and only
+ * valid leads get domain extraction and a job ad. No Supabase writes, no email.
+ */
+export async function dryRunLeadSubmission(formData: FormData): Promise<LeadDryRunResult> {
+  const validatedData = validateLead(formData);
+  const passes = passesValidationGate(validatedData);
+
+  const result: LeadDryRunResult = {
+    path: 'fast_reject',
+    form_data: formData,
+    validation: {
+      validation_score: validatedData.validation_score,
+      is_likely_spam: validatedData.is_likely_spam,
+      validation_details: validatedData.validation_details,
+      fired_rules: validatedData.fired_rules,
+      rules_version: validatedData.rules_version,
+      passes,
+    },
+    ai_score: null,
+    domain: null,
+    job_ad: null,
+  };
+
+  if (!passes) {
+    logger.info('Dry run - lead would be fast-rejected', { score: validatedData.validation_score });
+    return result;
+  }
+
+  const aiScore = await scoreLead(validatedData);
+  result.ai_score = aiScore;
+  result.path = aiScore.classification;
+
+  if (aiScore.classification === 'valid_lead') {
+    const dataWithDomain = extractDomain({ ...validatedData, ...aiScore });
+    result.domain = {
+      extracted_domain: dataWithDomain.extracted_domain,
+      domain_source: dataWithDomain.domain_source,
+    };
+
+    const normalizedData = normalizeCompanyData(formData, aiScore, { company_id: DRY_RUN_COMPANY_ID });
+    result.job_ad = await generateJobAd(formData, normalizedData);
+  }
+
+  logger.info('Dry run complete', { path: result.path });
+
+  return result;
+}
@@ -0,0 +1,47 @@
+import { logger } from '../../utils/logger.js';
+import { insertLeadOverride } from '../supabaseService.js';
+import { reclassifyLeadSubmission } from './leadPipeline.js';
+import { leadQueue } from './leadWorker.js';
+import type { AIScoreResult, LeadOverrideRecord, LeadPipelineResult, LeadSubmission } from '../../types/index.js';
+import type { LeadOverrideRequestType } from '../../schemas/leads.js';
+
+/**
+ * Applies a manual classification to a processed submission.
+ * Runs the new classification's path (for valid_lead: company, signal, contact,
+ * job ad and email), stores the new result and logs the override with the
+ * model's original verdict.
+ */
+export async function overrideLeadClassification(
+  submission: LeadSubmission,
+  request: LeadOverrideRequestType
+): Promise<{ result: LeadPipelineResult; override: LeadOverrideRecord }> {
+  const previous = submission.result;
+  const scoreStep = submission.steps.score;
+  const aiScore = scoreStep?.status === 'completed' ? (scoreStep.output as AIScoreResult) : null;
+
+  const result = await reclassifyLeadSubmission(submission, request.classification, request.reason, (steps) =>
+    leadQueue.saveSteps(submission.id, steps)
+  );
+
+  await leadQueue.complete(submission.id, result);
+
+  const override = await insertLeadOverride({
+    submission_id: submission.id,
+    previous_classification: previous?.classification ?? 'spam',
+    new_classification: request.classification,
+    reason: request.reason,
+    overridden_by: request.overridden_by ?? null,
+    ai_lead_score: aiScore?.lead_score ?? null,
+    ai_reasoning: aiScore?.ai_reasoning ?? null,
+    result,
+  });
+
+  logger.info('Lead classification overridden', {
+    submissionId: submission.id,
+    from: override.previous_classification,
+    to: override.new_classification,
+    overrideId: override.id,
+  });
+
+  return { result, override };
+}
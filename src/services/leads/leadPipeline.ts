@@ -0,0 +1,490 @@
+import { config } from '../../config/env.js';
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { withRetry } from '../../utils/retry.js';
+import {
+  validateLead,
+  passesValidationGate,
+  extractDomain,
+  normalizeCompanyData,
+  prepareContactData,
+} from '../../utils/validator.js';
+import { scoreLead, generateJobAd } from '../aiService.js';
+import { sumUsage } from '../llm/llmUsage.js';
+import {
+  findOrCreateCompany,
+  createSignal,
+  insertRejectedLead,
+  insertCandidateLead,
+  upsertContact,
+  createJobAdRecord,
+  findRecentLeadMatch,
+  formSignalType,
+} from '../supabaseService.js';
+import { sendEmailToLead, sendRepeatLeadAlert } from '../emailService.js';
+import { extractLeadAttachments, applyExtractedAttachments, type ExtractedAttachments } from './leadAttachments.js';
+import type {
+  AIScoreResult,
+  FormData,
+  LeadClassification,
+  LeadSubmission,
+  LeadPipelineResult,
+  PipelineSteps,
+  JobAdWithCompanyId,
+  ValidatedLead,
+} from '../../types/index.js';
+
+interface StepOptions {
+  // Which errors the step is retried on (default: all)
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Steps that insert or send something. After a 5xx or timeout the write may already have
+// happened, so they are not retried - the call itself has already retried rate limits.
+const WRITE_STEP: StepOptions = { shouldRetry: () => false };
+
+interface PipelineContext {
+  submissionId: string;
+  steps: PipelineSteps;
+  persist: () => Promise<void>;
+  // Namespaces the steps of a re-run (e.g. 'override_2_invalid_lead_') so they don't reuse earlier runs' outputs
+  stepPrefix: string;
+}
+
+/**
+ * Runs one named pipeline step with retries and records its outcome.
+ * Steps already completed in a previous attempt are skipped and their
+ * stored output is reused, so a retried submission resumes where it failed
+ * instead of creating duplicate companies, signals or job ads.
+ */
+async function runStep<T>(
+  ctx: PipelineContext,
+  stepName: string,
+  fn: () => T | Promise<T>,
+  options: StepOptions = {}
+): Promise<T> {
+  const name = `${ctx.stepPrefix}${stepName}`;
+  const previous = ctx.steps[name];
+  if (previous?.status === 'completed') {
+    logger.debug('Skipping completed pipeline step', { submissionId: ctx.submissionId, step: name });
+    return previous.output as T;
+  }
+
+  let attempts = 0;
+
+  try {
+    const output = await withRetry(
+      async () => {
+        attempts++;
+        return await fn();
+      },
+      {
+        retries: config.leadQueue.stepRetries,
+        baseDelayMs: config.leadQueue.stepBackoffMs,
+        shouldRetry: options.shouldRetry,
+        onRetry: (attempt, error, delayMs) => {
+          logger.warn('Pipeline step failed, retrying', {
+            submissionId: ctx.submissionId,
+            step: name,
+            attempt,
+            delayMs,
+            error: getErrorMessage(error),
+          });
+        },
+      }
+    );
+
+    ctx.steps[name] = { status: 'completed', attempts, output, finished_at: new Date().toISOString() };
+    await ctx.persist();
+
+    return output;
+  } catch (error) {
+    ctx.steps[name] = {
+      status: 'failed',
+      attempts,
+      error: getErrorMessage(error),
+      finished_at: new Date().toISOString(),
+    };
+    await ctx.persist();
+
+    throw error;
+  }
+}
+
+/**
+ * Creates the step context of a pipeline run.
+ * Persistence is serialized - parallel steps must not overwrite each other's records.
+ */
+function createPipelineContext(
+  submission: LeadSubmission,
+  saveSteps: (steps: PipelineSteps) => Promise<void>,
+  stepPrefix: string = ''
+): PipelineContext {
+  let persistChain: Promise<void> = Promise.resolve();
+  const ctx: PipelineContext = {
+    submissionId: submission.id,
+    steps: { ...submission.steps },
+    stepPrefix,
+    persist: () => {
+      const snapshot = { ...ctx.steps };
+      persistChain = persistChain.then(() => saveSteps(snapshot));
+      return persistChain;
+    },
+  };
+
+  return ctx;
+}
+
+/**
+ * Runs a queued submission through the full qualification pipeline
+ * Replicates the entire N8n flow (previously inline in the webhook route)
+ */
+export async function processLeadSubmission(
+  submission: LeadSubmission,
+  saveSteps: (steps: PipelineSteps) => Promise<void>
+): Promise<LeadPipelineResult> {
+  const ctx = createPipelineContext(submission, saveSteps);
+
+  // Attached job descriptions are read first - their text counts as part of the needs description
+  const formData = await withAttachmentText(ctx, submission.form_data);
+
+  // Step 1: Lead Data Validation - Validate and check for spam
+  const validatedData = await runStep(ctx, 'validate', () => validateLead(formData));
+
+  // Step 2: If - Check if validation passes
+  if (!passesValidationGate(validatedData)) {
+    // Fast reject path - Insert as spam and return
+    const botReasons = validatedData.bot_check?.passed === false ? validatedData.bot_check.reasons : [];
+
+    logger.warn('Lead failed validation - fast reject', {
+      submissionId: submission.id,
+      score: validatedData.validation_score,
+      isSpam: validatedData.is_likely_spam,
+      botReasons,
+    });
+
+    const rejectedLeadId = await runStep(
+      ctx,
+      'insert_rejected_lead',
+      async () =>
+        (
+          await insertRejectedLead(
+            validatedData,
+            'likely_spam',
+            botReasons.length > 0 ? `Bot check failed: ${botReasons.join(', ')}` : undefined
+          )
+        ).id,
+      WRITE_STEP
+    );
+
+    return {
+      classification: 'spam',
+      message: 'Lead received but classified as spam (fast reject)',
+      rejected_lead_id: rejectedLeadId,
+    };
+  }
+
+  // Step 3: Scoring AI Agent - Get AI classification
+  const aiScore = await runStep(ctx, 'score', () => scoreLead(validatedData));
+
+  logger.info('Classification determined', { submissionId: submission.id, classification: aiScore.classification });
+
+  // Step 4: Switch - Route based on classification
+  return runClassificationPath(ctx, submission, formData, validatedData, aiScore);
+}
+
+// Last step of a finished override - counts the overrides already applied
+const OVERRIDE_DONE_STEP = /^override_\d+_[a-z_]+_done$/;
+
+/**
+ * Step namespace of the next override: override_<n>_<classification>_, n counting finished
+ * overrides. Each override writes its own records; an override that failed part-way
+ * resumes when it is retried with the same classification.
+ */
+export function overrideStepPrefix(steps: PipelineSteps, classification: LeadClassification): string {
+  const finished = Object.entries(steps).filter(
+    ([name, step]) => OVERRIDE_DONE_STEP.test(name) && step.status === 'completed'
+  ).length;
+
+  return `override_${finished + 1}_${classification}_`;
+}
+
+/**
+ * Re-runs the classification paths of a processed submission with a manually set classification.
+ * Validation and AI score are reused from the first run; the score is only requested if the
+ * submission was fast-rejected before scoring. Steps are recorded as override_<n>_<classification>_<step>.
+ */
+export async function reclassifyLeadSubmission(
+  submission: LeadSubmission,
+  classification: LeadClassification,
+  reason: string,
+  saveSteps: (steps: PipelineSteps) => Promise<void>
+): Promise<LeadPipelineResult> {
+  const ctx = createPipelineContext(submission, saveSteps, overrideStepPrefix(submission.steps, classification));
+
+  const previousAttachments = submission.steps.extract_attachments;
+  const formData =
+    previousAttachments?.status === 'completed'
+      ? applyExtractedAttachments(submission.form_data, previousAttachments.output as ExtractedAttachments)
+      : await withAttachmentText(ctx, submission.form_data);
+
+  const previousValidation = submission.steps.validate;
+  const validatedData =
+    previousValidation?.status === 'completed'
+      ? (previousValidation.output as ValidatedLead)
+      : await runStep(ctx, 'validate', () => validateLead(formData));
+
+  const previousScore = submission.steps.score;
+  const aiScore =
+    previousScore?.status === 'completed'
+      ? (previousScore.output as AIScoreResult)
+      : await runStep(ctx, 'score', () => scoreLead(validatedData));
+
+  logger.info('Reclassifying lead', {
+    submissionId: submission.id,
+    from: submission.result?.classification,
+    to: classification,
+  });
+
+  const result = await runClassificationPath(ctx, submission, formData, validatedData, {
+    ...aiScore,
+    classification,
+    ai_reasoning: `Manual override: ${reason}`,
+  });
+
+  await runStep(ctx, 'done', () => true);
+
+  return result;
+}
+
+/**
+ * Extracts the text of attached files and appends it to the needs description
+ */
+async function withAttachmentText(ctx: PipelineContext, formData: FormData): Promise<FormData> {
+  if (!formData.attachments?.length) {
+    return formData;
+  }
+
+  const extracted = await runStep(ctx, 'extract_attachments', () => extractLeadAttachments(formData));
+
+  return applyExtractedAttachments(formData, extracted);
+}
+
+/**
+ * Routes a scored lead to its classification path (N8n Switch node)
+ */
+async function runClassificationPath(
+  ctx: PipelineContext,
+  submission: LeadSubmission,
+  formData: FormData,
+  validatedData: ValidatedLead,
+  aiScore: AIScoreResult
+): Promise<LeadPipelineResult> {
+  const classification = aiScore.classification;
+
+  switch (classification) {
+    case 'valid_lead': {
+      // Valid lead path - Continue to contact creation and job ad generation
+      logger.info('Processing valid lead', { submissionId: submission.id });
+
+      // Step 5: Extract Domain
+      const dataWithDomain = await runStep(ctx, 'extract_domain', () =>
+        extractDomain({ ...validatedData, ...aiScore })
+      );
+
+      // Step 6: Repeat lead lookup - same email or company domain within the window
+      const since = new Date(Date.now() - config.repeatLead.windowDays * 24 * 60 * 60 * 1000);
+      const repeatMatch = await runStep(ctx, 'find_repeat_lead', () =>
+        findRecentLeadMatch({
+          email: dataWithDomain.email,
+          domain: dataWithDomain.domain_source === 'email' ? dataWithDomain.extracted_domain : null,
+          since,
+          excludeSubmissionId: submission.id,
+        })
+      );
+
+      // Step 7: Find or Create Company (a repeat lead is attached to the company it matched)
+      const companyId = repeatMatch
+        ? repeatMatch.company_id
+        : await runStep(ctx, 'find_or_create_company', () =>
+            findOrCreateCompany(
+              dataWithDomain.company_name || '',
+              dataWithDomain.extracted_domain,
+              formData.source || 'website_form',
+              formData.org_number || null
+            )
+          );
+
+      // Step 8: Create Signal (follow-up signal for repeat leads)
+      const signalId = await runStep(
+        ctx,
+        'create_signal',
+        async () =>
+          (
+            await createSignal(
+              companyId,
+              {
+                full_name: dataWithDomain.full_name,
+                email: dataWithDomain.email,
+                phone: dataWithDomain.phone,
+                needs_description: dataWithDomain.needs_description,
+                lead_score: dataWithDomain.lead_score,
+                classification: dataWithDomain.classification,
+                ...(formData.language && { language: formData.language }),
+                ...(formData.attachments?.length && { attachments: formData.attachments }),
+                ...(repeatMatch && { follow_up_of: repeatMatch }),
+              },
+              formSignalType(formData.source || 'website_form', Boolean(repeatMatch)),
+              formData.source || 'website_form',
+              aiScore.ai_provenance
+            )
+          ).id,
+        WRITE_STEP
+      );
+
+      // Step 9: Normalize Company Data
+      const normalizedData = normalizeCompanyData(formData, aiScore, { company_id: companyId });
+
+      // Step 10: Prepare Contact Data
+      const contactData = prepareContactData(formData, normalizedData);
+
+      if (repeatMatch) {
+        // Known lead came back - link the contact, skip a duplicate job ad and alert the admin
+        logger.info('Repeat lead detected', {
+          submissionId: submission.id,
+          companyId,
+          matchedBy: repeatMatch.matched_by,
+        });
+
+        const contactId = await runStep(ctx, 'upsert_contact', async () => (await upsertContact(contactData)).id);
+
+        await runStep(
+          ctx,
+          'send_repeat_lead_alert',
+          async () => (await sendRepeatLeadAlert(formData, repeatMatch))?.id ?? null,
+          WRITE_STEP
+        );
+
+        return {
+          classification: 'valid_lead',
+          message: 'Repeat lead attached to existing company as follow-up',
+          lead_score: normalizedData.lead_score,
+          ai_reasoning: aiScore.ai_reasoning,
+          company_id: companyId,
+          signal_id: signalId,
+          contact_id: contactId,
+          repeat_of: repeatMatch,
+          ai_usage: aiScore.ai_usage,
+        };
+      }
+
+      // Step 11 & 12: Upsert Contact and Generate Job Ad in parallel (independent operations)
+      const [contactId, jobAd] = await Promise.all([
+        runStep(ctx, 'upsert_contact', async () => (await upsertContact(contactData)).id),
+        runStep(ctx, 'generate_job_ad', () => generateJobAd(formData, normalizedData)),
+      ]);
+
+      // Add company_id to job ad data
+      const jobAdWithCompanyId: JobAdWithCompanyId = { ...jobAd, company_id: companyId };
+
+      // Step 13: Create Job Ad Record
+      const jobAdId = await runStep(
+        ctx,
+        'create_job_ad',
+        async () => (await createJobAdRecord(jobAdWithCompanyId, formData, aiScore)).id,
+        WRITE_STEP
+      );
+
+      // Step 14: Send Email to Lead (in the language of the submission)
+      await runStep(
+        ctx,
+        'send_email',
+        async () =>
+          (await sendEmailToLead(formData.email || '', jobAd, formData.company_name || '', formData.language)).id,
+        WRITE_STEP
+      );
+
+      return {
+        classification: 'valid_lead',
+        message: 'Valid lead processed successfully',
+        lead_score: normalizedData.lead_score,
+        ai_reasoning: aiScore.ai_reasoning,
+        job_ad_title: jobAd.title,
+        company_id: companyId,
+        signal_id: signalId,
+        contact_id: contactId,
+        job_ad_id: jobAdId,
+        ai_usage: sumUsage(aiScore.ai_usage, jobAd.ai_usage),
+      };
+    }
+
+    case 'invalid_lead': {
+      // Invalid lead path
+      logger.info('Processing invalid lead', { submissionId: submission.id });
+
+      const rejectedLeadId = await runStep(
+        ctx,
+        'insert_rejected_lead',
+        async () =>
+          (await insertRejectedLead(formData, aiScore.classification, aiScore.ai_reasoning, aiScore.ai_provenance)).id,
+        WRITE_STEP
+      );
+
+      return {
+        classification: 'invalid_lead',
+        message: 'Lead classified as invalid',
+        lead_score: aiScore.lead_score,
+        ai_reasoning: aiScore.ai_reasoning,
+        rejected_lead_id: rejectedLeadId,
+        ai_usage: aiScore.ai_usage,
+      };
+    }
+
+    case 'likely_candidate': {
+      // Candidate path
+      logger.info('Processing likely candidate', { submissionId: submission.id });
+
+      const candidateLeadId = await runStep(
+        ctx,
+        'insert_candidate_lead',
+        async () => (await insertCandidateLead(formData, aiScore)).id,
+        WRITE_STEP
+      );
+
+      return {
+        classification: 'likely_candidate',
+        message: 'Lead classified as job seeker',
+        lead_score: aiScore.lead_score,
+        ai_reasoning: aiScore.ai_reasoning,
+        candidate_lead_id: candidateLeadId,
+        ai_usage: aiScore.ai_usage,
+      };
+    }
+
+    case 'likely_spam': {
+      // Spam path (from AI classification)
+      logger.info('Processing likely spam (AI classified)', { submissionId: submission.id });
+
+      const rejectedLeadId = await runStep(
+        ctx,
+        'insert_rejected_lead',
+        async () =>
+          (await insertRejectedLead(formData, 'likely_spam', aiScore.ai_reasoning, aiScore.ai_provenance)).id,
+        WRITE_STEP
+      );
+
+      return {
+        classification: 'likely_spam',
+        message: 'Lead classified as spam',
+        lead_score: aiScore.lead_score,
+        ai_reasoning: aiScore.ai_reasoning,
+        rejected_lead_id: rejectedLeadId,
+        ai_usage: aiScore.ai_usage,
+      };
+    }
+
+    default: {
+      logger.error('Unknown classification', { classification });
+      throw new Error(`Unknown classification: ${classification}`);
+    }
+  }
+}
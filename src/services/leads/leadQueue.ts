@@ -0,0 +1,177 @@
+import type {
+  FormData,
+  LeadSubmission,
+  LeadPipelineResult,
+  PipelineSteps,
+  WebhookSuccessResponse,
+} from '../../types/index.js';
+
+export interface EnqueueOptions {
+  idempotencyKey?: string | null;
+  correlationId?: string | null;
+  response?: WebhookSuccessResponse;
+  // Store the submission already claimed ('processing', one attempt), so the worker leaves it alone
+  claimed?: boolean;
+}
+
+/**
+ * Storage backend for queued lead submissions.
+ * The worker only talks to this interface, so the in-process queue
+ * and the Supabase (Postgres) queue are interchangeable.
+ */
+export interface LeadQueue {
+  /**
+   * Stores a new pending submission. If another submission already holds the
+   * same idempotency key, that submission is returned instead.
+   */
+  enqueue(id: string, formData: FormData, options?: EnqueueOptions): Promise<LeadSubmission>;
+  get(id: string): Promise<LeadSubmission | null>;
+  findByIdempotencyKey(key: string): Promise<LeadSubmission | null>;
+  releaseIdempotencyKey(id: string): Promise<void>;
+  claimNext(): Promise<LeadSubmission | null>;
+  /**
+   * Claims a specific pending or failed submission for processing, e.g. to replay it.
+   * Null if it is already processing, completed or unknown.
+   */
+  claim(id: string): Promise<LeadSubmission | null>;
+  saveSteps(id: string, steps: PipelineSteps): Promise<void>;
+  complete(id: string, result: LeadPipelineResult): Promise<void>;
+  retryLater(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+  fail(id: string, error: string): Promise<void>;
+  requeueStale(lockedBefore: Date): Promise<number>;
+}
+
+/**
+ * In-process queue for local development and tests.
+ * Submissions are lost on restart - use the Supabase driver in production.
+ */
+export function createMemoryLeadQueue(): LeadQueue {
+  const submissions = new Map<string, LeadSubmission>();
+  const idempotencyKeys = new Map<string, string>();
+
+  function update(id: string, fields: Partial<LeadSubmission>): void {
+    const submission = submissions.get(id);
+    if (!submission) {
+      throw new Error(`Lead submission not found: ${id}`);
+    }
+    submissions.set(id, { ...submission, ...fields, updated_at: new Date().toISOString() });
+  }
+
+  return {
+    async enqueue(id, formData, options = {}) {
+      const idempotencyKey = options.idempotencyKey || null;
+
+      if (idempotencyKey) {
+        const existingId = idempotencyKeys.get(idempotencyKey);
+        const existing = existingId ? submissions.get(existingId) : undefined;
+        if (existing) {
+          return existing;
+        }
+        idempotencyKeys.set(idempotencyKey, id);
+      }
+
+      const now = new Date().toISOString();
+      const submission: LeadSubmission = {
+        id,
+        status: options.claimed ? 'processing' : 'pending',
+        form_data: formData,
+        idempotency_key: idempotencyKey,
+        correlation_id: options.correlationId || null,
+        response: options.response || null,
+        attempts: options.claimed ? 1 : 0,
+        next_attempt_at: now,
+        locked_at: options.claimed ? now : null,
+        steps: {},
+        result: null,
+        last_error: null,
+        created_at: now,
+        updated_at: now,
+      };
+      submissions.set(id, submission);
+      return submission;
+    },
+
+    async get(id) {
+      return submissions.get(id) || null;
+    },
+
+    async findByIdempotencyKey(key) {
+      const id = idempotencyKeys.get(key);
+      return id ? submissions.get(id) || null : null;
+    },
+
+    async releaseIdempotencyKey(id) {
+      const submission = submissions.get(id);
+      if (submission?.idempotency_key) {
+        idempotencyKeys.delete(submission.idempotency_key);
+        update(id, { idempotency_key: null });
+      }
+    },
+
+    async claimNext() {
+      const now = Date.now();
+      // Map preserves insertion order, so this is oldest-first
+      for (const submission of submissions.values()) {
+        if (submission.status === 'pending' && Date.parse(submission.next_attempt_at) <= now) {
+          update(submission.id, {
+            status: 'processing',
+            attempts: submission.attempts + 1,
+            locked_at: new Date(now).toISOString(),
+          });
+          return submissions.get(submission.id) || null;
+        }
+      }
+      return null;
+    },
+
+    async claim(id) {
+      const submission = submissions.get(id);
+      if (!submission || (submission.status !== 'pending' && submission.status !== 'failed')) {
+        return null;
+      }
+
+      update(id, {
+        status: 'processing',
+        attempts: submission.attempts + 1,
+        locked_at: new Date().toISOString(),
+      });
+      return submissions.get(id) || null;
+    },
+
+    async saveSteps(id, steps) {
+      update(id, { steps: { ...steps } });
+    },
+
+    async complete(id, result) {
+      update(id, { status: 'completed', result, last_error: null, locked_at: null });
+    },
+
+    async retryLater(id, error, nextAttemptAt) {
+      update(id, {
+        status: 'pending',
+        last_error: error,
+        next_attempt_at: nextAttemptAt.toISOString(),
+        locked_at: null,
+      });
+    },
+
+    async fail(id, error) {
+      update(id, { status: 'failed', last_error: error, locked_at: null });
+    },
+
+    async requeueStale(lockedBefore) {
+      let count = 0;
+      for (const submission of submissions.values()) {
+        if (
+          submission.status === 'processing' &&
+          submission.locked_at &&
+          Date.parse(submission.locked_at) < lockedBefore.getTime()
+        ) {
+          update(submission.id, { status: 'pending', locked_at: null });
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { getCorrelationId } from '../../utils/requestContext.js';
+import {
+  listProcessingErrorLeads,
+  claimProcessingErrorLead,
+  releaseProcessingErrorLead,
+} from '../supabaseService.js';
+import { processLeadSubmission } from './leadPipeline.js';
+import { leadQueue } from './leadWorker.js';
+import type {
+  FormData,
+  LeadReplayItem,
+  LeadReplayReport,
+  LeadSubmission,
+  RejectedLeadRecord,
+} from '../../types/index.js';
+
+// Rows replayed per run unless a limit is given - each row runs the full pipeline
+const DEFAULT_REPLAY_LIMIT = 25;
+
+/**
+ * Rebuilds form data from a rejected_leads row, for rows saved before they were linked
+ * to their submission. Industry, service type and subject are not stored there and are lost.
+ */
+function toFormData(row: RejectedLeadRecord, submissionId: string): FormData {
+  return {
+    id: submissionId,
+    full_name: row.full_name,
+    email: row.email,
+    phone: row.phone,
+    company_name: row.company_name,
+    needs_description: row.submitted_description,
+    source: row.source,
+  };
+}
+
+/**
+ * Replays a single processing_error row by re-running its queued submission.
+ * Steps completed before the failure are reused, and the outcome is stored on the
+ * submission (GET /api/leads/:id). The row is marked recovered before anything is
+ * queued, so concurrent replays skip it, and released again if the pipeline fails.
+ * Rows without a submission get a new one rebuilt from the row, stored already
+ * claimed so the worker never picks it up.
+ */
+async function replayRow(row: RejectedLeadRecord): Promise<LeadReplayItem> {
+  if (row.recovered_at) {
+    return { rejected_lead_id: row.id, status: 'skipped', message: `Already recovered at ${row.recovered_at}` };
+  }
+
+  const existing = row.submission_id ? await leadQueue.get(row.submission_id) : null;
+  const submissionId = existing?.id ?? uuidv4();
+  const claimed = await claimProcessingErrorLead(row.id, submissionId);
+
+  if (!claimed) {
+    return { rejected_lead_id: row.id, status: 'skipped', message: 'Already recovered by another replay' };
+  }
+
+  let submission: LeadSubmission | null;
+
+  try {
+    submission = existing
+      ? await leadQueue.claim(submissionId)
+      : await leadQueue.enqueue(submissionId, toFormData(row, submissionId), {
+          correlationId: getCorrelationId() ?? null,
+          claimed: true,
+        });
+  } catch (error) {
+    await releaseProcessingErrorLead(row.id);
+    throw error;
+  }
+
+  if (!submission) {
+    // Picked up by the worker or already processed - the row stays marked
+    return {
+      rejected_lead_id: row.id,
+      status: 'skipped',
+      submission_id: submissionId,
+      message: 'Submission is already being processed',
+    };
+  }
+
+  try {
+    const result = await processLeadSubmission(submission, (steps) => leadQueue.saveSteps(submissionId, steps));
+    await leadQueue.complete(submissionId, result);
+
+    logger.info('Processing error lead recovered', {
+      rejectedLeadId: row.id,
+      submissionId,
+      classification: result.classification,
+    });
+
+    return {
+      rejected_lead_id: row.id,
+      status: 'recovered',
+      submission_id: submissionId,
+      classification: result.classification,
+      message: result.message,
+    };
+  } catch (error) {
+    logger.error('Processing error lead replay failed', error, { rejectedLeadId: row.id, submissionId });
+
+    try {
+      // Completed steps stay on the submission - the next replay resumes from there
+      await leadQueue.fail(submissionId, getErrorMessage(error));
+      await releaseProcessingErrorLead(row.id);
+    } catch (releaseError) {
+      logger.error('Failed to release processing error lead', releaseError, { rejectedLeadId: row.id });
+    }
+
+    return {
+      rejected_lead_id: row.id,
+      status: 'failed',
+      submission_id: submissionId,
+      message: getErrorMessage(error),
+    };
+  }
+}
+
+/**
+ * Builds the summary report of a replay run
+ */
+function summarizeReplay(startedAt: string, items: LeadReplayItem[]): LeadReplayReport {
+  const byClassification: Record<string, number> = {};
+  for (const item of items) {
+    if (item.classification) {
+      byClassification[item.classification] = (byClassification[item.classification] ?? 0) + 1;
+    }
+  }
+
+  return {
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    total: items.length,
+    recovered: items.filter((item) => item.status === 'recovered').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    skipped: items.filter((item) => item.status === 'skipped').length,
+    by_classification: byClassification,
+    items,
+  };
+}
+
+/**
+ * Re-runs the full qualification pipeline on processing_error rows, one at a time.
+ * With `ids`, only those rows are replayed (already recovered ones are reported as skipped);
+ * otherwise the oldest unrecovered rows up to `limit`.
+ */
+export async function replayProcessingErrorLeads(
+  options: { ids?: string[]; limit?: number } = {}
+): Promise<LeadReplayReport> {
+  const startedAt = new Date().toISOString();
+  const limit = options.limit ?? (options.ids ? options.ids.length : DEFAULT_REPLAY_LIMIT);
+
+  const rows = await listProcessingErrorLeads({
+    ids: options.ids,
+    includeRecovered: Boolean(options.ids),
+    limit,
+  });
+
+  logger.info('Replaying processing error leads', { count: rows.length, requested: options.ids?.length });
+
+  const items: LeadReplayItem[] = [];
+
+  for (const row of rows) {
+    items.push(await replayRow(row));
+  }
+
+  // Requested ids that aren't processing_error rows
+  for (const id of options.ids ?? []) {
+    if (!rows.some((row) => row.id === id)) {
+      items.push({ rejected_lead_id: id, status: 'skipped', message: 'Not found or not a processing_error lead' });
+    }
+  }
+
+  const report = summarizeReplay(startedAt, items);
+
+  logger.info('Processing error replay finished', {
+    total: report.total,
+    recovered: report.recovered,
+    failed: report.failed,
+    skipped: report.skipped,
+  });
+
+  return report;
+}
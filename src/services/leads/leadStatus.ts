@@ -0,0 +1,68 @@
+import type { ExtractedAttachments } from './leadAttachments.js';
+import type {
+  AIScoreResult,
+  LeadDestination,
+  LeadPipelineResult,
+  LeadStatus,
+  LeadSubmission,
+} from '../../types/index.js';
+
+/**
+ * Output of a completed pipeline step, if it ran
+ */
+function stepOutput<T>(submission: LeadSubmission, name: string): T | null {
+  const step = submission.steps[name];
+  return step?.status === 'completed' ? ((step.output as T) ?? null) : null;
+}
+
+/**
+ * Table the submission's outcome was written to.
+ * Submissions that failed permanently are saved to rejected_leads as processing_error.
+ */
+function resolveDestination(submission: LeadSubmission, result: LeadPipelineResult | null): LeadDestination | null {
+  if (result?.job_ad_id) return 'job_ads';
+  if (result?.repeat_of) return 'signals';
+  if (result?.candidate_lead_id) return 'candidate_leads';
+  if (result?.rejected_lead_id || submission.status === 'failed') return 'rejected_leads';
+  return null;
+}
+
+/**
+ * Builds the status view of a submission.
+ * While a submission is still running (or after it failed), ids and the AI score
+ * are taken from the steps completed so far.
+ */
+export function toLeadStatus(submission: LeadSubmission): LeadStatus {
+  const result = submission.result;
+  const score = stepOutput<AIScoreResult>(submission, 'score');
+
+  return {
+    id: submission.id,
+    status: submission.status,
+    source: submission.form_data.source || 'website_form',
+    correlation_id: submission.correlation_id ?? null,
+    attempts: submission.attempts,
+    classification: result?.classification ?? score?.classification ?? null,
+    lead_score: result?.lead_score ?? score?.lead_score ?? null,
+    ai_reasoning: result?.ai_reasoning ?? score?.ai_reasoning ?? null,
+    ai_provenance: score?.ai_provenance ?? null,
+    ai_usage: result?.ai_usage ?? score?.ai_usage ?? null,
+    destination: resolveDestination(submission, result),
+    company_id: result?.company_id ?? stepOutput<string>(submission, 'find_or_create_company'),
+    signal_id: result?.signal_id ?? stepOutput<string>(submission, 'create_signal'),
+    contact_id: result?.contact_id ?? stepOutput<string>(submission, 'upsert_contact'),
+    job_ad_id: result?.job_ad_id ?? stepOutput<string>(submission, 'create_job_ad'),
+    rejected_lead_id: result?.rejected_lead_id ?? stepOutput<string>(submission, 'insert_rejected_lead'),
+    candidate_lead_id: result?.candidate_lead_id ?? stepOutput<string>(submission, 'insert_candidate_lead'),
+    repeat_of: result?.repeat_of ?? null,
+    language: submission.form_data.language ?? null,
+    attachments:
+      stepOutput<ExtractedAttachments>(submission, 'extract_attachments')?.attachments ??
+      submission.form_data.attachments ??
+      [],
+    steps: submission.steps,
+    last_error: submission.last_error,
+    created_at: submission.created_at,
+    updated_at: submission.updated_at,
+  };
+}
@@ -0,0 +1,237 @@
+import { config } from '../../config/env.js';
+import { logger, getErrorMessage, maskEmail } from '../../utils/logger.js';
+import { computeBackoffDelay } from '../../utils/retry.js';
+import { runWithContext } from '../../utils/requestContext.js';
+import { insertRejectedLead } from '../supabaseService.js';
+import { sendAdminAlert } from '../emailService.js';
+import { processLeadSubmission } from './leadPipeline.js';
+import { createMemoryLeadQueue, type LeadQueue, type EnqueueOptions } from './leadQueue.js';
+import { createSupabaseLeadQueue } from './supabaseLeadQueue.js';
+import type { FormData, LeadSubmission } from '../../types/index.js';
+
+export const leadQueue: LeadQueue =
+  config.leadQueue.driver === 'memory' ? createMemoryLeadQueue() : createSupabaseLeadQueue();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let running = false;
+let polling: Promise<void> | null = null;
+
+/**
+ * Persist a submission and wake the worker.
+ * Returns as soon as the submission is stored - processing happens in the background.
+ * If the idempotency key is already taken, the existing submission is returned and nothing is queued.
+ */
+export async function enqueueLeadSubmission(
+  id: string,
+  formData: FormData,
+  options: EnqueueOptions = {}
+): Promise<LeadSubmission> {
+  const submission = await leadQueue.enqueue(id, formData, options);
+
+  if (submission.id !== id) {
+    logger.info('Duplicate submission - idempotency key already queued', { submissionId: submission.id });
+    return submission;
+  }
+
+  logger.info('Lead submission queued', {
+    submissionId: id,
+    driver: config.leadQueue.driver,
+    email: maskEmail(formData.email),
+  });
+
+  if (running) {
+    schedulePoll(0);
+  }
+
+  return submission;
+}
+
+/**
+ * Find the submission a replayed request should resolve to.
+ * Keys older than the idempotency window are released so the request is processed as new.
+ */
+export async function findRecentSubmissionByIdempotencyKey(key: string): Promise<LeadSubmission | null> {
+  const existing = await leadQueue.findByIdempotencyKey(key);
+
+  if (!existing) {
+    return null;
+  }
+
+  const ageMs = Date.now() - Date.parse(existing.created_at);
+  if (ageMs > config.webhook.idempotencyWindowMs) {
+    logger.info('Idempotency key expired, releasing', { submissionId: existing.id, ageMs });
+    await leadQueue.releaseIdempotencyKey(existing.id);
+    return null;
+  }
+
+  return existing;
+}
+
+/**
+ * Handles a submission whose pipeline threw.
+ * Retries later with exponential backoff until maxAttempts is reached,
+ * then saves the form data to rejected_leads and alerts the admin.
+ */
+async function handleFailure(submission: LeadSubmission, error: unknown): Promise<void> {
+  const errorMessage = getErrorMessage(error);
+
+  if (submission.attempts < config.leadQueue.maxAttempts) {
+    const delayMs = computeBackoffDelay(submission.attempts, config.leadQueue.retryBackoffMs, 60 * 60 * 1000);
+
+    logger.warn('Lead submission failed, scheduling retry', {
+      submissionId: submission.id,
+      attempts: submission.attempts,
+      maxAttempts: config.leadQueue.maxAttempts,
+      delayMs,
+      error: errorMessage,
+    });
+
+    await leadQueue.retryLater(submission.id, errorMessage, new Date(Date.now() + delayMs));
+    return;
+  }
+
+  logger.error('Lead submission failed permanently', error, {
+    submissionId: submission.id,
+    attempts: submission.attempts,
+  });
+
+  await leadQueue.fail(submission.id, errorMessage);
+
+  // Save form data to rejected_leads so it's not lost
+  try {
+    await insertRejectedLead(
+      submission.form_data,
+      'processing_error',
+      `Processing error: ${errorMessage}`,
+      null,
+      submission.id
+    );
+    logger.info('Form data saved to rejected_leads after processing failure', { submissionId: submission.id });
+  } catch (saveError) {
+    logger.error('Failed to save form data after error', saveError);
+    // Continue anyway - we'll still send the alert
+  }
+
+  // Send admin alert email with form data and error details
+  try {
+    await sendAdminAlert(submission.form_data, error, 'webhook_processing');
+  } catch (alertError) {
+    logger.error('Failed to send admin alert', alertError);
+  }
+}
+
+/**
+ * Claim and process a single submission. Returns false when the queue is empty.
+ * The submission runs under the correlation ID of the webhook call that queued it.
+ */
+export async function processNextLeadSubmission(): Promise<boolean> {
+  const submission = await leadQueue.claimNext();
+
+  if (!submission) {
+    return false;
+  }
+
+  await runWithContext({ correlationId: submission.correlation_id || submission.id }, () =>
+    processClaimedSubmission(submission)
+  );
+
+  return true;
+}
+
+async function processClaimedSubmission(submission: LeadSubmission): Promise<void> {
+  const startTime = Date.now();
+  logger.info('Processing lead submission', { submissionId: submission.id, attempt: submission.attempts });
+
+  try {
+    const result = await processLeadSubmission(submission, (steps) => leadQueue.saveSteps(submission.id, steps));
+    await leadQueue.complete(submission.id, result);
+
+    logger.info('Lead submission processed', {
+      submissionId: submission.id,
+      classification: result.classification,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    try {
+      await handleFailure(submission, error);
+    } catch (handlingError) {
+      // Row stays in 'processing' and is picked up again by requeueStale
+      logger.error('Failed to record lead submission failure', handlingError, { submissionId: submission.id });
+    }
+  }
+}
+
+/**
+ * Drain the queue, then schedule the next poll
+ */
+async function poll(): Promise<void> {
+  try {
+    await leadQueue.requeueStale(new Date(Date.now() - config.leadQueue.staleAfterMs));
+
+    while (running && (await processNextLeadSubmission())) {
+      // Keep draining until the queue is empty
+    }
+  } catch (error) {
+    logger.error('Lead worker poll failed', error);
+  }
+}
+
+function schedulePoll(delayMs: number): void {
+  if (!running) return;
+
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+  }
+
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+
+    // A poll is already draining the queue - it will pick up new submissions
+    if (polling) return;
+
+    polling = poll().finally(() => {
+      polling = null;
+      schedulePoll(config.leadQueue.pollIntervalMs);
+    });
+  }, delayMs);
+}
+
+/**
+ * Start the background worker
+ */
+export function startLeadWorker(): void {
+  if (running) return;
+
+  if (!config.leadQueue.workerEnabled) {
+    logger.warn('Lead worker disabled - submissions will stay queued');
+    return;
+  }
+
+  running = true;
+  logger.info('Lead worker started', {
+    driver: config.leadQueue.driver,
+    pollIntervalMs: config.leadQueue.pollIntervalMs,
+  });
+
+  schedulePoll(0);
+}
+
+/**
+ * Stop polling and wait for the in-flight submission to finish
+ */
+export async function stopLeadWorker(): Promise<void> {
+  if (!running) return;
+
+  running = false;
+
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  if (polling) {
+    await polling;
+  }
+
+  logger.info('Lead worker stopped');
+}
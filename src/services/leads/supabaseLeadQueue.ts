@@ -0,0 +1,46 @@
+import {
+  insertLeadSubmission,
+  getLeadSubmission,
+  findLeadSubmissionByIdempotencyKey,
+  claimNextLeadSubmission,
+  claimLeadSubmission,
+  updateLeadSubmission,
+  requeueStaleLeadSubmissions,
+} from '../supabaseService.js';
+import type { LeadQueue } from './leadQueue.js';
+
+/**
+ * Durable queue backed by the lead_submissions table in Supabase.
+ * Pending rows survive restarts; rows left in 'processing' by a crashed
+ * worker are returned to the queue by requeueStale().
+ */
+export function createSupabaseLeadQueue(): LeadQueue {
+  return {
+    enqueue: (id, formData, options = {}) =>
+      insertLeadSubmission(
+        id,
+        formData,
+        options.idempotencyKey || null,
+        options.response || null,
+        options.correlationId || null,
+        options.claimed ?? false
+      ),
+    get: (id) => getLeadSubmission(id),
+    findByIdempotencyKey: (key) => findLeadSubmissionByIdempotencyKey(key),
+    releaseIdempotencyKey: (id) => updateLeadSubmission(id, { idempotency_key: null }),
+    claimNext: () => claimNextLeadSubmission(),
+    claim: (id) => claimLeadSubmission(id),
+    saveSteps: (id, steps) => updateLeadSubmission(id, { steps }),
+    complete: (id, result) =>
+      updateLeadSubmission(id, { status: 'completed', result, last_error: null, locked_at: null }),
+    retryLater: (id, error, nextAttemptAt) =>
+      updateLeadSubmission(id, {
+        status: 'pending',
+        last_error: error,
+        next_attempt_at: nextAttemptAt.toISOString(),
+        locked_at: null,
+      }),
+    fail: (id, error) => updateLeadSubmission(id, { status: 'failed', last_error: error, locked_at: null }),
+    requeueStale: (lockedBefore) => requeueStaleLeadSubmissions(lockedBefore),
+  };
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { config } from '../../config/env.js';
+import { getErrorMessage } from '../../utils/logger.js';
+import { formatValidationErrors } from '../../schemas/webhook.js';
+import { FakeAIRulesSchema, type FakeAIRule, type FakeAIRules } from '../../schemas/fakeAIRules.js';
+import { computeFixtureKey } from './recordedRouter.js';
+import bundledRules from '../../config/llm/fake-ai-rules.json' with { type: 'json' };
+import type { LLMRouter } from './llmRouter.js';
+import type { LLMFixtures } from '../../types/eval.types.js';
+
+/**
+ * Parses and checks a fake AI rules document. Throws with the validation errors if it is invalid.
+ */
+export function parseFakeAIRules(raw: unknown): FakeAIRules {
+  const result = FakeAIRulesSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`Invalid fake AI rules: ${formatValidationErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Rules from FAKE_AI_RULES_PATH, or the bundled src/config/llm/fake-ai-rules.json
+ */
+export function loadFakeAIRules(path: string | undefined = config.llm.fakeRulesPath): FakeAIRules {
+  if (!path) {
+    return parseFakeAIRules(bundledRules);
+  }
+
+  try {
+    return parseFakeAIRules(JSON.parse(fs.readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(`Failed to load fake AI rules from ${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Recorded replies from FAKE_AI_FIXTURES_PATH (a file written by `npm run eval -- --mode record`), or none
+ */
+export function loadFakeAIFixtures(path: string | undefined = config.llm.fakeFixturesPath): LLMFixtures {
+  if (!path) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(path, 'utf8')) as LLMFixtures;
+  } catch (error) {
+    throw new Error(`Failed to load fake AI fixtures from ${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Whether the keyword occurs in the text as a whole word (or phrase), ignoring case
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * First rule with a keyword in the text
+ */
+export function matchFakeAIRule(rules: FakeAIRule[], text: string): FakeAIRule | undefined {
+  return rules.find((rule) => rule.keywords.some((keyword) => containsKeyword(text, keyword)));
+}
+
+/**
+ * Deterministic offline router: answers with the recorded fixture for the exact messages
+ * when there is one, else with the reply of the first rule whose keyword is in the user
+ * prompt, else with the task's default reply. Repair calls get the same answer.
+ */
+export function createFakeLLMRouter(rules: FakeAIRules, fixtures: LLMFixtures = {}): LLMRouter {
+  return {
+    async complete(task, messages) {
+      const fixture = fixtures[computeFixtureKey(task, messages)];
+
+      if (fixture) {
+        const { task: _task, ...completion } = fixture;
+        return completion;
+      }
+
+      // The first user message is the rendered prompt - later ones are repair requests
+      const prompt = messages.find((message) => message.role === 'user')?.content ?? '';
+      const taskRules = rules.tasks[task];
+      const reply = matchFakeAIRule(taskRules.rules, prompt)?.reply ?? taskRules.default;
+
+      return { content: JSON.stringify(reply), provider: 'fake', model: 'fake' };
+    },
+  };
+}
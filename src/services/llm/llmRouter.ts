@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { config } from '../../config/env.js';
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { formatValidationErrors } from '../../schemas/webhook.js';
+import { LLMRoutesSchema, type LLMRoutes } from '../../schemas/llmRoutes.js';
+import { createLLMProviders } from './providers.js';
+import { createFakeLLMRouter, loadFakeAIFixtures, loadFakeAIRules } from './fakeRouter.js';
+import bundledRoutes from '../../config/llm/llm-routes.json' with { type: 'json' };
+import type {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMTask,
+} from '../../types/llm.types.js';
+
+export interface LLMRouter {
+  /**
+   * Sends the messages to the task's targets in order until one answers.
+   * Targets whose provider isn't configured are skipped.
+   */
+  complete(task: LLMTask, messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+}
+
+/**
+ * Parses and checks a routes document. Throws with the validation errors if it is invalid.
+ */
+export function parseLLMRoutes(raw: unknown): LLMRoutes {
+  const result = LLMRoutesSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`Invalid LLM routes: ${formatValidationErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Routes from LLM_ROUTES_PATH, or the bundled src/config/llm/llm-routes.json
+ */
+export function loadLLMRoutes(path: string | undefined = config.llm.routesPath): LLMRoutes {
+  if (!path) {
+    return parseLLMRoutes(bundledRoutes);
+  }
+
+  try {
+    return parseLLMRoutes(JSON.parse(fs.readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(`Failed to load LLM routes from ${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Router over the given routes and providers
+ */
+export function createLLMRouter(routes: LLMRoutes, providers: Map<string, LLMProvider>): LLMRouter {
+  return {
+    async complete(task, messages, options = {}) {
+      const failures: string[] = [];
+
+      for (const target of routes.tasks[task]) {
+        const provider = providers.get(target.provider);
+        if (!provider) {
+          continue;
+        }
+
+        try {
+          const { content, usage } = await provider.complete({
+            model: target.model,
+            messages,
+            temperature: target.temperature,
+            responseFormat: options.responseFormat,
+          });
+
+          if (failures.length > 0) {
+            logger.info('LLM fallback target answered', { task, provider: target.provider, model: target.model });
+          }
+
+          return { content, provider: target.provider, model: target.model, ...(usage && { usage }) };
+        } catch (error) {
+          logger.warn('LLM target failed, trying next', {
+            task,
+            provider: target.provider,
+            model: target.model,
+            error: getErrorMessage(error),
+          });
+          failures.push(`${target.provider}/${target.model}: ${getErrorMessage(error)}`);
+        }
+      }
+
+      if (failures.length === 0) {
+        throw new Error(`No configured LLM provider for ${task}`);
+      }
+
+      throw new Error(`All LLM targets failed for ${task} - ${failures.join('; ')}`);
+    },
+  };
+}
+
+let defaultRouter: LLMRouter | null = null;
+
+/**
+ * Router for the configured routes file and the providers set up in the environment,
+ * or the fake router with AI_PROVIDER=fake.
+ * Built on first use; an invalid routes or rules file throws here rather than at import.
+ */
+export function getLLMRouter(): LLMRouter {
+  if (!defaultRouter) {
+    if (config.llm.aiProvider === 'fake') {
+      logger.info('Using fake AI provider', { rulesPath: config.llm.fakeRulesPath ?? 'bundled' });
+      defaultRouter = createFakeLLMRouter(loadFakeAIRules(), loadFakeAIFixtures());
+    } else {
+      const routes = loadLLMRoutes();
+      defaultRouter = createLLMRouter(routes, createLLMProviders(routes.providers));
+    }
+  }
+
+  return defaultRouter;
+}
+
+/**
+ * Replaces the router used by the AI tasks - the evaluation harness swaps in a
+ * recording or replaying router. null goes back to the configured one.
+ */
+export function setLLMRouter(router: LLMRouter | null): void {
+  defaultRouter = router;
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { config } from '../../config/env.js';
+import { getErrorMessage } from '../../utils/logger.js';
+import { formatValidationErrors } from '../../schemas/webhook.js';
+import { LLMPricesSchema, type LLMPrices } from '../../schemas/llmPrices.js';
+import bundledPrices from '../../config/llm/llm-prices.json' with { type: 'json' };
+import type { AIUsage, LLMUsage } from '../../types/llm.types.js';
+
+/**
+ * Parses and checks a price table. Throws with the validation errors if it is invalid.
+ */
+export function parseLLMPrices(raw: unknown): LLMPrices {
+  const result = LLMPricesSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`Invalid LLM prices: ${formatValidationErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Prices from LLM_PRICES_PATH, or the bundled src/config/llm/llm-prices.json
+ */
+export function loadLLMPrices(path: string | undefined = config.llm.pricesPath): LLMPrices {
+  if (!path) {
+    return parseLLMPrices(bundledPrices);
+  }
+
+  try {
+    return parseLLMPrices(JSON.parse(fs.readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(`Failed to load LLM prices from ${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+let defaultPrices: LLMPrices | null = null;
+
+/**
+ * Configured price table, read on first use
+ */
+export function getLLMPrices(): LLMPrices {
+  if (!defaultPrices) {
+    defaultPrices = loadLLMPrices();
+  }
+
+  return defaultPrices;
+}
+
+/**
+ * Usage of no AI calls
+ */
+export function emptyUsage(): AIUsage {
+  return { calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0, unpriced_calls: 0 };
+}
+
+/**
+ * Token counts and estimated cost of one call to a model
+ */
+export function toAIUsage(model: string, usage: LLMUsage | undefined, prices: LLMPrices = getLLMPrices()): AIUsage {
+  const price = prices.models[model];
+
+  if (!usage) {
+    return { ...emptyUsage(), calls: 1, unpriced_calls: 1 };
+  }
+
+  return {
+    calls: 1,
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+    cost_usd: price
+      ? (usage.prompt_tokens * price.input_usd_per_million + usage.completion_tokens * price.output_usd_per_million) /
+        1_000_000
+      : 0,
+    unpriced_calls: price ? 0 : 1,
+  };
+}
+
+/**
+ * Adds up usage totals - missing entries (results from before usage tracking, cache hits) count as nothing
+ */
+export function sumUsage(...usages: Array<AIUsage | null | undefined>): AIUsage {
+  return usages.reduce<AIUsage>(
+    (total, usage) =>
+      usage
+        ? {
+            calls: total.calls + usage.calls,
+            prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+            completion_tokens: total.completion_tokens + usage.completion_tokens,
+            total_tokens: total.total_tokens + usage.total_tokens,
+            cost_usd: total.cost_usd + usage.cost_usd,
+            unpriced_calls: total.unpriced_calls + usage.unpriced_calls,
+          }
+        : total,
+    emptyUsage()
+  );
+}
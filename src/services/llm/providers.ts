@@ -0,0 +1,108 @@
+import OpenAI from 'openai';
+import { logger } from '../../utils/logger.js';
+import { callExternal } from '../../utils/resilience.js';
+import type { LLMProviderConfig } from '../../schemas/llmRoutes.js';
+import type {
+  LLMProvider,
+  LLMResponseFormat,
+  LLMResponseFormatMode,
+} from '../../types/llm.types.js';
+
+// OpenAI-compatible local servers (Ollama, LM Studio, vLLM) accept any key, but the SDK requires one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+/**
+ * The response_format parameter for a provider, or undefined when it only gets the prompt
+ */
+export function toResponseFormatParam(
+  mode: LLMResponseFormatMode,
+  format: LLMResponseFormat | undefined
+): OpenAI.ChatCompletionCreateParams['response_format'] {
+  if (!format || mode === 'none') {
+    return undefined;
+  }
+
+  if (mode === 'json_object') {
+    return { type: 'json_object' };
+  }
+
+  return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: true } };
+}
+
+/**
+ * Chat completion provider for any OpenAI-compatible API: OpenAI itself, OpenRouter or a local server.
+ * Calls run under the llm timeout/retry policy with a circuit breaker per provider (llm:<name>),
+ * so a provider that is down fails fast and the router moves on to the next target.
+ */
+export function createOpenAICompatibleProvider(
+  name: string,
+  options: { apiKey: string; baseURL?: string; responseFormat?: LLMResponseFormatMode }
+): LLMProvider {
+  // Retries are done by callExternal, not by the SDK
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+
+  return {
+    name,
+    async complete({ model, messages, temperature, responseFormat }) {
+      const response = await callExternal(
+        'llm',
+        (signal) =>
+          client.chat.completions.create(
+            {
+              model,
+              messages,
+              temperature,
+              response_format: toResponseFormatParam(options.responseFormat ?? 'none', responseFormat),
+            },
+            { signal }
+          ),
+        { breaker: `llm:${name}` }
+      );
+      const content = response.choices[0]?.message.content;
+
+      if (!content) {
+        throw new Error(`No content in ${name} response`);
+      }
+
+      return {
+        content,
+        usage: response.usage && {
+          prompt_tokens: response.usage.prompt_tokens,
+          completion_tokens: response.usage.completion_tokens,
+          total_tokens: response.usage.total_tokens,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Builds the providers of the routes file whose API key and endpoint are set in the environment.
+ * Providers missing either are left out, and routes skip their targets.
+ */
+export function createLLMProviders(
+  providers: Record<string, LLMProviderConfig>,
+  env: NodeJS.ProcessEnv = process.env
+): Map<string, LLMProvider> {
+  const available = new Map<string, LLMProvider>();
+
+  for (const [name, provider] of Object.entries(providers)) {
+    const apiKey = provider.api_key_env ? env[provider.api_key_env] : PLACEHOLDER_API_KEY;
+    const baseURL = provider.base_url_env ? env[provider.base_url_env] : provider.base_url;
+
+    if (!apiKey || (provider.base_url_env && !baseURL)) {
+      logger.debug('LLM provider not configured, skipping', {
+        provider: name,
+        missing: !apiKey ? provider.api_key_env : provider.base_url_env,
+      });
+      continue;
+    }
+
+    available.set(
+      name,
+      createOpenAICompatibleProvider(name, { apiKey, baseURL, responseFormat: provider.response_format })
+    );
+  }
+
+  return available;
+}
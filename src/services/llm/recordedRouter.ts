@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import type { LLMRouter } from './llmRouter.js';
+import type { LLMMessage, LLMTask } from '../../types/llm.types.js';
+import type { LLMFixtures } from '../../types/eval.types.js';
+
+/**
+ * Fixture key of a completion: sha256 of the task and the exact messages sent.
+ * A prompt edit changes the messages, so old recordings stop matching.
+ */
+export function computeFixtureKey(task: LLMTask, messages: LLMMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify([task, messages])).digest('hex');
+}
+
+/**
+ * Passes calls through to a router and saves every reply in fixtures (mutated in place)
+ */
+export function createRecordingLLMRouter(router: LLMRouter, fixtures: LLMFixtures): LLMRouter {
+  return {
+    async complete(task, messages, options) {
+      const completion = await router.complete(task, messages, options);
+      fixtures[computeFixtureKey(task, messages)] = { task, ...completion };
+      return completion;
+    },
+  };
+}
+
+/**
+ * Answers from recorded fixtures only - no network. Unrecorded calls throw.
+ */
+export function createReplayLLMRouter(fixtures: LLMFixtures): LLMRouter {
+  return {
+    async complete(task, messages) {
+      const key = computeFixtureKey(task, messages);
+      const fixture = fixtures[key];
+
+      if (!fixture) {
+        throw new Error(`No recorded LLM response for ${task} (fixture ${key.slice(0, 12)})`);
+      }
+
+      const { task: _task, ...completion } = fixture;
+      return completion;
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import type { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { formatValidationErrors } from '../../schemas/webhook.js';
+import { emptyUsage, sumUsage, toAIUsage } from './llmUsage.js';
+import type { LLMRouter } from './llmRouter.js';
+import type { AIUsage, LLMMessage, LLMResponseFormat, LLMTask } from '../../types/llm.types.js';
+
+export type StructuredReplyResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export interface StructuredCompletion<T> {
+  data: T;
+  provider: string;
+  model: string;
+  // Repair calls it took to get a valid reply
+  repairs: number;
+  // Tokens and estimated cost of all calls, repairs included
+  usage: AIUsage;
+}
+
+// JSON schema keywords strict structured outputs rejects with a 400 - the zod schema
+// still enforces them when the reply is parsed
+const UNSUPPORTED_SCHEMA_KEYWORDS = new Set([
+  'format',
+  'pattern',
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minProperties',
+  'maxProperties',
+  'patternProperties',
+]);
+
+// Keywords whose value maps names to subschemas - the names themselves are kept
+const SUBSCHEMA_MAP_KEYWORDS = new Set(['properties', 'definitions', '$defs']);
+
+/**
+ * Copy of a JSON schema without the keywords in UNSUPPORTED_SCHEMA_KEYWORDS, at any depth
+ */
+export function stripUnsupportedSchemaKeywords(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(stripUnsupportedSchemaKeywords);
+  }
+
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const stripped: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (SUBSCHEMA_MAP_KEYWORDS.has(key) && value && typeof value === 'object') {
+      stripped[key] = Object.fromEntries(
+        Object.entries(value).map(([name, subschema]) => [name, stripUnsupportedSchemaKeywords(subschema)])
+      );
+    } else if (!UNSUPPORTED_SCHEMA_KEYWORDS.has(key)) {
+      stripped[key] = stripUnsupportedSchemaKeywords(value);
+    }
+  }
+
+  return stripped;
+}
+
+/**
+ * JSON schema response format derived from a zod schema, limited to what strict
+ * structured outputs accepts
+ */
+export function toLLMResponseFormat(schema: z.ZodTypeAny, name: string): LLMResponseFormat {
+  const { json_schema: jsonSchema } = zodResponseFormat(schema, name);
+  return {
+    name: jsonSchema.name,
+    schema: stripUnsupportedSchemaKeywords(jsonSchema.schema ?? {}) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Reads a model reply as JSON and checks it against the schema.
+ * Tolerates markdown fences and text around the JSON object.
+ */
+export function parseStructuredReply<T extends z.ZodTypeAny>(content: string, schema: T): StructuredReplyResult<z.infer<T>> {
+  const unfenced = content
+    .replace(/^\s*```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/, '')
+    .trim();
+
+  // Models sometimes wrap the object in a sentence - take the outermost braces
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  const json = start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: `Reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const validated = schema.safeParse(parsed);
+  return validated.success
+    ? { success: true, data: validated.data }
+    : { success: false, error: formatValidationErrors(validated.error) };
+}
+
+/**
+ * Message asking the model to fix its previous reply
+ */
+function repairMessage(error: string): LLMMessage {
+  return {
+    role: 'user',
+    content: `Your previous reply could not be used: ${error}
+Reply again with only the corrected JSON object. Keep the same fields and follow the required format exactly.`,
+  };
+}
+
+/**
+ * Runs a task and returns its reply validated against the zod schema.
+ * Providers that support it get the schema as a JSON schema response format.
+ * A reply that doesn't parse or validate gets up to maxRepairs follow-up calls
+ * with the validation errors, then the task fails.
+ */
+export async function completeStructured<T extends z.ZodTypeAny>(
+  router: LLMRouter,
+  task: LLMTask,
+  messages: LLMMessage[],
+  schema: T,
+  name: string,
+  maxRepairs: number = config.llm.maxRepairAttempts
+): Promise<StructuredCompletion<z.infer<T>>> {
+  const responseFormat = toLLMResponseFormat(schema, name);
+  const conversation = [...messages];
+  let usage = emptyUsage();
+
+  for (let repairs = 0; ; repairs++) {
+    const completion = await router.complete(task, conversation, { responseFormat });
+    usage = sumUsage(usage, toAIUsage(completion.model, completion.usage));
+    const result = parseStructuredReply(completion.content, schema);
+
+    if (result.success) {
+      if (repairs > 0) {
+        logger.info('LLM reply repaired', { task, repairs, model: completion.model });
+      }
+      return { data: result.data, provider: completion.provider, model: completion.model, repairs, usage };
+    }
+
+    logger.warn('LLM reply failed validation', {
+      task,
+      provider: completion.provider,
+      model: completion.model,
+      error: result.error,
+      rawContent: completion.content.substring(0, 500),
+    });
+
+    if (repairs >= maxRepairs) {
+      throw new Error(`Invalid ${name} response after ${repairs} repair attempt(s): ${result.error}`);
+    }
+
+    conversation.push({ role: 'assistant', content: completion.content }, repairMessage(result.error));
+  }
+}
@@ -1,6 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { config } from '../config/env.js';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
+import { getCorrelationId } from '../utils/requestContext.js';
+import { createResilientFetch } from '../utils/resilience.js';
 import type {
   FormData,
   AIScoreResult,
@@ -11,26 +13,51 @@ import type {
   CandidateLeadRecord,
   ContactRecord,
   JobAdRecord,
+  LeadOverrideRecord,
+  AIProvenanceColumns,
+  LeadSubmission,
+  LeadPipelineResult,
+  PipelineSteps,
+  WebhookSuccessResponse,
+  RepeatLeadMatch,
 } from '../types/index.js';
+import type { AIProvenance } from '../types/llm.types.js';
 
-const supabase = createClient(config.supabase.url, config.supabase.key || '');
+// Every request runs under the supabase timeout/retry policy and circuit breaker
+const supabase = createClient(config.supabase.url, config.supabase.key || '', {
+  global: { fetch: createResilientFetch('supabase') },
+});
+
+/**
+ * Prompt and model columns stored next to ai_reasoning (null when no model was involved)
+ */
+function provenanceColumns(provenance: AIProvenance | null | undefined): AIProvenanceColumns {
+  return {
+    ai_prompt_id: provenance?.prompt_id ?? null,
+    ai_prompt_version: provenance?.prompt_version ?? null,
+    ai_model: provenance?.model ?? null,
+  };
+}
 
 /**
  * Calls the find_or_create_company stored procedure
- * Replicates the "Find or Create Company in Supabase" HTTP node
+ * Replicates the "Find or Create Company in Supabase" HTTP node.
+ * Companies are matched by org number first, then domain, then name.
  */
 export async function findOrCreateCompany(
   companyName: string,
   domain: string | null,
-  source: string = 'website_form'
+  source: string = 'website_form',
+  orgNumber: string | null = null
 ): Promise<string> {
   try {
-    logger.info('Finding or creating company', { companyName, domain });
+    logger.info('Finding or creating company', { companyName, domain, orgNumber });
 
     const { data, error } = await supabase.rpc('find_or_create_company', {
       p_name: companyName,
       p_domain: domain,
       p_source: source,
+      p_org_number: orgNumber,
     });
 
     if (error) {
@@ -52,18 +79,23 @@ export async function findOrCreateCompany(
  */
 export async function createSignal(
   companyId: string,
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  signalType: string = 'website_form_submission',
+  source: string = 'website_form',
+  provenance: AIProvenance | null = null
 ): Promise<SignalRecord> {
   try {
-    logger.info('Creating signal', { companyId });
+    logger.info('Creating signal', { companyId, signalType });
 
     const { data, error } = await supabase
       .from('signals')
       .insert({
         company_id: companyId,
-        signal_type: 'website_form_submission',
-        source: 'website_form',
+        signal_type: signalType,
+        source,
         payload: payload,
+        ...provenanceColumns(provenance),
+        correlation_id: getCorrelationId() ?? null,
       })
       .select()
       .single();
@@ -83,12 +115,15 @@ export async function createSignal(
 
 /**
  * Inserts a rejected lead into rejected_leads table
- * Consolidated function for spam, invalid, and error cases
+ * Consolidated function for spam, invalid, and error cases.
+ * Processing errors pass the failed submission's id, so a replay can resume it.
  */
 export async function insertRejectedLead(
   leadData: FormData,
   classification: string = 'likely_spam',
-  aiReasoning: string = 'N/A (Fast Reject)'
+  aiReasoning: string = 'N/A (Fast Reject)',
+  provenance: AIProvenance | null = null,
+  submissionId: string | null = null
 ): Promise<RejectedLeadRecord> {
   try {
     logger.info('Inserting rejected lead', { email: maskEmail(leadData.email), classification });
@@ -101,9 +136,12 @@ export async function insertRejectedLead(
         phone: leadData.phone,
         company_name: leadData.company_name,
         submitted_description: leadData.needs_description,
-        source: 'website_form',
+        source: leadData.source || 'website_form',
         classification,
         ai_reasoning: aiReasoning,
+        ...provenanceColumns(provenance),
+        submission_id: submissionId,
+        correlation_id: getCorrelationId() ?? null,
       })
       .select()
       .single();
@@ -135,7 +173,7 @@ export async function insertCandidateLead(
     const { data, error } = await supabase
       .from('candidate_leads')
       .insert({
-        source: 'website_form',
+        source: leadData.source || 'website_form',
         full_name: leadData.full_name,
         email: leadData.email,
         phone: leadData.phone,
@@ -209,13 +247,14 @@ export async function createJobAdRecord(
         company_id: jobAdData.company_id,
         title: jobAdData.title,
         description: jobAdData.description,
-        source: 'website_form',
+        source: formData.source || 'website_form',
         external_id: formData.id || now,
         published_status: 'draft',
         ai_valid: true,
         ai_score: aiData.lead_score,
         ai_reasoning: aiData.ai_reasoning,
         ai_category: aiData.role_category,
+        ...provenanceColumns(aiData.ai_provenance),
         raw_data: formData,
         service_type: formData.service_type,
         is_ai_generated: true,
@@ -223,6 +262,7 @@ export async function createJobAdRecord(
         external_url: jobAdData.external_url,
         posted_date: jobAdData.posted_date,
         category: jobAdData.category,
+        correlation_id: getCorrelationId() ?? null,
       })
       .select()
       .single();
@@ -313,12 +353,14 @@ export async function createJobAdFromScraper(
         ai_score: evaluation.score,
         ai_reasoning: evaluation.reasoning,
         ai_category: evaluation.category,
+        ...provenanceColumns(evaluation.provenance),
         ai_experience: evaluation.experience,
         application_email: evaluation.applicationEmail !== 'Email Not Found' ? evaluation.applicationEmail : null,
         duration: evaluation.duration,
         raw_data: job.rawData,
         is_ai_generated: false,
         published_status: 'scraped',
+        correlation_id: getCorrelationId() ?? null,
       })
       .select('id, company_id')
       .single();
@@ -371,6 +413,8 @@ export async function createSignalForJobAd(
           applicationEmail: evaluation.applicationEmail,
           reasoning: evaluation.reasoning,
         },
+        ...provenanceColumns(evaluation.provenance),
+        correlation_id: getCorrelationId() ?? null,
       })
       .select('id')
       .single();
@@ -475,3 +519,651 @@ export async function deleteOldJobsBySource(
     throw new Error(`Failed to delete old jobs: ${getErrorMessage(error)}`);
   }
 }
+
+// ============================================================================
+// JOB EVALUATION CACHE
+// ============================================================================
+
+/**
+ * Fetch an unexpired cached job evaluation by cache key
+ */
+export async function getCachedJobEvaluation(cacheKey: string): Promise<JobEvaluationResult | null> {
+  try {
+    const { data, error } = await supabase
+      .from('job_evaluation_cache')
+      .select('evaluation')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data?.evaluation as JobEvaluationResult | undefined) ?? null;
+  } catch (error) {
+    logger.error('Error fetching cached job evaluation', error);
+    throw new Error(`Failed to fetch cached job evaluation: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Store a job evaluation, replacing any earlier (or expired) entry for the same key
+ */
+export async function upsertCachedJobEvaluation(
+  cacheKey: string,
+  evaluation: JobEvaluationResult,
+  promptVersion: string,
+  expiresAt: Date
+): Promise<void> {
+  try {
+    const { error } = await supabase.from('job_evaluation_cache').upsert(
+      {
+        cache_key: cacheKey,
+        prompt_version: promptVersion,
+        evaluation,
+        expires_at: expiresAt.toISOString(),
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: 'cache_key' }
+    );
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Error storing cached job evaluation', error);
+    throw new Error(`Failed to store cached job evaluation: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================================================
+// LEAD SUBMISSION QUEUE
+// ============================================================================
+
+/**
+ * Persist a new form submission as a pending queue row, or an already claimed one.
+ * idempotency_key has a unique index - if a concurrent request already
+ * stored the same key, the existing submission is returned instead.
+ */
+export async function insertLeadSubmission(
+  id: string,
+  formData: FormData,
+  idempotencyKey: string | null = null,
+  response: WebhookSuccessResponse | null = null,
+  correlationId: string | null = null,
+  claimed: boolean = false
+): Promise<LeadSubmission> {
+  try {
+    logger.info('Inserting lead submission', { submissionId: id, email: maskEmail(formData.email) });
+
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .insert({
+        id,
+        status: claimed ? 'processing' : 'pending',
+        form_data: formData,
+        idempotency_key: idempotencyKey,
+        correlation_id: correlationId,
+        response,
+        attempts: claimed ? 1 : 0,
+        next_attempt_at: now,
+        locked_at: claimed ? now : null,
+        steps: {},
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505' && idempotencyKey) {
+        const existing = await findLeadSubmissionByIdempotencyKey(idempotencyKey);
+        if (existing) {
+          logger.info('Lead submission already stored for idempotency key', { submissionId: existing.id });
+          return existing;
+        }
+      }
+      throw error;
+    }
+
+    return data as LeadSubmission;
+  } catch (error) {
+    logger.error('Error inserting lead submission', error);
+    throw new Error(`Failed to insert lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Fetch a lead submission by ID
+ */
+export async function getLeadSubmission(id: string): Promise<LeadSubmission | null> {
+  try {
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .select()
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as LeadSubmission) || null;
+  } catch (error) {
+    logger.error('Error fetching lead submission', error);
+    throw new Error(`Failed to fetch lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Fetch the submission holding an idempotency key
+ */
+export async function findLeadSubmissionByIdempotencyKey(key: string): Promise<LeadSubmission | null> {
+  try {
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .select()
+      .eq('idempotency_key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as LeadSubmission) || null;
+  } catch (error) {
+    logger.error('Error fetching lead submission by idempotency key', error);
+    throw new Error(`Failed to fetch lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Claim the oldest due pending submission.
+ * Uses optimistic locking on status + attempts so concurrent workers never claim the same row.
+ */
+export async function claimNextLeadSubmission(): Promise<LeadSubmission | null> {
+  try {
+    const now = new Date().toISOString();
+
+    const { data: candidates, error: selectError } = await supabase
+      .from('lead_submissions')
+      .select('id, attempts')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (selectError) {
+      throw selectError;
+    }
+
+    const candidate = candidates?.[0];
+    if (!candidate) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .update({
+        status: 'processing',
+        attempts: candidate.attempts + 1,
+        locked_at: now,
+        updated_at: now,
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'pending')
+      .eq('attempts', candidate.attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    // Another worker claimed it first
+    if (!data) {
+      return null;
+    }
+
+    return data as LeadSubmission;
+  } catch (error) {
+    logger.error('Error claiming lead submission', error);
+    throw new Error(`Failed to claim lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Claim a specific pending or failed submission, e.g. to replay it.
+ * Same optimistic locking as claimNextLeadSubmission; null if the row is processing,
+ * completed or unknown.
+ */
+export async function claimLeadSubmission(id: string): Promise<LeadSubmission | null> {
+  try {
+    const { data: candidate, error: selectError } = await supabase
+      .from('lead_submissions')
+      .select('id, status, attempts')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (selectError) {
+      throw selectError;
+    }
+
+    if (!candidate || (candidate.status !== 'pending' && candidate.status !== 'failed')) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .update({
+        status: 'processing',
+        attempts: candidate.attempts + 1,
+        locked_at: now,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .eq('status', candidate.status)
+      .eq('attempts', candidate.attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as LeadSubmission | null) ?? null;
+  } catch (error) {
+    logger.error('Error claiming lead submission', error, { submissionId: id });
+    throw new Error(`Failed to claim lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update fields on a lead submission row
+ */
+export async function updateLeadSubmission(
+  id: string,
+  fields: {
+    status?: LeadSubmission['status'];
+    steps?: PipelineSteps;
+    result?: LeadPipelineResult | null;
+    last_error?: string | null;
+    next_attempt_at?: string;
+    locked_at?: string | null;
+    idempotency_key?: string | null;
+  }
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('lead_submissions')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Error updating lead submission', error, { submissionId: id });
+    throw new Error(`Failed to update lead submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Return submissions stuck in 'processing' (e.g. after a crash or restart) to the queue
+ */
+export async function requeueStaleLeadSubmissions(lockedBefore: Date): Promise<number> {
+  try {
+    const { data, error } = await supabase
+      .from('lead_submissions')
+      .update({
+        status: 'pending',
+        locked_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('status', 'processing')
+      .lt('locked_at', lockedBefore.toISOString())
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    const count = data?.length || 0;
+    if (count > 0) {
+      logger.warn('Requeued stale lead submissions', { count });
+    }
+
+    return count;
+  } catch (error) {
+    logger.error('Error requeueing stale lead submissions', error);
+    throw new Error(`Failed to requeue stale lead submissions: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================================================
+// REPEAT LEAD DETECTION
+// ============================================================================
+
+// Form signals of every intake source, e.g. website_form_submission or typeform_follow_up
+const FORM_SIGNAL_TYPES_FILTER = 'signal_type.like.*_submission,signal_type.like.*_follow_up';
+
+/**
+ * Signal type of a form submission from the given intake source, e.g. typeform_submission,
+ * or typeform_follow_up when it is a repeat lead
+ */
+export function formSignalType(source: string, followUp: boolean): string {
+  return `${source}_${followUp ? 'follow_up' : 'submission'}`;
+}
+
+/**
+ * Escape LIKE wildcards so ilike() can be used as a case-insensitive equality check
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Find a recent lead from the same contact (email) or company (domain).
+ * Checks, in order: earlier valid submissions, form signals and contacts for the email,
+ * then form signals for companies with the same domain.
+ * Only pass a domain that came from the email address - guessed domains are too unreliable.
+ */
+export async function findRecentLeadMatch(params: {
+  email: string | undefined;
+  domain: string | null;
+  since: Date;
+  excludeSubmissionId: string;
+}): Promise<RepeatLeadMatch | null> {
+  try {
+    const since = params.since.toISOString();
+    const email = params.email?.toLowerCase().trim();
+
+    logger.info('Looking up repeat lead', { email: maskEmail(email), domain: params.domain, since });
+
+    if (email) {
+      const emailPattern = escapeLike(email);
+
+      // 1. Earlier submission from the same email that became a valid lead
+      const { data: submissions, error: submissionError } = await supabase
+        .from('lead_submissions')
+        .select('id, result, created_at')
+        .ilike('form_data->>email', emailPattern)
+        .eq('status', 'completed')
+        .eq('result->>classification', 'valid_lead')
+        .neq('id', params.excludeSubmissionId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (submissionError) {
+        throw submissionError;
+      }
+
+      const submission = submissions?.[0];
+      const submissionResult = submission?.result as LeadPipelineResult | null;
+      if (submission && submissionResult?.company_id) {
+        return {
+          company_id: submissionResult.company_id,
+          matched_by: 'email',
+          source: 'lead_submissions',
+          record_id: submission.id,
+          last_seen_at: submission.created_at,
+        };
+      }
+
+      // 2. Form signal carrying the same email
+      const { data: signals, error: signalError } = await supabase
+        .from('signals')
+        .select('id, company_id, created_at')
+        .or(FORM_SIGNAL_TYPES_FILTER)
+        .ilike('payload->>email', emailPattern)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (signalError) {
+        throw signalError;
+      }
+
+      if (signals?.[0]) {
+        return {
+          company_id: signals[0].company_id,
+          matched_by: 'email',
+          source: 'signals',
+          record_id: signals[0].id,
+          last_seen_at: signals[0].created_at,
+        };
+      }
+
+      // 3. Contact recently created with the same email
+      const { data: contacts, error: contactError } = await supabase
+        .from('contacts')
+        .select('id, company_id, created_at')
+        .eq('email', email)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (contactError) {
+        throw contactError;
+      }
+
+      if (contacts?.[0]) {
+        return {
+          company_id: contacts[0].company_id,
+          matched_by: 'email',
+          source: 'contacts',
+          record_id: contacts[0].id,
+          last_seen_at: contacts[0].created_at,
+        };
+      }
+    }
+
+    if (params.domain) {
+      // 4. Another contact at the same company submitted recently
+      const { data: companies, error: companyError } = await supabase
+        .from('companies')
+        .select('id')
+        .eq('domain', params.domain);
+
+      if (companyError) {
+        throw companyError;
+      }
+
+      const companyIds = (companies || []).map((c) => c.id);
+
+      if (companyIds.length > 0) {
+        const { data: signals, error: signalError } = await supabase
+          .from('signals')
+          .select('id, company_id, created_at')
+          .in('company_id', companyIds)
+          .or(FORM_SIGNAL_TYPES_FILTER)
+          .gte('created_at', since)
+          .order('created_at', { ascending: false })
+          .limit(1);
+
+        if (signalError) {
+          throw signalError;
+        }
+
+        if (signals?.[0]) {
+          return {
+            company_id: signals[0].company_id,
+            matched_by: 'domain',
+            source: 'signals',
+            record_id: signals[0].id,
+            last_seen_at: signals[0].created_at,
+          };
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    logger.error('Error looking up repeat lead', error);
+    throw new Error(`Failed to look up repeat lead: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================================================
+// LEAD OVERRIDES
+// ============================================================================
+
+/**
+ * Logs a manual reclassification, so model misclassifications can be measured
+ */
+export async function insertLeadOverride(
+  override: Omit<LeadOverrideRecord, 'id' | 'created_at'>
+): Promise<LeadOverrideRecord> {
+  try {
+    logger.info('Logging lead override', {
+      submissionId: override.submission_id,
+      from: override.previous_classification,
+      to: override.new_classification,
+    });
+
+    const { data, error } = await supabase.from('lead_overrides').insert(override).select().single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as LeadOverrideRecord;
+  } catch (error) {
+    logger.error('Error logging lead override', error);
+    throw new Error(`Failed to log lead override: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================================================
+// PROCESSING ERROR RECOVERY
+// ============================================================================
+
+/**
+ * Lists rejected leads saved after a processing failure, oldest first
+ */
+export async function listProcessingErrorLeads(
+  options: { includeRecovered?: boolean; ids?: string[]; limit?: number } = {}
+): Promise<RejectedLeadRecord[]> {
+  try {
+    let query = supabase
+      .from('rejected_leads')
+      .select()
+      .eq('classification', 'processing_error')
+      .order('created_at', { ascending: true })
+      .limit(options.limit ?? 100);
+
+    if (!options.includeRecovered) {
+      query = query.is('recovered_at', null);
+    }
+    if (options.ids) {
+      query = query.in('id', options.ids);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as RejectedLeadRecord[]) || [];
+  } catch (error) {
+    logger.error('Error listing processing error leads', error);
+    throw new Error(`Failed to list processing error leads: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Marks a processing_error row as recovered by a replay.
+ * Only succeeds if the row isn't already recovered - returns null when another replay got it first.
+ */
+export async function claimProcessingErrorLead(
+  id: string,
+  submissionId: string
+): Promise<RejectedLeadRecord | null> {
+  try {
+    const { data, error } = await supabase
+      .from('rejected_leads')
+      .update({ recovered_at: new Date().toISOString(), recovered_submission_id: submissionId })
+      .eq('id', id)
+      .eq('classification', 'processing_error')
+      .is('recovered_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as RejectedLeadRecord) || null;
+  } catch (error) {
+    logger.error('Error claiming processing error lead', error);
+    throw new Error(`Failed to claim processing error lead: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Clears the recovered mark after a failed replay, so the row can be replayed again
+ */
+export async function releaseProcessingErrorLead(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('rejected_leads')
+      .update({ recovered_at: null, recovered_submission_id: null })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Error releasing processing error lead', error);
+    throw new Error(`Failed to release processing error lead: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================================================
+// LEAD ATTACHMENTS (Supabase Storage)
+// ============================================================================
+
+/**
+ * Uploads an attachment file to the attachments bucket. Overwrites, so a retried step can re-upload.
+ */
+export async function uploadLeadAttachment(path: string, data: Buffer, contentType: string): Promise<string> {
+  try {
+    const { error } = await supabase.storage
+      .from(config.attachments.storageBucket)
+      .upload(path, data, { contentType, upsert: true });
+
+    if (error) {
+      throw error;
+    }
+
+    logger.info('Lead attachment stored', { path, sizeBytes: data.length });
+
+    return path;
+  } catch (error) {
+    logger.error('Error storing lead attachment', error, { path });
+    throw new Error(`Failed to store lead attachment: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Downloads a stored attachment file
+ */
+export async function downloadLeadAttachment(path: string): Promise<Buffer> {
+  try {
+    const { data, error } = await supabase.storage.from(config.attachments.storageBucket).download(path);
+
+    if (error) {
+      throw error;
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  } catch (error) {
+    logger.error('Error downloading lead attachment', error, { path });
+    throw new Error(`Failed to download lead attachment: ${getErrorMessage(error)}`);
+  }
+}
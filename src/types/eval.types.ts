@@ -0,0 +1,71 @@
+// Offline evaluation harness types - golden dataset runs and reports (services/evals)
+
+import type { LeadClassification } from './index.js';
+import type { AIProvenance, LLMCompletion, LLMTask } from './llm.types.js';
+
+// How the harness talks to the LLM: live calls, live calls saved as fixtures, or fixtures only (CI)
+export type EvalMode = 'live' | 'record' | 'replay';
+
+// Saved LLM replies by fixture key (services/llm/recordedRouter.ts)
+export type LLMFixtures = Record<string, LLMCompletion & { task: LLMTask }>;
+
+// Counts by expected label, then actual label
+export type ConfusionMatrix = Record<string, Record<string, number>>;
+
+export interface LeadEvalResult {
+  id: string;
+  expected: LeadClassification;
+  actual: LeadClassification | null;
+  score: number | null;
+  provenance: AIProvenance | null;
+  error?: string;
+}
+
+export interface JobEvalResult {
+  id: string;
+  expected: boolean;
+  actual: boolean | null;
+  score: number | null;
+  provenance: AIProvenance | null;
+  error?: string;
+}
+
+// Accuracy and confusion matrix of one classifier; items that errored count as wrong
+export interface EvalSummary<T> {
+  total: number;
+  correct: number;
+  errors: number;
+  accuracy: number;
+  confusion: ConfusionMatrix;
+  results: T[];
+}
+
+export interface EvalReport {
+  dataset: string;
+  mode: EvalMode;
+  created_at: string;
+  // Prompt versions in use during the run
+  prompt_versions: Partial<Record<LLMTask, string>>;
+  leads: EvalSummary<LeadEvalResult>;
+  jobs: EvalSummary<JobEvalResult>;
+}
+
+// Score and label change of one item between two runs
+export interface ScoreDriftItem {
+  kind: 'lead' | 'job';
+  id: string;
+  baseline_score: number;
+  score: number;
+  delta: number;
+  baseline_label: string;
+  label: string;
+}
+
+// Score drift between a baseline report and the current run, over items scored in both
+export interface ScoreDrift {
+  compared: number;
+  mean_abs_delta: number;
+  max_abs_delta: number;
+  label_changes: number;
+  items: ScoreDriftItem[];
+}
@@ -1,6 +1,10 @@
 // Form submission data from webhook - validated by zod schema
 export { WebhookRequestBody } from '../schemas/webhook.js';
 
+import type { PhoneNumberType } from '../utils/phoneNumber.js';
+import type { CaptchaProvider } from './intake.types.js';
+import type { AIProvenance, AIProviderMode, AIUsage } from './llm.types.js';
+
 // Structured form data after initial processing
 export interface FormData {
   id: string;
@@ -12,16 +16,65 @@ export interface FormData {
   service_type?: string;
   needs_description?: string;
   subject?: string;
+  // Swedish organisationsnummer, NNNNNN-NNNN (Luhn-checked)
+  org_number?: string;
+  // Set when phone could be normalized to E.164 (see utils/phoneNumber.ts)
+  phone_country?: string | null;
+  phone_type?: PhoneNumberType;
+  // Language the lead is answered in (job ad, confirmation email) and where it came from
+  language?: LeadLanguage;
+  language_source?: 'form' | 'detected' | 'default';
+  // Honeypot, fill time and CAPTCHA outcome - a failed check is fast-rejected as spam
+  bot_check?: BotCheckResult;
+  // Job description files sent with the form - their text is appended to needs_description
+  attachments?: LeadAttachment[];
+  // Intake channel, e.g. 'website_form', 'typeform' or 'email' (defaults to 'website_form')
+  source?: string;
+}
+
+// Languages job ads and confirmation emails are written in
+export type LeadLanguage = 'sv' | 'en';
+
+// Why a submission was taken for a bot (services/intake/botProtection.ts)
+export type BotCheckReason = 'honeypot_filled' | 'filled_too_fast' | 'captcha_missing' | 'captcha_failed';
+
+export interface BotCheckResult {
+  passed: boolean;
+  reasons: BotCheckReason[];
+  // Time between form render and submit, null when the form didn't send form_rendered_at
+  fill_time_ms: number | null;
+  // 'error' means the CAPTCHA service couldn't be reached - the check is then not held against the lead
+  captcha: 'passed' | 'failed' | 'missing' | 'error' | 'not_checked';
+}
+
+// File attached to a form submission (services/leads/leadAttachments.ts)
+export interface LeadAttachment {
+  filename: string;
+  content_type: string;
+  source: 'upload' | 'url';
+  // Signed URL the file is fetched from (source 'url')
+  url?: string;
+  // Path of the original file in the attachments storage bucket, null until stored
+  storage_path: string | null;
+  size_bytes: number | null;
+  // Characters of text extracted, set once the pipeline has read the file
+  text_chars?: number;
+  // Why the file could not be downloaded or read - the lead is processed without it
+  error?: string;
 }
 
-// Validation details from lead validation
+// Validation details from lead validation - one entry per quality rule id (see validation-rules.json)
 export interface ValidationDetails {
-  email_valid: boolean;
-  phone_valid: boolean;
-  company_filled: boolean;
   needs_description_length: number;
-  needs_adequate: boolean;
-  contact_name_filled: boolean;
+  [ruleId: string]: boolean | number;
+}
+
+// A validation rule whose condition matched
+export interface FiredRule {
+  id: string;
+  category: 'quality' | 'spam';
+  weight: number;
+  explanation: string;
 }
 
 // Lead data after validation
@@ -29,6 +82,8 @@ export interface ValidatedLead extends FormData {
   validation_score: number;
   is_likely_spam: boolean;
   validation_details: ValidationDetails;
+  fired_rules: FiredRule[];
+  rules_version: string;
 }
 
 // Classification types from AI scoring
@@ -41,6 +96,10 @@ export interface AIScoreResult {
   classification: LeadClassification;
   key_requirements: string[];
   ai_reasoning: string;
+  // Prompt version and model that scored the lead (missing on submissions scored before versioning)
+  ai_provenance?: AIProvenance;
+  // Tokens and estimated cost of the scoring call(s)
+  ai_usage?: AIUsage;
 }
 
 // Data after domain extraction
@@ -82,6 +141,8 @@ export interface JobAdData {
   category: string;
   external_url: string;
   posted_date: string;
+  // Tokens and estimated cost of generating the ad
+  ai_usage?: AIUsage;
 }
 
 // Job ad data with company ID for database
@@ -90,15 +151,23 @@ export interface JobAdWithCompanyId extends JobAdData {
 }
 
 // Supabase response types
-export interface SignalRecord {
+// Prompt and model columns of records holding AI output (see prompts/promptRegistry.ts)
+export interface AIProvenanceColumns {
+  ai_prompt_id?: string | null;
+  ai_prompt_version?: string | null;
+  ai_model?: string | null;
+}
+
+export interface SignalRecord extends AIProvenanceColumns {
   id: string;
   company_id: string;
   signal_type: string;
   source: string;
   payload: Record<string, unknown>;
+  correlation_id?: string | null;
 }
 
-export interface RejectedLeadRecord {
+export interface RejectedLeadRecord extends AIProvenanceColumns {
   id: string;
   full_name?: string;
   email?: string;
@@ -108,6 +177,13 @@ export interface RejectedLeadRecord {
   source: string;
   classification: string;
   ai_reasoning?: string;
+  correlation_id?: string | null;
+  created_at?: string;
+  // Queued submission whose failure the processing_error row records
+  submission_id?: string | null;
+  // Set when a processing_error row has been replayed (see services/leads/leadRecovery.ts)
+  recovered_at?: string | null;
+  recovered_submission_id?: string | null;
 }
 
 export interface CandidateLeadRecord {
@@ -129,7 +205,7 @@ export interface ContactRecord {
   source: string;
 }
 
-export interface JobAdRecord {
+export interface JobAdRecord extends AIProvenanceColumns {
   id: string;
   company_id: string;
   title: string;
@@ -144,6 +220,7 @@ export interface JobAdRecord {
   raw_data: FormData;
   service_type?: string;
   is_ai_generated: boolean;
+  correlation_id?: string | null;
   location: string;
   external_url: string;
   posted_date: string;
@@ -154,15 +231,13 @@ export interface JobAdRecord {
 export interface Config {
   port: number | string;
   nodeEnv: string;
-  openai: {
-    apiKey: string | undefined;
-    model: string;
-    temperature: number;
-  };
-  openRouter: {
-    apiKey: string | undefined;
-    primaryModel: string;
-    fallbackModel: string;
+  llm: {
+    aiProvider: AIProviderMode;
+    fakeRulesPath: string | undefined;
+    fakeFixturesPath: string | undefined;
+    routesPath: string | undefined;
+    pricesPath: string | undefined;
+    maxRepairAttempts: number;
   };
   supabase: {
     url: string;
@@ -175,8 +250,33 @@ export interface Config {
   adminAlert: {
     email: string | undefined;
   };
+  admin: {
+    apiKey: string | undefined;
+  };
+  validation: {
+    rulesPath: string | undefined;
+    reloadIntervalMs: number;
+  };
+  botProtection: {
+    minFillTimeMs: number;
+    captchaProvider: CaptchaProvider | undefined;
+    captchaSecret: string | undefined;
+    captchaRequired: boolean;
+    captchaTimeoutMs: number;
+  };
+  attachments: {
+    maxBytes: number;
+    maxFiles: number;
+    maxTextChars: number;
+    allowedUrlHosts: string[];
+    downloadTimeoutMs: number;
+    storageBucket: string;
+  };
   webhook: {
-    secret: string | undefined;
+    secrets: string[];
+    timestampToleranceSeconds: number;
+    allowLegacySignatures: boolean;
+    idempotencyWindowMs: number;
   };
   apify: {
     apiKey: string | undefined;
@@ -190,8 +290,44 @@ export interface Config {
     maxItems: number;
     retentionDays: number;
   };
+  formProviders: {
+    typeformSecret: string | undefined;
+    hubspotClientSecret: string | undefined;
+    webflowSecret: string | undefined;
+    mailgunSigningKey: string | undefined;
+    resendInboundSecret: string | undefined;
+    publicBaseUrl: string | undefined;
+    fieldMap: Record<string, string>;
+  };
+  repeatLead: {
+    windowDays: number;
+  };
+  jobEvaluationCache: {
+    driver: JobEvaluationCacheDriver;
+    ttlMs: number;
+  };
+  leadQueue: {
+    driver: LeadQueueDriver;
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    retryBackoffMs: number;
+    staleAfterMs: number;
+    stepRetries: number;
+    stepBackoffMs: number;
+  };
+  resilience: {
+    dependencies: Record<ExternalDependency, { timeoutMs: number; retries: number }>;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    breakerFailureThreshold: number;
+    breakerResetMs: number;
+  };
 }
 
+// External services called under a timeout/retry/circuit breaker policy
+export type ExternalDependency = 'llm' | 'resend' | 'supabase' | 'apify';
+
 // Logger meta type
 export type LogMeta = Record<string, unknown>;
 
@@ -208,5 +344,157 @@ export interface WebhookSuccessResponse {
   lead_score?: number;
   job_ad_title?: string;
   reason?: string;
+  submission_id?: string;
   processingTime: number;
 }
+
+// ============================================================================
+// LEAD PROCESSING QUEUE
+// ============================================================================
+
+// Queue backend: in-process for local development/tests, Supabase (Postgres) for production
+export type LeadQueueDriver = 'memory' | 'supabase';
+
+// Job evaluation cache backend - same choice as the lead queue
+export type JobEvaluationCacheDriver = 'memory' | 'supabase';
+
+export type LeadSubmissionStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Outcome of a single pipeline step, persisted so a retried submission can resume
+export interface PipelineStepRecord {
+  status: 'completed' | 'failed';
+  attempts: number;
+  output?: unknown;
+  error?: string;
+  finished_at: string;
+}
+
+export type PipelineSteps = Record<string, PipelineStepRecord>;
+
+// An earlier lead from the same contact or company, found by the repeat-lead lookup
+export interface RepeatLeadMatch {
+  company_id: string;
+  matched_by: 'email' | 'domain';
+  source: 'lead_submissions' | 'signals' | 'contacts';
+  record_id: string;
+  last_seen_at: string;
+}
+
+// Final result of running a submission through the qualification pipeline
+export interface LeadPipelineResult {
+  classification: LeadClassification | 'spam';
+  message: string;
+  lead_score?: number;
+  ai_reasoning?: string;
+  job_ad_title?: string;
+  company_id?: string;
+  signal_id?: string;
+  contact_id?: string;
+  job_ad_id?: string;
+  rejected_lead_id?: string;
+  candidate_lead_id?: string;
+  repeat_of?: RepeatLeadMatch;
+  // Tokens and estimated cost of all AI calls for the lead (scoring and job ad)
+  ai_usage?: AIUsage;
+}
+
+// Row in the lead_submissions table (or the in-memory queue)
+export interface LeadSubmission {
+  id: string;
+  status: LeadSubmissionStatus;
+  form_data: FormData;
+  idempotency_key: string | null;
+  // X-Request-Id of the webhook call - the worker logs and writes records under it
+  correlation_id: string | null;
+  response: WebhookSuccessResponse | null;
+  attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  steps: PipelineSteps;
+  result: LeadPipelineResult | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Table a submission's outcome was written to
+export type LeadDestination = 'job_ads' | 'signals' | 'candidate_leads' | 'rejected_leads';
+
+// Response of GET /api/leads/:id
+export interface LeadStatus {
+  id: string;
+  status: LeadSubmissionStatus;
+  source: string;
+  correlation_id: string | null;
+  attempts: number;
+  classification: LeadPipelineResult['classification'] | null;
+  lead_score: number | null;
+  ai_reasoning: string | null;
+  ai_provenance: AIProvenance | null;
+  ai_usage: AIUsage | null;
+  destination: LeadDestination | null;
+  company_id: string | null;
+  signal_id: string | null;
+  contact_id: string | null;
+  job_ad_id: string | null;
+  rejected_lead_id: string | null;
+  candidate_lead_id: string | null;
+  repeat_of: RepeatLeadMatch | null;
+  language: LeadLanguage | null;
+  attachments: LeadAttachment[];
+  steps: PipelineSteps;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row in the lead_overrides table - one per manual reclassification
+export interface LeadOverrideRecord {
+  id: string;
+  submission_id: string;
+  previous_classification: LeadPipelineResult['classification'];
+  new_classification: LeadClassification;
+  reason: string;
+  overridden_by: string | null;
+  ai_lead_score: number | null;
+  ai_reasoning: string | null;
+  result: LeadPipelineResult;
+  created_at: string;
+}
+
+// Outcome of replaying one processing_error row
+export interface LeadReplayItem {
+  rejected_lead_id: string;
+  status: 'recovered' | 'failed' | 'skipped';
+  submission_id?: string;
+  classification?: LeadPipelineResult['classification'];
+  message: string;
+}
+
+// Summary report of a processing_error replay run
+export interface LeadReplayReport {
+  started_at: string;
+  finished_at: string;
+  total: number;
+  recovered: number;
+  failed: number;
+  skipped: number;
+  by_classification: Record<string, number>;
+  items: LeadReplayItem[];
+}
+
+// Response of POST /api/leads/dry-run - every intermediate result, nothing persisted
+export interface LeadDryRunResult {
+  // Path the real pipeline would take
+  path: LeadClassification | 'fast_reject';
+  form_data: FormData;
+  validation: Pick<
+    ValidatedLead,
+    'validation_score' | 'is_likely_spam' | 'validation_details' | 'fired_rules' | 'rules_version'
+  > & {
+    passes: boolean;
+  };
+  ai_score: AIScoreResult | null;
+  domain: Pick<DataWithDomain, 'extracted_domain' | 'domain_source'> | null;
+  job_ad: JobAdData | null;
+}
@@ -0,0 +1,41 @@
+// Form intake types for third-party form providers (Typeform, HubSpot, Webflow, ...) and inbound email
+import type { RequestHandler } from 'express';
+
+export type FormProvider = 'website' | 'typeform' | 'hubspot' | 'webflow' | 'generic' | 'mailgun' | 'resend';
+
+// Provider payload mapped onto our flat webhook body - validated afterwards by webhookRequestSchema
+export interface MappedFormPayload {
+  body: Record<string, unknown>;
+  // Provider's own submission id, used as idempotency key when no Idempotency-Key header is sent
+  externalId?: string;
+}
+
+// Result of checking a provider's own signature scheme
+export type ProviderSignatureResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_headers' | 'invalid_timestamp' | 'timestamp_out_of_range' | 'signature_mismatch' };
+
+// Pluggable intake adapter - one per form provider
+export interface FormAdapter {
+  provider: FormProvider;
+  // Stored as `source` on signals, contacts and rejected/candidate leads
+  source: string;
+  // Express middleware checking the provider's signature scheme
+  verifySignature: RequestHandler;
+  // Returns null when the payload isn't a form submission this adapter understands
+  mapPayload(payload: unknown): MappedFormPayload | null;
+  // Whether uploaded files and attachment_urls are taken as job description attachments
+  acceptsAttachments?: boolean;
+  // Whether the form carries a CAPTCHA widget - its token is then required when CAPTCHA_REQUIRED=true
+  captcha?: boolean;
+}
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'stub';
+
+export type CaptchaVerificationResult = { success: true } | { success: false; reason: string };
+
+// Pluggable CAPTCHA check - one per provider, selected by CAPTCHA_PROVIDER
+export interface CaptchaVerifier {
+  provider: CaptchaProvider;
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerificationResult>;
+}
@@ -0,0 +1,103 @@
+// LLM provider layer types - providers and per-task model routing (services/llm)
+
+// AI tasks routed to models by src/config/llm/llm-routes.json
+export type LLMTask = 'lead_scoring' | 'job_ad' | 'job_evaluation';
+
+// Where AI task replies come from: the routed LLM providers, or canned replies
+// from keyword rules and fixtures for offline development (services/llm/fakeRouter.ts)
+export type AIProviderMode = 'llm' | 'fake';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// One provider/model pair in a task's route
+export interface LLMTarget {
+  provider: string;
+  model: string;
+  temperature: number;
+}
+
+// How a provider is asked for JSON: a JSON schema (strict structured outputs),
+// plain JSON mode, or only through the prompt
+export type LLMResponseFormatMode = 'json_schema' | 'json_object' | 'none';
+
+// JSON schema the reply must follow - applied as far as the provider supports it
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  responseFormat?: LLMResponseFormat;
+}
+
+export interface LLMCompletionOptions {
+  responseFormat?: LLMResponseFormat;
+}
+
+// Token counts a provider reports for one completion (response.usage)
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Reply text and token counts of one provider call - usage is missing when the server doesn't report it
+export interface LLMProviderReply {
+  content: string;
+  usage?: LLMUsage;
+}
+
+// Reply of the target that answered, so callers can log which model produced a result
+export interface LLMCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+// Pluggable chat completion backend - OpenAI, OpenRouter or any OpenAI-compatible server
+export interface LLMProvider {
+  name: string;
+  // Returns the reply; throws on transport errors and empty replies
+  complete(request: LLMCompletionRequest): Promise<LLMProviderReply>;
+}
+
+// Prompts in the registry (src/prompts) - one per AI task
+export type PromptId = LLMTask;
+
+// Prompt file: system prompt and user prompt template with {{variable}} placeholders
+export interface PromptFile {
+  id: PromptId;
+  system: string;
+  user: string;
+}
+
+// Prompt file with its version - a hash of the prompt text
+export interface VersionedPrompt extends PromptFile {
+  version: string;
+}
+
+// Which prompt version and model produced an AI result - stored alongside ai_reasoning
+export interface AIProvenance {
+  prompt_id: PromptId;
+  prompt_version: string;
+  model: string;
+}
+
+// Token counts and estimated cost of one or more AI calls (services/llm/llmUsage.ts)
+export interface AIUsage {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Estimated from the price table - covers priced calls only
+  cost_usd: number;
+  // Calls with unknown cost: model missing from the price table, or no usage reported
+  unpriced_calls: number;
+}
@@ -1,5 +1,7 @@
 // Scraper types for job scraping and lead generation
 
+import type { AIProvenance, AIUsage } from './llm.types.js';
+
 // Scraper sources
 export type JobScraperSource = 'indeed' | 'linkedin' | 'arbetsformedlingen';
 export type LeadScraperSource = 'google_maps';
@@ -46,6 +48,10 @@ export interface JobEvaluationResult {
   reasoning: string;
   applicationEmail: string;
   duration: string;
+  // Prompt version and model that evaluated the job
+  provenance?: AIProvenance;
+  // Tokens and estimated cost of the evaluation call(s) - not kept in the evaluation cache
+  usage?: AIUsage;
 }
 
 // Job processing result (after AI + DB operations)
@@ -57,6 +63,10 @@ export interface ProcessedJob {
   signalId: string;
   success: boolean;
   error?: string;
+  // Evaluation was reused from the job evaluation cache instead of calling the LLM
+  evaluationCached?: boolean;
+  // Tokens and estimated cost of evaluating the job in this run (nothing on a cache hit)
+  usage?: AIUsage;
 }
 
 // Scraper run configuration
@@ -67,6 +77,12 @@ export interface ScraperRunConfig {
   maxItems?: number;
 }
 
+// Options for processing scraped jobs
+export interface JobProcessingOptions {
+  // Re-evaluate every job with the LLM and overwrite its cached evaluation
+  refreshEvaluations?: boolean;
+}
+
 // Scraper run result
 export interface ScraperRunResult {
   source: JobScraperSource;
@@ -82,6 +98,14 @@ export interface ScraperRunResult {
     valid: number;
     discarded: number;
     errors: number;
+    // Job evaluations served from / missing in the job evaluation cache
+    cacheHits: number;
+    cacheMisses: number;
+    // AI calls, tokens and estimated cost of the run
+    aiCalls: number;
+    promptTokens: number;
+    completionTokens: number;
+    estimatedCostUsd: number;
   };
   validJobs: ProcessedJob[];
   discardedJobs: ProcessedJob[];
@@ -146,3 +170,12 @@ export interface ScraperDigestData {
   errors: ScraperRunResult['errors'];
   duration: number;
 }
+
+// Row in the job_evaluation_cache table (or the in-memory cache)
+export interface JobEvaluationCacheEntry {
+  cache_key: string;
+  prompt_version: string;
+  evaluation: JobEvaluationResult;
+  expires_at: string;
+  created_at: string;
+}
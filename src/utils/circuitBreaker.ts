@@ -0,0 +1,91 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit fails fast before letting a trial call through
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+// Breaker state as shown on the health endpoint
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  last_failure: string | null;
+}
+
+export interface CircuitBreaker {
+  name: string;
+  // False while the circuit is open. After the reset timeout one trial call is let through (half open).
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(error: string): void;
+  snapshot(): CircuitBreakerSnapshot;
+}
+
+/**
+ * Circuit breaker for one external dependency.
+ * Opens after failureThreshold consecutive failures; a successful trial call closes it again.
+ */
+export function createCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  const now = options.now ?? Date.now;
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let lastFailure: string | null = null;
+  let trialInFlight = false;
+
+  return {
+    name,
+
+    canRequest() {
+      if (state === 'closed') {
+        return true;
+      }
+
+      if (state === 'open' && openedAt !== null && now() - openedAt >= options.resetTimeoutMs) {
+        state = 'half_open';
+      }
+
+      // Half open: a single trial call at a time
+      if (state === 'half_open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+
+      return false;
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      consecutiveFailures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure(error) {
+      consecutiveFailures++;
+      lastFailure = error;
+      trialInFlight = false;
+
+      if (state === 'half_open' || consecutiveFailures >= options.failureThreshold) {
+        state = 'open';
+        openedAt = now();
+      }
+    },
+
+    snapshot() {
+      return {
+        name,
+        state,
+        consecutive_failures: consecutiveFailures,
+        opened_at: openedAt !== null ? new Date(openedAt).toISOString() : null,
+        last_failure: lastFailure,
+      };
+    },
+  };
+}
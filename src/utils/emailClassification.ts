@@ -0,0 +1,59 @@
+import emailDomains from '../config/rules/email-domains.json' with { type: 'json' };
+
+// company: a domain that can identify the sender's company
+export type EmailDomainType = 'company' | 'free_mail' | 'disposable';
+
+export interface EmailClassification {
+  domain: string | null;
+  domain_type: EmailDomainType | null;
+  // info@, jobb@, noreply@ ... - a shared inbox rather than a person
+  is_role_address: boolean;
+}
+
+const FREE_MAIL_DOMAINS = new Set(emailDomains.free_mail_domains);
+const DISPOSABLE_DOMAINS = new Set(emailDomains.disposable_domains);
+const ROLE_LOCAL_PARTS = new Set(emailDomains.role_local_parts);
+
+/**
+ * Whether the domain or one of its parent domains is in the list (mail.telia.com matches telia.com)
+ */
+function inDomainList(list: Set<string>, domain: string): boolean {
+  const labels = domain.split('.');
+
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (list.has(labels.slice(i).join('.'))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Classifies an email address by domain (company, free-mail or disposable) and
+ * whether it is a role address. Lists live in src/config/rules/email-domains.json.
+ */
+export function classifyEmail(email: string | undefined): EmailClassification {
+  const at = email?.lastIndexOf('@') ?? -1;
+
+  if (!email || at <= 0 || at === email.length - 1) {
+    return { domain: null, domain_type: null, is_role_address: false };
+  }
+
+  const domain = email.slice(at + 1).trim().toLowerCase();
+  // Plus-addressing (info+forms@) doesn't change who reads the inbox
+  const localPart = email.slice(0, at).trim().toLowerCase().split('+')[0];
+
+  let domainType: EmailDomainType = 'company';
+  if (inDomainList(DISPOSABLE_DOMAINS, domain)) {
+    domainType = 'disposable';
+  } else if (inDomainList(FREE_MAIL_DOMAINS, domain)) {
+    domainType = 'free_mail';
+  }
+
+  return {
+    domain,
+    domain_type: domainType,
+    is_role_address: ROLE_LOCAL_PARTS.has(localPart),
+  };
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Serializes a value to JSON with object keys sorted, so the same payload
+ * always produces the same string regardless of key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 hash of the canonical JSON payload
+ */
+export function computePayloadHash(payload: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+/**
+ * Resolves the idempotency key for a request.
+ * Uses the client's Idempotency-Key header when present, otherwise falls back
+ * to a content hash of the validated payload (catches double-clicks and form retries).
+ * Returns null when the header is present but unusable.
+ */
+export function resolveIdempotencyKey(header: string | string[] | undefined, payload: unknown): string | null {
+  if (header !== undefined) {
+    const key = (Array.isArray(header) ? header[0] : header).trim();
+
+    if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return null;
+    }
+
+    return `key:${key}`;
+  }
+
+  return `hash:${computePayloadHash(payload)}`;
+}
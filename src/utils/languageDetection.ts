@@ -0,0 +1,86 @@
+import type { LeadLanguage } from '../types/index.js';
+
+export const SUPPORTED_LANGUAGES: LeadLanguage[] = ['sv', 'en'];
+
+// Leads are answered in Swedish unless they clearly wrote in another supported language
+export const DEFAULT_LANGUAGE: LeadLanguage = 'sv';
+
+// Frequent words that are rare in the other language ("i", "de" and "en" are left out - they occur in both)
+const STOPWORDS: Record<LeadLanguage, Set<string>> = {
+  sv: new Set([
+    'och', 'att', 'det', 'som', 'är', 'på', 'för', 'med', 'har', 'vi', 'av', 'till', 'den', 'inte', 'jag',
+    'om', 'ett', 'kan', 'eller', 'söker', 'behöver', 'erfarenhet', 'tjänst', 'hej', 'vår', 'våra', 'oss',
+    'mig', 'ska', 'inom', 'vill', 'hos', 'också', 'nu', 'efter', 'minst', 'års',
+  ]),
+  en: new Set([
+    'the', 'and', 'to', 'of', 'is', 'for', 'with', 'we', 'are', 'our', 'looking', 'need', 'experience',
+    'role', 'hi', 'hello', 'be', 'you', 'this', 'that', 'will', 'an', 'on', 'who', 'have', 'at', 'years',
+    'would', 'team', 'hire', 'hiring', 'position', 'please', 'us',
+  ]),
+};
+
+// Fewer signal words than this and the text is too short to tell
+const MIN_SIGNAL_WORDS = 3;
+
+/**
+ * Detects whether a text is Swedish or English from common words and å/ä/ö.
+ * Returns null for short or mixed texts where neither language clearly wins.
+ */
+export function detectLanguage(text: string | undefined): LeadLanguage | null {
+  if (!text) {
+    return null;
+  }
+
+  const words = text.toLowerCase().match(/[a-zåäöéü']+/g) ?? [];
+  const scores: Record<LeadLanguage, number> = { sv: 0, en: 0 };
+
+  for (const word of words) {
+    if (STOPWORDS.sv.has(word) || /[åäö]/.test(word)) {
+      scores.sv++;
+    } else if (STOPWORDS.en.has(word)) {
+      scores.en++;
+    }
+  }
+
+  const total = scores.sv + scores.en;
+  if (total < MIN_SIGNAL_WORDS) {
+    return null;
+  }
+
+  // Two thirds of the signal words, so a Swedish text quoting an English title stays Swedish
+  if (scores.sv / total >= 2 / 3) return 'sv';
+  if (scores.en / total >= 2 / 3) return 'en';
+  return null;
+}
+
+/**
+ * Reads a language override such as "en", "EN-gb" or "sv_SE". Returns undefined for unsupported languages.
+ */
+export function parseLanguage(value: unknown): LeadLanguage | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const code = value.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LANGUAGES.find((language) => language === code);
+}
+
+/**
+ * The language to answer a lead in: the form's override, else the language of
+ * the message, else Swedish
+ */
+export function resolveLeadLanguage(
+  override: LeadLanguage | undefined,
+  texts: Array<string | undefined>
+): { language: LeadLanguage; language_source: 'form' | 'detected' | 'default' } {
+  if (override) {
+    return { language: override, language_source: 'form' };
+  }
+
+  const detected = detectLanguage(texts.filter(Boolean).join('\n'));
+  if (detected) {
+    return { language: detected, language_source: 'detected' };
+  }
+
+  return { language: DEFAULT_LANGUAGE, language_source: 'default' };
+}
@@ -1,4 +1,5 @@
 import type { LogMeta } from '../types/index.js';
+import { getCorrelationId } from './requestContext.js';
 
 /**
  * Masks email for GDPR-compliant logging
@@ -30,6 +31,8 @@ interface LogEntry {
   level: string;
   message: string;
   timestamp: string;
+  // Ties together the lines of one webhook call, admin request or worker run
+  correlation_id?: string;
   error?: string;
   stack?: string;
   [key: string]: unknown;
@@ -55,6 +58,7 @@ export const logger = {
       level: 'info',
       message,
       timestamp: new Date().toISOString(),
+      correlation_id: getCorrelationId(),
       ...meta,
     };
     console.log(JSON.stringify(entry));
@@ -67,6 +71,7 @@ export const logger = {
       error: getErrorMessage(error),
       stack: error instanceof Error ? error.stack : undefined,
       timestamp: new Date().toISOString(),
+      correlation_id: getCorrelationId(),
       ...meta,
     };
     console.error(JSON.stringify(entry));
@@ -77,6 +82,7 @@ export const logger = {
       level: 'warn',
       message,
       timestamp: new Date().toISOString(),
+      correlation_id: getCorrelationId(),
       ...meta,
     };
     console.warn(JSON.stringify(entry));
@@ -88,6 +94,7 @@ export const logger = {
         level: 'debug',
         message,
         timestamp: new Date().toISOString(),
+        correlation_id: getCorrelationId(),
         ...meta,
       };
       console.log(JSON.stringify(entry));
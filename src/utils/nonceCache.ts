@@ -0,0 +1,47 @@
+/**
+ * In-memory set of recently seen nonces with expiry.
+ * Used to reject replayed webhook requests inside the timestamp tolerance window.
+ * Per-process: with several instances, a replay could still reach a different instance
+ * within the window, so keep the tolerance short.
+ */
+export interface NonceCache {
+  /** Returns false if the nonce was already seen (and not yet expired), otherwise stores it */
+  checkAndStore(nonce: string, now?: number): boolean;
+  size(): number;
+}
+
+export function createNonceCache(ttlMs: number, maxEntries: number = 10000): NonceCache {
+  const entries = new Map<string, number>();
+
+  function prune(now: number): void {
+    for (const [nonce, expiresAt] of entries) {
+      if (expiresAt > now) break; // Insertion order = expiry order
+      entries.delete(nonce);
+    }
+
+    // Bound memory under a flood of unique nonces
+    while (entries.size >= maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  }
+
+  return {
+    checkAndStore(nonce, now = Date.now()) {
+      prune(now);
+
+      const expiresAt = entries.get(nonce);
+      if (expiresAt !== undefined && expiresAt > now) {
+        return false;
+      }
+
+      entries.set(nonce, now + ttlMs);
+      return true;
+    },
+
+    size() {
+      return entries.size;
+    },
+  };
+}
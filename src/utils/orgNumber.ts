@@ -0,0 +1,50 @@
+/**
+ * Luhn (mod 10) checksum, as used for the last digit of Swedish organisation and personal numbers
+ */
+export function passesLuhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    // Double every second digit from the right, starting with the one before the check digit
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Normalizes a Swedish organisationsnummer to NNNNNN-NNNN.
+ * Accepts "556036-0793", "5560360793" and the 12-digit form with a century
+ * prefix ("16556036-0793", or 19/20 for sole traders using their personal number).
+ * Returns null unless the number has 10 digits and a valid Luhn check digit.
+ */
+export function normalizeOrgNumber(raw: string | undefined): string | null {
+  if (!raw) {
+    return null;
+  }
+
+  let digits = raw.replace(/[\s\-+]/g, '');
+
+  if (digits.length === 12 && /^(16|19|20)/.test(digits)) {
+    digits = digits.slice(2);
+  }
+
+  if (digits.length !== 10 || !passesLuhnCheck(digits)) {
+    return null;
+  }
+
+  return `${digits.slice(0, 6)}-${digits.slice(6)}`;
+}
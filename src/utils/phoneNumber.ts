@@ -0,0 +1,110 @@
+export type PhoneNumberType = 'mobile' | 'landline' | 'unknown';
+
+export interface NormalizedPhoneNumber {
+  // +46701234567
+  e164: string;
+  // ISO 3166-1 alpha-2 country, null for non-Nordic numbers
+  country: string | null;
+  type: PhoneNumberType;
+}
+
+interface NordicNumberPlan {
+  country: string;
+  callingCode: string;
+  // National prefix dialled before the area code (070..., 08...), dropped in E.164
+  trunkPrefix: string | null;
+  // Valid national significant number (without trunk prefix)
+  pattern: RegExp;
+  mobile: RegExp | null;
+}
+
+/**
+ * Numbering plans for the Nordic countries.
+ * Detection is by number range only - ported numbers and special ranges may be classed as landline.
+ */
+const NORDIC_NUMBER_PLANS: NordicNumberPlan[] = [
+  // Mobile 070/072/073/076/079 + 7 digits, landline area code (08, 031, 0980, ...) + subscriber number
+  { country: 'SE', callingCode: '46', trunkPrefix: '0', pattern: /^[1-9]\d{6,8}$/, mobile: /^7[02369]\d{7}$/ },
+  { country: 'NO', callingCode: '47', trunkPrefix: null, pattern: /^[2-9]\d{7}$/, mobile: /^[49]\d{7}$/ },
+  // Danish mobile and landline ranges overlap, so type is not detected
+  { country: 'DK', callingCode: '45', trunkPrefix: null, pattern: /^[2-9]\d{7}$/, mobile: null },
+  { country: 'FI', callingCode: '358', trunkPrefix: '0', pattern: /^[1-9]\d{4,11}$/, mobile: /^(4\d|50)\d{4,8}$/ },
+  { country: 'IS', callingCode: '354', trunkPrefix: null, pattern: /^[4-8]\d{6}$/, mobile: /^[678]\d{6}$/ },
+];
+
+const DEFAULT_COUNTRY = 'SE';
+
+function detectType(plan: NordicNumberPlan, nationalNumber: string): PhoneNumberType {
+  if (!plan.mobile) {
+    return 'unknown';
+  }
+
+  return plan.mobile.test(nationalNumber) ? 'mobile' : 'landline';
+}
+
+function fromNationalNumber(plan: NordicNumberPlan, nationalNumber: string): NormalizedPhoneNumber | null {
+  if (!plan.pattern.test(nationalNumber)) {
+    return null;
+  }
+
+  return {
+    e164: `+${plan.callingCode}${nationalNumber}`,
+    country: plan.country,
+    type: detectType(plan, nationalNumber),
+  };
+}
+
+/**
+ * Normalizes a phone number to E.164.
+ * Handles "+46 70-123 45 67", "0046701234567", "+46 (0)70 123 45 67" and national numbers
+ * ("070-123 45 67"), which are read as Swedish unless another Nordic country is given.
+ * Numbers outside the Nordics are accepted when they have a country code and 8-15 digits.
+ * Returns null if the number can't be normalized.
+ */
+export function normalizePhoneNumber(
+  raw: string | undefined,
+  defaultCountry: string = DEFAULT_COUNTRY
+): NormalizedPhoneNumber | null {
+  if (!raw) {
+    return null;
+  }
+
+  // "(0)" is a common way of writing the trunk prefix next to the country code
+  const compact = raw.trim().replace(/\(0\)/g, '').replace(/[\s\-().\/]/g, '');
+  const international = compact.startsWith('+') ? compact.slice(1) : compact.startsWith('00') ? compact.slice(2) : null;
+
+  if (international !== null) {
+    if (!/^\d+$/.test(international)) {
+      return null;
+    }
+
+    const plan = NORDIC_NUMBER_PLANS.find((candidate) => international.startsWith(candidate.callingCode));
+    if (plan) {
+      let nationalNumber = international.slice(plan.callingCode.length);
+      // "+460701234567" - the trunk prefix kept after the country code
+      if (plan.trunkPrefix && nationalNumber.startsWith(plan.trunkPrefix)) {
+        nationalNumber = nationalNumber.slice(plan.trunkPrefix.length);
+      }
+      return fromNationalNumber(plan, nationalNumber);
+    }
+
+    if (!/^[1-9]\d{7,14}$/.test(international)) {
+      return null;
+    }
+
+    return { e164: `+${international}`, country: null, type: 'unknown' };
+  }
+
+  const plan = NORDIC_NUMBER_PLANS.find((candidate) => candidate.country === defaultCountry.toUpperCase());
+  if (!plan || !/^\d+$/.test(compact)) {
+    return null;
+  }
+
+  if (plan.trunkPrefix) {
+    return compact.startsWith(plan.trunkPrefix)
+      ? fromNationalNumber(plan, compact.slice(plan.trunkPrefix.length))
+      : null;
+  }
+
+  return fromNationalNumber(plan, compact);
+}
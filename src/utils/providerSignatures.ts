@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import type { ProviderSignatureResult } from '../types/intake.types.js';
+
+/**
+ * Signature schemes of third-party form providers
+ *
+ *   Typeform  Typeform-Signature: sha256=base64(HMAC-SHA256(rawBody))
+ *   HubSpot   X-HubSpot-Signature-v3: base64(HMAC-SHA256(method + uri + rawBody + timestamp))
+ *             X-HubSpot-Request-Timestamp: Unix time in milliseconds
+ *   Webflow   x-webflow-signature: hex(HMAC-SHA256(`${timestamp}:${rawBody}`))
+ *             x-webflow-timestamp: Unix time in milliseconds
+ *   Mailgun   timestamp, token, signature body fields: hex(HMAC-SHA256(timestamp + token))
+ *   Resend    Svix headers svix-id, svix-timestamp (seconds), svix-signature:
+ *             space-separated "v1,<base64(HMAC-SHA256(`${id}.${timestamp}.${rawBody}`))>",
+ *             keyed with the base64 part of the whsec_ secret
+ *
+ * Kept free of app config, like utils/webhookSigning.ts.
+ */
+
+export const TYPEFORM_SIGNATURE_HEADER = 'typeform-signature';
+export const HUBSPOT_SIGNATURE_HEADER = 'x-hubspot-signature-v3';
+export const HUBSPOT_TIMESTAMP_HEADER = 'x-hubspot-request-timestamp';
+export const WEBFLOW_SIGNATURE_HEADER = 'x-webflow-signature';
+export const WEBFLOW_TIMESTAMP_HEADER = 'x-webflow-timestamp';
+export const SVIX_ID_HEADER = 'svix-id';
+export const SVIX_TIMESTAMP_HEADER = 'svix-timestamp';
+export const SVIX_SIGNATURE_HEADER = 'svix-signature';
+
+function hmac(secret: string | Buffer, parts: Array<string | Buffer>, encoding: 'hex' | 'base64'): string {
+  const mac = crypto.createHmac('sha256', secret);
+  for (const part of parts) {
+    mac.update(part);
+  }
+  return mac.digest(encoding);
+}
+
+/**
+ * Timing-safe comparison of two encoded signatures
+ */
+function safeEqual(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+
+  // Buffers must be same length for timingSafeEqual
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+/**
+ * Checks a millisecond timestamp header against the tolerance window
+ */
+function checkTimestampMs(
+  timestamp: string,
+  toleranceSeconds: number,
+  now: number
+): ProviderSignatureResult {
+  if (!/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  if (Math.abs(now - parseInt(timestamp, 10)) > toleranceSeconds * 1000) {
+    return { valid: false, reason: 'timestamp_out_of_range' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Checks a seconds timestamp against the tolerance window
+ */
+function checkTimestampSeconds(
+  timestamp: string,
+  toleranceSeconds: number,
+  now: number
+): ProviderSignatureResult {
+  if (!/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  return checkTimestampMs(String(parseInt(timestamp, 10) * 1000), toleranceSeconds, now);
+}
+
+/**
+ * Verifies a Typeform webhook. Typeform sends no timestamp - replays are
+ * caught by idempotency on the form response token instead.
+ */
+export function verifyTypeformSignature(params: {
+  body: string | Buffer;
+  signature: string | undefined;
+  secret: string;
+}): ProviderSignatureResult {
+  if (!params.signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const expected = `sha256=${hmac(params.secret, [params.body], 'base64')}`;
+
+  return safeEqual(params.signature, expected) ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
+
+/**
+ * Verifies a HubSpot v3 request signature.
+ * `uri` must be the full URL HubSpot called, including protocol, host and query string.
+ */
+export function verifyHubspotSignature(params: {
+  method: string;
+  uri: string;
+  body: string | Buffer;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  now?: number;
+}): ProviderSignatureResult {
+  const { signature, timestamp } = params;
+
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestampCheck = checkTimestampMs(timestamp, params.toleranceSeconds, params.now ?? Date.now());
+  if (!timestampCheck.valid) {
+    return timestampCheck;
+  }
+
+  const expected = hmac(
+    params.secret,
+    [`${params.method.toUpperCase()}${params.uri}`, params.body, timestamp],
+    'base64'
+  );
+
+  return safeEqual(signature, expected) ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
+
+/**
+ * Verifies a Webflow form submission webhook
+ */
+export function verifyWebflowSignature(params: {
+  body: string | Buffer;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  now?: number;
+}): ProviderSignatureResult {
+  const { signature, timestamp } = params;
+
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestampCheck = checkTimestampMs(timestamp, params.toleranceSeconds, params.now ?? Date.now());
+  if (!timestampCheck.valid) {
+    return timestampCheck;
+  }
+
+  const expected = hmac(params.secret, [`${timestamp}:`, params.body], 'hex');
+
+  return safeEqual(signature.toLowerCase(), expected) ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
+
+/**
+ * Verifies a Mailgun inbound route post. The signature covers timestamp and token only,
+ * not the message - Mailgun does not sign the body.
+ */
+export function verifyMailgunSignature(params: {
+  timestamp: string | undefined;
+  token: string | undefined;
+  signature: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  now?: number;
+}): ProviderSignatureResult {
+  const { timestamp, token, signature } = params;
+
+  if (!timestamp || !token || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestampCheck = checkTimestampSeconds(timestamp, params.toleranceSeconds, params.now ?? Date.now());
+  if (!timestampCheck.valid) {
+    return timestampCheck;
+  }
+
+  const expected = hmac(params.secret, [timestamp, token], 'hex');
+
+  return safeEqual(signature.toLowerCase(), expected) ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
+
+/**
+ * Verifies a Svix-signed webhook (used by Resend). The header may list
+ * several signatures during a secret rotation - any match is accepted.
+ */
+export function verifySvixSignature(params: {
+  body: string | Buffer;
+  id: string | undefined;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  now?: number;
+}): ProviderSignatureResult {
+  const { id, timestamp, signature } = params;
+
+  if (!id || !timestamp || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestampCheck = checkTimestampSeconds(timestamp, params.toleranceSeconds, params.now ?? Date.now());
+  if (!timestampCheck.valid) {
+    return timestampCheck;
+  }
+
+  const key = Buffer.from(params.secret.replace(/^whsec_/, ''), 'base64');
+  const expected = hmac(key, [`${id}.${timestamp}.`, params.body], 'base64');
+
+  const matches = signature
+    .split(' ')
+    .some((entry) => entry.startsWith('v1,') && safeEqual(entry.slice(3), expected));
+
+  return matches ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
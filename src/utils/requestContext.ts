@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+
+// Header a correlation ID is accepted from and echoed in
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller-supplied IDs end up in logs and database rows - keep them short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface RequestContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * The caller's X-Request-Id if it is usable, otherwise a new UUID
+ */
+export function resolveCorrelationId(header: string | string[] | undefined): string {
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && REQUEST_ID_PATTERN.test(value.trim()) ? value.trim() : uuidv4();
+}
+
+/**
+ * Runs fn with a request/run context. Everything fn awaits or schedules sees the same context.
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Correlation ID of the current webhook call, admin request, worker run or CLI run - undefined outside one
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
@@ -0,0 +1,191 @@
+import { config } from '../config/env.js';
+import { logger, getErrorMessage } from './logger.js';
+import { withRetry } from './retry.js';
+import { createCircuitBreaker, type CircuitBreaker, type CircuitBreakerSnapshot } from './circuitBreaker.js';
+import type { ExternalDependency } from '../types/index.js';
+
+// Network errors where the request most likely never reached the service
+const RETRYABLE_ERROR_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+const CIRCUIT_OPEN = 'CIRCUIT_OPEN';
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * HTTP status of an SDK or fetch error, if it carries one
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+
+  const { status, statusCode, response } = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } };
+  const value = status ?? statusCode ?? response?.status;
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Whether a failed call is worth retrying: rate limits, server errors, timeouts and dropped connections
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const { code, name, cause } = error as { code?: unknown; name?: unknown; cause?: { code?: unknown } };
+
+  if (code === CIRCUIT_OPEN) return false;
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) return true;
+  if (typeof cause?.code === 'string' && RETRYABLE_ERROR_CODES.has(cause.code)) return true;
+
+  // OpenAI SDK connection errors, aborted or timed out fetches
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError' || name === 'TimeoutError';
+}
+
+/**
+ * Circuit breaker by name - one per dependency, and one per LLM provider (llm:openai, llm:openrouter, ...)
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+
+  if (!breaker) {
+    breaker = createCircuitBreaker(name, {
+      failureThreshold: config.resilience.breakerFailureThreshold,
+      resetTimeoutMs: config.resilience.breakerResetMs,
+    });
+    breakers.set(name, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * State of every breaker that has seen a call, for the health endpoint
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return [...breakers.values()].map((breaker) => breaker.snapshot());
+}
+
+/**
+ * Runs fn with a deadline. fn gets an AbortSignal to cancel its request; the call
+ * is abandoned at the deadline even if fn ignores the signal.
+ */
+export async function withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(Object.assign(new Error(`${label} timed out after ${timeoutMs}ms`), { code: 'ETIMEDOUT' }));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface ExternalCallOptions {
+  // Breaker to use instead of the dependency's own (e.g. one per LLM provider)
+  breaker?: string;
+  // Overrides which errors are retried - e.g. only rate limits for non-idempotent writes
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Calls an external dependency under its policy: a timeout per attempt, retries with
+ * exponential backoff and jitter for retryable errors, and a circuit breaker that fails
+ * fast while the dependency is down. Only retryable errors count against the breaker -
+ * a 4xx means the service is up.
+ */
+export async function callExternal<T>(
+  dependency: ExternalDependency,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: ExternalCallOptions = {}
+): Promise<T> {
+  const policy = config.resilience.dependencies[dependency];
+  const breaker = getCircuitBreaker(options.breaker ?? dependency);
+  const isRetryable = options.isRetryable ?? isRetryableError;
+
+  return withRetry(
+    async () => {
+      if (!breaker.canRequest()) {
+        throw Object.assign(new Error(`${breaker.name} circuit open - failing fast`), { code: CIRCUIT_OPEN });
+      }
+
+      try {
+        const result = await withTimeout(fn, policy.timeoutMs, breaker.name);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (isRetryableError(error)) {
+          breaker.recordFailure(getErrorMessage(error));
+        } else {
+          breaker.recordSuccess();
+        }
+        throw error;
+      }
+    },
+    {
+      retries: policy.retries,
+      baseDelayMs: config.resilience.retryBaseDelayMs,
+      maxDelayMs: config.resilience.retryMaxDelayMs,
+      jitter: true,
+      shouldRetry: (error) => (error as { code?: unknown }).code !== CIRCUIT_OPEN && isRetryable(error),
+      onRetry: (attempt, error, delayMs) => {
+        logger.warn('External call failed, retrying', {
+          dependency: breaker.name,
+          attempt,
+          delayMs,
+          error: getErrorMessage(error),
+        });
+      },
+    }
+  );
+}
+
+/**
+ * fetch for SDKs that accept one (Supabase): every request goes through callExternal.
+ * 429 and 5xx responses are turned into errors so they are retried and counted.
+ * Writes are only retried on 429, since a 5xx or timeout may come after the write happened.
+ */
+export function createResilientFetch(dependency: ExternalDependency): typeof fetch {
+  return (input, init) => {
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const idempotent = method === 'GET' || method === 'HEAD';
+
+    return callExternal(
+      dependency,
+      async (signal) => {
+        const response = await fetch(input, {
+          ...init,
+          signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+        });
+
+        if (response.status === 429 || response.status >= 500) {
+          throw Object.assign(new Error(`${dependency} responded ${response.status}`), { status: response.status });
+        }
+
+        return response;
+      },
+      { isRetryable: (error) => isRetryableError(error) && (idempotent || getErrorStatus(error) === 429) }
+    );
+  };
+}
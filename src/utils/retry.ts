@@ -0,0 +1,54 @@
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  // Randomize each delay so clients hitting the same outage don't retry in lockstep
+  jitter?: boolean;
+  // Errors for which this returns false are rethrown right away
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+/**
+ * Exponential backoff delay for the given attempt (1-based)
+ * e.g., base 1000ms → 1000, 2000, 4000, ... capped at maxDelayMs
+ */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number = 60000): number {
+  const delay = baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, maxDelayMs);
+}
+
+/**
+ * "Equal jitter": a random delay between half the delay and the full delay
+ */
+export function withJitter(delayMs: number, random: () => number = Math.random): number {
+  return Math.round(delayMs / 2 + random() * (delayMs / 2));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an async function, retrying with exponential backoff when it throws.
+ * Makes at most `retries + 1` attempts and rethrows the last error.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > options.retries || (options.shouldRetry && !options.shouldRetry(error))) {
+        throw error;
+      }
+
+      const backoffMs = computeBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      const delayMs = options.jitter ? withJitter(backoffMs) : backoffMs;
+      options.onRetry?.(attempt, error, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
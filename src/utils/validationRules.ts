@@ -0,0 +1,172 @@
+import fs from 'fs';
+import { config } from '../config/env.js';
+import { logger } from './logger.js';
+import { normalizePhoneNumber } from './phoneNumber.js';
+import { normalizeOrgNumber } from './orgNumber.js';
+import { classifyEmail } from './emailClassification.js';
+import { formatValidationErrors } from '../schemas/webhook.js';
+import { ValidationRulesSchema, type ValidationRule, type ValidationRules } from '../schemas/validationRules.js';
+import bundledRules from '../config/rules/validation-rules.json' with { type: 'json' };
+import type { FormData, FiredRule, ValidationDetails } from '../types/index.js';
+
+export interface RuleEvaluation {
+  validation_score: number;
+  is_likely_spam: boolean;
+  validation_details: ValidationDetails;
+  fired_rules: FiredRule[];
+  rules_version: string;
+}
+
+/**
+ * Parses and checks a rules document. Throws with the validation errors if it is invalid.
+ */
+export function parseValidationRules(raw: unknown): ValidationRules {
+  const result = ValidationRulesSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`Invalid validation rules: ${formatValidationErrors(result.error)}`);
+  }
+
+  return result.data;
+}
+
+const defaultRules = parseValidationRules(bundledRules);
+
+let activeRules: ValidationRules = defaultRules;
+let loadedMtimeMs: number | null = null;
+let lastCheckedAt = 0;
+
+/**
+ * Reloads the rules file at VALIDATION_RULES_PATH when it has changed.
+ * An invalid or unreadable file is logged and the last good rules stay active.
+ */
+function refreshRulesFromFile(path: string): void {
+  let mtimeMs: number;
+
+  try {
+    mtimeMs = fs.statSync(path).mtimeMs;
+  } catch (error) {
+    logger.error('Validation rules file not readable, keeping previous rules', error, {
+      path,
+      activeVersion: activeRules.version,
+    });
+    return;
+  }
+
+  if (mtimeMs === loadedMtimeMs) {
+    return;
+  }
+
+  // Remember the file version even if it's broken, so it isn't re-parsed until it changes again
+  loadedMtimeMs = mtimeMs;
+
+  try {
+    activeRules = parseValidationRules(JSON.parse(fs.readFileSync(path, 'utf8')));
+    logger.info('Validation rules loaded', { path, version: activeRules.version });
+  } catch (error) {
+    logger.error('Failed to load validation rules, keeping previous rules', error, {
+      path,
+      activeVersion: activeRules.version,
+    });
+  }
+}
+
+/**
+ * Returns the active validation rules.
+ * Uses the bundled rules unless VALIDATION_RULES_PATH is set; that file is checked for
+ * changes at most every VALIDATION_RULES_RELOAD_MS, so rules can be tuned without a deploy.
+ */
+export function getValidationRules(): ValidationRules {
+  const path = config.validation.rulesPath;
+
+  if (!path) {
+    return defaultRules;
+  }
+
+  const now = Date.now();
+  if (lastCheckedAt === 0 || now - lastCheckedAt >= config.validation.reloadIntervalMs) {
+    lastCheckedAt = now;
+    refreshRulesFromFile(path);
+  }
+
+  return activeRules;
+}
+
+function matchesFormat(format: Extract<ValidationRule, { type: 'format' }>['format'], value: string): boolean {
+  switch (format) {
+    case 'phone':
+      return normalizePhoneNumber(value) !== null;
+    case 'org_number':
+      return normalizeOrgNumber(value) !== null;
+    case 'free_mail':
+      return classifyEmail(value).domain_type === 'free_mail';
+    case 'disposable_email':
+      return classifyEmail(value).domain_type === 'disposable';
+    case 'role_address':
+      return classifyEmail(value).is_role_address;
+  }
+}
+
+/**
+ * Whether a rule's condition holds for the lead
+ */
+export function ruleMatches(rule: ValidationRule, lead: FormData): boolean {
+  const value = lead[rule.field] || '';
+
+  switch (rule.type) {
+    case 'regex':
+      return new RegExp(rule.pattern, rule.flags).test(value);
+    case 'min_length':
+      return value.length >= rule.value;
+    case 'contains':
+      return value.toLowerCase().includes(rule.value.toLowerCase());
+    case 'format':
+      return matchesFormat(rule.format, value);
+  }
+}
+
+/**
+ * Runs quality and spam rules against a lead.
+ * The validation score is the matched share of the total quality weight (0-100);
+ * the lead is likely spam when matched spam weight reaches the spam threshold.
+ */
+export function evaluateValidationRules(lead: FormData, rules: ValidationRules = getValidationRules()): RuleEvaluation {
+  const qualityRules = rules.quality_rules.filter((rule) => rule.enabled);
+  const spamRules = rules.spam_rules.filter((rule) => rule.enabled);
+
+  const details: ValidationDetails = {
+    needs_description_length: (lead.needs_description || '').length,
+  };
+  const firedRules: FiredRule[] = [];
+
+  let totalWeight = 0;
+  let qualityWeight = 0;
+
+  for (const rule of qualityRules) {
+    const matched = ruleMatches(rule, lead);
+    details[rule.id] = matched;
+    totalWeight += rule.weight;
+
+    if (matched) {
+      qualityWeight += rule.weight;
+      firedRules.push({ id: rule.id, category: 'quality', weight: rule.weight, explanation: rule.explanation });
+    }
+  }
+
+  let spamWeight = 0;
+
+  for (const rule of spamRules) {
+    if (ruleMatches(rule, lead)) {
+      spamWeight += rule.weight;
+      firedRules.push({ id: rule.id, category: 'spam', weight: rule.weight, explanation: rule.explanation });
+    }
+  }
+
+  return {
+    validation_score: totalWeight > 0 ? Math.round((qualityWeight / totalWeight) * 100) : 0,
+    is_likely_spam: spamWeight >= rules.thresholds.spam_threshold,
+    validation_details: details,
+    fired_rules: firedRules,
+    rules_version: rules.version,
+  };
+}
@@ -1,11 +1,15 @@
 import { logger } from './logger.js';
+import { evaluateValidationRules, getValidationRules } from './validationRules.js';
+import { normalizePhoneNumber } from './phoneNumber.js';
+import { classifyEmail } from './emailClassification.js';
+import { resolveLeadLanguage } from './languageDetection.js';
 import type {
   FormData,
   ValidatedLead,
-  ValidationDetails,
   AIScoreResult,
   NormalizedCompanyData,
   ContactData,
+  WebhookRequestBody,
 } from '../types/index.js';
 
 interface DataWithDomainInput {
@@ -28,88 +32,95 @@ interface SwitchData {
 }
 
 /**
- * Validates lead data and performs spam detection
- * Replicates the "Lead Data Validation" code node in original n8n flow
+ * Structures a validated webhook body as form data for the pipeline.
+ * Phone numbers are stored in E.164 when they can be normalized, otherwise as submitted.
+ * The reply language is the form's `language` field, or detected from the message.
  */
-export function validateLead(lead: FormData): ValidatedLead {
-  const validation: ValidationDetails = {
-    email_valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email || ''),
-    phone_valid: /[\d\s\-+()]{8,}/.test(lead.phone || ''),
-    company_filled: (lead.company_name || '').length > 2,
-    needs_description_length: (lead.needs_description || '').length,
-    needs_adequate: (lead.needs_description || '').length >= 50,
-    contact_name_filled: (lead.full_name || '').length > 2,
+export function structureFormData(body: WebhookRequestBody, id: string, source: string): FormData {
+  const phone = normalizePhoneNumber(body.phone);
+  const language = resolveLeadLanguage(body.language, [body.subject, body.message]);
+
+  return {
+    id,
+    full_name: body.name,
+    email: body.email,
+    phone: phone?.e164 ?? body.phone,
+    company_name: body.company,
+    industry: body.industry,
+    service_type: body.service_type,
+    needs_description: body.message,
+    subject: body.subject,
+    org_number: body.org_number,
+    ...(phone && { phone_country: phone.country, phone_type: phone.type }),
+    ...language,
+    source,
   };
+}
 
-  // Calculate basic validation score (0-100)
-  const booleanFields: (keyof ValidationDetails)[] = [
-    'email_valid',
-    'phone_valid',
-    'company_filled',
-    'needs_adequate',
-    'contact_name_filled',
-  ];
-  const validFields = booleanFields.filter((key) => validation[key] === true).length;
-  // Add 1 for needs_description_length check (considered valid if > 0)
-  const totalFields = 6;
-  const validationScore = Math.round(((validFields + (validation.needs_description_length > 0 ? 1 : 0)) / totalFields) * 100);
-
-  // Check for spam indicators
-  const spamIndicators = [
-    /(viagra|cialis|casino|crypto|bitcoin)/i.test(lead.needs_description || ''),
-    /(click here|buy now|limited offer)/i.test(lead.needs_description || ''),
-    (lead.needs_description || '').includes('http'),
-    Boolean((lead.email || '').match(/@(test|example|temp|fake)/i)),
-  ];
-
-  const isLikelySpam = spamIndicators.filter((v) => v).length >= 2;
+/**
+ * Whether a validated lead goes on to AI scoring
+ * Replicates the "If" node after validation in original n8n flow (threshold from the rules file).
+ * Submissions that failed the anti-bot checks never reach the AI.
+ */
+export function passesValidationGate(lead: ValidatedLead): boolean {
+  return (
+    lead.validation_score > getValidationRules().thresholds.min_validation_score &&
+    !lead.is_likely_spam &&
+    lead.bot_check?.passed !== false
+  );
+}
+
+/**
+ * Validates lead data and performs spam detection
+ * Replicates the "Lead Data Validation" code node in original n8n flow.
+ * Checks, weights and thresholds come from the validation rules file (utils/validationRules.ts).
+ */
+export function validateLead(lead: FormData): ValidatedLead {
+  const evaluation = evaluateValidationRules(lead);
 
   logger.debug('Lead validation complete', {
-    validationScore,
-    isLikelySpam,
-    validFields,
+    validationScore: evaluation.validation_score,
+    isLikelySpam: evaluation.is_likely_spam,
+    firedRules: evaluation.fired_rules.map((rule) => rule.id),
+    rulesVersion: evaluation.rules_version,
   });
 
   return {
     ...lead,
-    validation_score: validationScore,
-    is_likely_spam: isLikelySpam,
-    validation_details: validation,
+    ...evaluation,
   };
 }
 
+/**
+ * Company name for a lead that didn't give one (e.g. an email from a personal address).
+ * Carries the sender, so unrelated leads aren't matched to one company by name.
+ */
+export function unknownCompanyName(email: string): string {
+  return `Unknown (${email})`;
+}
+
+function isUnknownCompanyName(name: string): boolean {
+  return /^Unknown \(.+\)$/.test(name);
+}
+
 /**
  * Extracts domain from email or company name
- * Replicates the "Extract Domain" code node in original n8n flow
+ * Replicates the "Extract Domain" code node in original n8n flow.
+ * Free-mail and disposable domains (src/config/rules/email-domains.json) are never used.
  */
 export function extractDomain<T extends DataWithDomainInput>(data: T): T & DataWithDomainResult {
   let domain: string | null = null;
   let domainSource: 'email' | 'guessed' | 'none' = 'none';
 
-  // Try to extract from email domain first
-  if (data.email && data.email.includes('@')) {
-    const emailDomain = data.email.split('@')[1].toLowerCase();
-
-    // Only use if NOT a personal email domain
-    const personalDomains = [
-      'gmail.com',
-      'hotmail.com',
-      'outlook.com',
-      'icloud.com',
-      'yahoo.com',
-      'live.com',
-      'hotmail.se',
-      'outlook.se',
-    ];
-
-    if (!personalDomains.includes(emailDomain)) {
-      domain = emailDomain;
-      domainSource = 'email';
-    }
+  // Try to extract from email domain first - only a company domain identifies the company
+  const email = classifyEmail(data.email);
+  if (email.domain_type === 'company') {
+    domain = email.domain;
+    domainSource = 'email';
   }
 
   // Fallback: try to guess from company name
-  if (!domain && data.company_name) {
+  if (!domain && data.company_name && !isUnknownCompanyName(data.company_name)) {
     // Simple guess: company name + .se (Swedish default)
     const cleanName = data.company_name
       .toLowerCase()
@@ -169,6 +180,6 @@ export function prepareContactData(formData: FormData, switchData: SwitchData):
     full_name: formData.full_name,
     email: formData.email.toLowerCase().trim(),
     phone: formData.phone,
-    source: 'website_form',
+    source: formData.source || 'website_form',
   };
 }
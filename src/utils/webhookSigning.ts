@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook signing scheme (shared by the API, the form frontend and tests)
+ *
+ *   signed payload = `${timestamp}.${nonce}.${rawBody}`
+ *   signature      = hex(HMAC-SHA256(signed payload, secret))
+ *
+ * Sent as headers:
+ *   x-webhook-timestamp  Unix time in seconds
+ *   x-webhook-nonce      Unique value per request (e.g. a UUID)
+ *   x-webhook-signature  Hex signature
+ *
+ * Keep this module free of app config so it can be copied or imported as-is.
+ */
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const NONCE_HEADER = 'x-webhook-nonce';
+
+export interface SignedWebhookHeaders {
+  [SIGNATURE_HEADER]: string;
+  [TIMESTAMP_HEADER]: string;
+  [NONCE_HEADER]: string;
+}
+
+export type SignatureVerificationResult =
+  | { valid: true; secretIndex: number }
+  | { valid: false; reason: 'missing_headers' | 'invalid_timestamp' | 'timestamp_out_of_range' | 'signature_mismatch' };
+
+/**
+ * Computes the hex signature for a request
+ */
+export function computeWebhookSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string | Buffer
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.`)
+    .update(body)
+    .digest('hex');
+}
+
+/**
+ * Signs a request body and returns the headers to send with it
+ */
+export function signWebhookPayload(
+  body: string | Buffer,
+  secret: string,
+  options: { timestamp?: number; nonce?: string } = {}
+): SignedWebhookHeaders {
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = options.nonce ?? crypto.randomUUID();
+
+  return {
+    [SIGNATURE_HEADER]: computeWebhookSignature(secret, timestamp, nonce, body),
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+  };
+}
+
+/**
+ * Timing-safe comparison of two hex signatures
+ */
+export function signaturesMatch(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received, 'hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+
+  // Buffers must be same length for timingSafeEqual
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+/**
+ * Verifies a signed request against every active secret.
+ * Accepting several secrets at once lets the secret be rotated without downtime:
+ * add the new secret, switch the sender, then remove the old one.
+ * Does not check the nonce for reuse - the caller owns the nonce cache.
+ */
+export function verifySignedRequest(params: {
+  body: string | Buffer;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  nonce: string | undefined;
+  secrets: string[];
+  toleranceSeconds: number;
+  now?: number;
+}): SignatureVerificationResult {
+  const { signature, timestamp, nonce } = params;
+
+  if (!signature || !timestamp || !nonce) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  if (!/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  const nowSeconds = Math.floor((params.now ?? Date.now()) / 1000);
+  if (Math.abs(nowSeconds - parseInt(timestamp, 10)) > params.toleranceSeconds) {
+    return { valid: false, reason: 'timestamp_out_of_range' };
+  }
+
+  const secretIndex = params.secrets.findIndex((secret) =>
+    signaturesMatch(signature, computeWebhookSignature(secret, timestamp, nonce, params.body))
+  );
+
+  if (secretIndex === -1) {
+    return { valid: false, reason: 'signature_mismatch' };
+  }
+
+  return { valid: true, secretIndex };
+}
@@ -0,0 +1,19 @@
+import { logger } from './utils/logger.js';
+import { startLeadWorker, stopLeadWorker } from './services/leads/leadWorker.js';
+
+/**
+ * Standalone lead worker process
+ * For deployments where the API runs serverless (LEAD_WORKER_ENABLED=false there)
+ */
+startLeadWorker();
+
+function shutdown(signal: string) {
+  logger.info(`${signal} received, stopping lead worker`);
+
+  stopLeadWorker()
+    .catch((err) => logger.error('Error stopping lead worker', err))
+    .finally(() => process.exit(0));
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
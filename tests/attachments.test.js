@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  detectAttachmentKind,
+  sanitizeFilename,
+  isAllowedAttachmentUrl,
+  findAttachmentProblem,
+  appendAttachmentText,
+  extractAttachmentText,
+} from '../dist/services/intake/attachments.js';
+import { buildPdf } from './helpers/pdf.js';
+
+const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+describe('detectAttachmentKind', () => {
+  it('should detect PDFs by content, whatever they are called', () => {
+    assert.strictEqual(detectAttachmentKind({ filename: 'job.txt', content_type: 'text/plain', data: buildPdf('x') }), 'pdf');
+  });
+
+  it('should only accept zip files named or typed as DOCX', () => {
+    assert.strictEqual(detectAttachmentKind({ filename: 'Job.DOCX', content_type: 'application/octet-stream', data: zip }), 'docx');
+    assert.strictEqual(detectAttachmentKind({ filename: 'archive.zip', content_type: 'application/zip', data: zip }), null);
+  });
+
+  it('should reject other files', () => {
+    assert.strictEqual(detectAttachmentKind({ filename: 'job.pdf', content_type: 'application/pdf', data: Buffer.from('MZ') }), null);
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('should strip directories and unsafe characters', () => {
+    assert.strictEqual(sanitizeFilename('../../etc/passwd'), 'passwd');
+    assert.strictEqual(sanitizeFilename('C:\\Users\\anna\\Jobb annons (1).pdf'), 'Jobb_annons_1_.pdf');
+    assert.strictEqual(sanitizeFilename('...'), 'attachment');
+  });
+});
+
+describe('isAllowedAttachmentUrl', () => {
+  const hosts = ['files.example.com'];
+
+  it('should accept https URLs on allowed hosts and their subdomains', () => {
+    assert.strictEqual(isAllowedAttachmentUrl('https://files.example.com/a.pdf?token=x', hosts), true);
+    assert.strictEqual(isAllowedAttachmentUrl('https://eu.files.example.com/a.pdf', hosts), true);
+  });
+
+  it('should reject other hosts, plain http and malformed URLs', () => {
+    assert.strictEqual(isAllowedAttachmentUrl('https://evil-files.example.com/a.pdf', hosts), false);
+    assert.strictEqual(isAllowedAttachmentUrl('https://files.example.com.evil.io/a.pdf', hosts), false);
+    assert.strictEqual(isAllowedAttachmentUrl('http://files.example.com/a.pdf', hosts), false);
+    assert.strictEqual(isAllowedAttachmentUrl('not a url', hosts), false);
+  });
+
+  it('should refuse all URLs when no hosts are configured', () => {
+    assert.strictEqual(isAllowedAttachmentUrl('https://files.example.com/a.pdf', []), false);
+  });
+});
+
+describe('findAttachmentProblem', () => {
+  it('should accept PDF and DOCX uploads', () => {
+    const files = [
+      { filename: 'a.pdf', content_type: 'application/pdf', data: buildPdf('x') },
+      { filename: 'b.docx', content_type: 'application/octet-stream', data: zip },
+    ];
+
+    assert.strictEqual(findAttachmentProblem(files, []), null);
+  });
+
+  it('should reject unsupported types and too many files', () => {
+    const exe = { filename: 'setup.exe', content_type: 'application/pdf', data: Buffer.from('MZ') };
+
+    assert.match(findAttachmentProblem([exe], []), /Unsupported attachment type: setup.exe/);
+    assert.match(findAttachmentProblem([], ['https://a/1', 'https://a/2', 'https://a/3', 'https://a/4']), /Too many attachments/);
+  });
+
+  it('should reject URLs outside the allowed hosts', () => {
+    assert.strictEqual(findAttachmentProblem([], ['https://169.254.169.254/latest']), 'Attachment URL not allowed');
+  });
+});
+
+describe('extractAttachmentText', () => {
+  it('should extract text from a PDF', async () => {
+    const text = await extractAttachmentText({
+      filename: 'job.pdf',
+      content_type: 'application/pdf',
+      data: buildPdf('Senior ekonom till Goteborg'),
+    });
+
+    assert.match(text, /Senior ekonom till Goteborg/);
+  });
+
+  it('should fail on a broken DOCX', async () => {
+    await assert.rejects(
+      extractAttachmentText({ filename: 'job.docx', content_type: 'application/octet-stream', data: zip }),
+      /Failed to extract text from job.docx/
+    );
+  });
+});
+
+describe('appendAttachmentText', () => {
+  it('should append one section per file', () => {
+    const result = appendAttachmentText('Vi söker en ekonom.', [
+      { filename: 'annons.pdf', text: 'Heltid, Göteborg' },
+      { filename: 'empty.docx', text: '' },
+    ]);
+
+    assert.strictEqual(result, 'Vi söker en ekonom.\n\n[Attached file: annons.pdf]\nHeltid, Göteborg');
+  });
+
+  it('should use the attachment text when there is no description', () => {
+    assert.strictEqual(appendAttachmentText(undefined, [{ filename: 'a.pdf', text: 'Text' }]), '[Attached file: a.pdf]\nText');
+    assert.strictEqual(appendAttachmentText(undefined, []), undefined);
+  });
+
+  it('should cut off long attachment text', () => {
+    const result = appendAttachmentText('Behov', [{ filename: 'a.pdf', text: 'x'.repeat(100) }], 30);
+
+    assert.strictEqual(result, `Behov\n\n[Attached file: a.pdf]\n${'x'.repeat(7)} […]`);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  parseFormRenderedAt,
+  checkFormSignals,
+  runBotCheck,
+  withoutBotCheckFields,
+} from '../dist/services/intake/botProtection.js';
+import { getCaptchaVerifier, stubCaptchaVerifier } from '../dist/services/intake/captchaVerifiers.js';
+
+const now = Date.parse('2026-10-19T12:00:00Z');
+
+describe('parseFormRenderedAt', () => {
+  it('should read epoch seconds, epoch ms and ISO dates', () => {
+    assert.strictEqual(parseFormRenderedAt(now), now);
+    assert.strictEqual(parseFormRenderedAt(now / 1000), now);
+    assert.strictEqual(parseFormRenderedAt(String(now)), now);
+    assert.strictEqual(parseFormRenderedAt('2026-10-19T12:00:00Z'), now);
+  });
+
+  it('should return null for missing or unreadable values', () => {
+    assert.strictEqual(parseFormRenderedAt(undefined), null);
+    assert.strictEqual(parseFormRenderedAt(''), null);
+    assert.strictEqual(parseFormRenderedAt('yesterday-ish'), null);
+  });
+});
+
+describe('checkFormSignals', () => {
+  it('should pass a normal submission', () => {
+    assert.deepStrictEqual(checkFormSignals({ honeypot: '', form_rendered_at: now - 45000 }, now, 3000), {
+      reasons: [],
+      fill_time_ms: 45000,
+    });
+  });
+
+  it('should flag a filled honeypot', () => {
+    assert.deepStrictEqual(checkFormSignals({ honeypot: 'http://spam.example' }, now, 3000).reasons, ['honeypot_filled']);
+  });
+
+  it('should flag forms filled faster than the minimum', () => {
+    assert.deepStrictEqual(checkFormSignals({ form_rendered_at: now - 800 }, now, 3000).reasons, ['filled_too_fast']);
+  });
+
+  it('should ignore render times in the future', () => {
+    const result = checkFormSignals({ form_rendered_at: now + 60000 }, now, 3000);
+
+    assert.deepStrictEqual(result.reasons, []);
+    assert.strictEqual(result.fill_time_ms, -60000);
+  });
+});
+
+describe('runBotCheck', () => {
+  const options = { requireCaptcha: false, verifier: stubCaptchaVerifier, now, minFillTimeMs: 3000 };
+
+  it('should pass a valid CAPTCHA token', async () => {
+    const result = await runBotCheck({ captcha_token: 'token' }, options);
+
+    assert.deepStrictEqual(result, { passed: true, reasons: [], fill_time_ms: null, captcha: 'passed' });
+  });
+
+  it('should fail a rejected CAPTCHA token', async () => {
+    const result = await runBotCheck({ captcha_token: 'fail' }, options);
+
+    assert.strictEqual(result.passed, false);
+    assert.deepStrictEqual(result.reasons, ['captcha_failed']);
+  });
+
+  it('should only fail a missing token when CAPTCHA is required', async () => {
+    assert.strictEqual((await runBotCheck({}, options)).captcha, 'not_checked');
+
+    const required = await runBotCheck({}, { ...options, requireCaptcha: true });
+    assert.deepStrictEqual(required.reasons, ['captcha_missing']);
+  });
+
+  it('should let the submission through when the CAPTCHA service is down', async () => {
+    const unreachable = {
+      provider: 'turnstile',
+      verify: async () => {
+        throw new Error('timeout');
+      },
+    };
+
+    const result = await runBotCheck({ captcha_token: 'token' }, { ...options, verifier: unreachable });
+
+    assert.strictEqual(result.passed, true);
+    assert.strictEqual(result.captcha, 'error');
+  });
+
+  it('should skip CAPTCHA checks without a configured provider', async () => {
+    const result = await runBotCheck({ captcha_token: 'fail', honeypot: 'x' }, { ...options, verifier: null });
+
+    assert.strictEqual(result.captcha, 'not_checked');
+    assert.deepStrictEqual(result.reasons, ['honeypot_filled']);
+  });
+});
+
+describe('captcha verifiers', () => {
+  it('should select the verifier by provider', () => {
+    assert.strictEqual(getCaptchaVerifier('stub'), stubCaptchaVerifier);
+    assert.strictEqual(getCaptchaVerifier('turnstile').provider, 'turnstile');
+    assert.strictEqual(getCaptchaVerifier('hcaptcha').provider, 'hcaptcha');
+    assert.strictEqual(getCaptchaVerifier(undefined), null);
+  });
+});
+
+describe('withoutBotCheckFields', () => {
+  it('should drop the anti-bot fields', () => {
+    const body = { name: 'Anna', honeypot: '', form_rendered_at: now, captcha_token: 't' };
+
+    assert.deepStrictEqual(withoutBotCheckFields(body), { name: 'Anna' });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyEmail } from '../dist/utils/emailClassification.js';
+import { validateLead, extractDomain } from '../dist/utils/validator.js';
+
+describe('classifyEmail', () => {
+  it('should classify company, free-mail and disposable domains', () => {
+    assert.strictEqual(classifyEmail('anna@techcompany.se').domain_type, 'company');
+    assert.strictEqual(classifyEmail('anna@gmail.com').domain_type, 'free_mail');
+    assert.strictEqual(classifyEmail('anna@mailinator.com').domain_type, 'disposable');
+  });
+
+  it('should treat Nordic ISP mail as free-mail', () => {
+    assert.strictEqual(classifyEmail('anna@telia.com').domain_type, 'free_mail');
+    assert.strictEqual(classifyEmail('anna@bredband.net').domain_type, 'free_mail');
+    assert.strictEqual(classifyEmail('ola@online.no').domain_type, 'free_mail');
+  });
+
+  it('should match subdomains of listed domains', () => {
+    assert.strictEqual(classifyEmail('anna@mail.telia.com').domain_type, 'free_mail');
+    assert.strictEqual(classifyEmail('x@eu.mailinator.com').domain_type, 'disposable');
+  });
+
+  it('should detect role addresses', () => {
+    assert.strictEqual(classifyEmail('info@company.se').is_role_address, true);
+    assert.strictEqual(classifyEmail('Jobb@company.se').is_role_address, true);
+    assert.strictEqual(classifyEmail('noreply+forms@company.se').is_role_address, true);
+    assert.strictEqual(classifyEmail('anna.info@company.se').is_role_address, false);
+  });
+
+  it('should return nulls for missing or malformed addresses', () => {
+    assert.deepStrictEqual(classifyEmail(undefined), { domain: null, domain_type: null, is_role_address: false });
+    assert.deepStrictEqual(classifyEmail('not-an-email'), { domain: null, domain_type: null, is_role_address: false });
+  });
+});
+
+describe('email classification in validation', () => {
+  const lead = {
+    full_name: 'Anna Svensson',
+    phone: '+46 70 123 4567',
+    company_name: 'Tech Company AB',
+    needs_description: 'Vi behöver en junior utvecklare med erfarenhet av React och Node.js för vårt växande team.',
+  };
+
+  it('should flag disposable inboxes as likely spam', () => {
+    const result = validateLead({ ...lead, email: 'anna@yopmail.com' });
+
+    assert.strictEqual(result.is_likely_spam, true);
+    assert.ok(result.fired_rules.some((rule) => rule.id === 'disposable_email'));
+  });
+
+  it('should count role addresses towards spam without flagging them alone', () => {
+    const result = validateLead({ ...lead, email: 'info@techcompany.se' });
+
+    assert.strictEqual(result.is_likely_spam, false);
+    assert.ok(result.fired_rules.some((rule) => rule.id === 'role_address'));
+  });
+
+  it('should not use free-mail domains as the company domain', () => {
+    const result = extractDomain({ email: 'anna@telia.com', company_name: 'Bygg AB' });
+
+    assert.strictEqual(result.domain_source, 'guessed');
+    assert.strictEqual(result.extracted_domain, 'bygg.se');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+Object.assign(process.env, FAKE_BACKEND_ENV, { RESEND_RETRIES: '2', EXTERNAL_RETRY_BASE_DELAY_MS: '1' });
+
+const { sendEmailToLead } = await import('../dist/services/emailService.js');
+
+const jobAd = {
+  title: 'Junior ekonom',
+  description: 'Vi söker en junior ekonom.',
+  location: 'Stockholm',
+  category: 'Ekonomi',
+  external_url: 'https://rookiework.se/jobs/junior-ekonom',
+  posted_date: '2026-01-01',
+};
+
+const resendError = (status, name) =>
+  new Response(JSON.stringify({ statusCode: status, name, message: `${name} from test` }), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('sendEmailToLead', () => {
+  const realFetch = globalThis.fetch;
+  let responses;
+  let sends;
+
+  beforeEach(() => {
+    responses = [];
+    sends = 0;
+    globalThis.fetch = async () => {
+      sends++;
+      return responses.shift() ?? new Response(JSON.stringify({ id: 'email-1' }), { status: 200 });
+    };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('should retry rate limited sends', async () => {
+    responses.push(resendError(429, 'rate_limit_exceeded'));
+
+    const result = await sendEmailToLead('anna@techcompany.se', jobAd, 'Tech Company AB');
+
+    assert.strictEqual(result.id, 'email-1');
+    assert.strictEqual(sends, 2);
+  });
+
+  it('should not resend after a server error, which may come after the email went out', async () => {
+    responses.push(resendError(500, 'internal_server_error'));
+
+    await assert.rejects(sendEmailToLead('anna@techcompany.se', jobAd, 'Tech Company AB'), /internal_server_error/);
+    assert.strictEqual(sends, 1);
+  });
+});
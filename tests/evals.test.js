@@ -0,0 +1,213 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import { EvalDatasetSchema } from '../dist/schemas/evalDataset.js';
+import {
+  computeFixtureKey,
+  createRecordingLLMRouter,
+  createReplayLLMRouter,
+} from '../dist/services/llm/recordedRouter.js';
+import {
+  buildConfusionMatrix,
+  compareEvalReports,
+  formatEvalReport,
+  summarizeResults,
+  jobLabel,
+  LEAD_LABELS,
+  JOB_LABELS,
+} from '../dist/services/evals/evalReport.js';
+
+const messages = [
+  { role: 'system', content: 'You score leads.' },
+  { role: 'user', content: 'Company Name: Tech Company AB' },
+];
+
+function leadResult(id, expected, actual, score) {
+  return { id, expected, actual, score, provenance: null, ...(actual === null && { error: 'LLM down' }) };
+}
+
+function jobResult(id, expected, actual, score) {
+  return { id, expected, actual, score, provenance: null };
+}
+
+function report(leads, jobs = []) {
+  return {
+    dataset: 'golden-test',
+    mode: 'replay',
+    created_at: '2026-01-01T00:00:00.000Z',
+    prompt_versions: { lead_scoring: 'abc123abc123' },
+    leads: summarizeResults(leads, LEAD_LABELS, (classification) => classification),
+    jobs: summarizeResults(jobs, JOB_LABELS, jobLabel),
+  };
+}
+
+describe('EvalDatasetSchema', () => {
+  it('should accept the bundled golden dataset', () => {
+    const raw = JSON.parse(fs.readFileSync(new URL('../evals/golden-dataset.json', import.meta.url), 'utf8'));
+    const result = EvalDatasetSchema.safeParse(raw);
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.data.leads.length > 0);
+    assert.ok(result.data.jobs.length > 0);
+  });
+
+  it('should fill in job defaults', () => {
+    const dataset = EvalDatasetSchema.parse({
+      name: 'test',
+      jobs: [{ id: 'job-1', job: { title: 'Ekonom', company: 'AB', description: '' }, expected: { isValid: true } }],
+    });
+
+    assert.deepStrictEqual(dataset.leads, []);
+    assert.strictEqual(dataset.jobs[0].job.source, 'indeed');
+    assert.strictEqual(dataset.jobs[0].job.location, '');
+  });
+
+  it('should reject unknown classifications', () => {
+    const result = EvalDatasetSchema.safeParse({
+      name: 'test',
+      leads: [{ id: 'lead-1', form_data: {}, expected: { classification: 'maybe' } }],
+    });
+
+    assert.strictEqual(result.success, false);
+  });
+
+  it('should reject duplicate ids', () => {
+    const lead = { id: 'lead-1', form_data: {}, expected: { classification: 'valid_lead' } };
+    const result = EvalDatasetSchema.safeParse({ name: 'test', leads: [lead, lead] });
+
+    assert.strictEqual(result.success, false);
+    assert.match(result.error.errors[0].message, /Duplicate id: lead-1/);
+  });
+});
+
+describe('recorded LLM routers', () => {
+  it('should replay what was recorded without calling the live router', async () => {
+    const fixtures = {};
+    let liveCalls = 0;
+    const live = {
+      async complete() {
+        liveCalls++;
+        return { content: '{"lead_score": 80}', provider: 'openai', model: 'gpt-4o-mini' };
+      },
+    };
+
+    await createRecordingLLMRouter(live, fixtures).complete('lead_scoring', messages);
+    const replayed = await createReplayLLMRouter(fixtures).complete('lead_scoring', messages);
+
+    assert.strictEqual(liveCalls, 1);
+    assert.deepStrictEqual(replayed, { content: '{"lead_score": 80}', provider: 'openai', model: 'gpt-4o-mini' });
+    assert.strictEqual(fixtures[computeFixtureKey('lead_scoring', messages)].task, 'lead_scoring');
+  });
+
+  it('should throw for calls that were not recorded', async () => {
+    const changed = [messages[0], { role: 'user', content: 'Company Name: Other AB' }];
+
+    await assert.rejects(
+      () => createReplayLLMRouter({}).complete('lead_scoring', changed),
+      /No recorded LLM response for lead_scoring/
+    );
+  });
+
+  it('should key fixtures on task and messages', () => {
+    assert.strictEqual(computeFixtureKey('lead_scoring', messages), computeFixtureKey('lead_scoring', [...messages]));
+    assert.notStrictEqual(computeFixtureKey('lead_scoring', messages), computeFixtureKey('job_evaluation', messages));
+  });
+});
+
+describe('buildConfusionMatrix', () => {
+  it('should count expected against actual labels with an error column', () => {
+    const matrix = buildConfusionMatrix(JOB_LABELS, [
+      { expected: 'valid', actual: 'valid' },
+      { expected: 'valid', actual: 'invalid' },
+      { expected: 'invalid', actual: null },
+    ]);
+
+    assert.deepStrictEqual(matrix, {
+      valid: { valid: 1, invalid: 1, error: 0 },
+      invalid: { valid: 0, invalid: 0, error: 1 },
+    });
+  });
+});
+
+describe('summarizeResults', () => {
+  it('should compute accuracy with errors counted as wrong', () => {
+    const summary = report([
+      leadResult('a', 'valid_lead', 'valid_lead', 80),
+      leadResult('b', 'likely_spam', 'likely_spam', 5),
+      leadResult('c', 'invalid_lead', 'valid_lead', 45),
+      leadResult('d', 'valid_lead', null, null),
+    ]).leads;
+
+    assert.strictEqual(summary.total, 4);
+    assert.strictEqual(summary.correct, 2);
+    assert.strictEqual(summary.errors, 1);
+    assert.strictEqual(summary.accuracy, 0.5);
+    assert.strictEqual(summary.confusion.invalid_lead.valid_lead, 1);
+    assert.strictEqual(summary.confusion.valid_lead.error, 1);
+  });
+
+  it('should label job results valid/invalid', () => {
+    const summary = report([], [jobResult('j1', true, true, 85), jobResult('j2', false, true, 60)]).jobs;
+
+    assert.strictEqual(summary.accuracy, 0.5);
+    assert.deepStrictEqual(summary.confusion.invalid, { valid: 1, invalid: 0, error: 0 });
+  });
+});
+
+describe('compareEvalReports', () => {
+  it('should report score drift and label changes for items in both runs', () => {
+    const baseline = report(
+      [leadResult('a', 'valid_lead', 'valid_lead', 80), leadResult('b', 'invalid_lead', 'valid_lead', 50)],
+      [jobResult('j1', true, true, 70)]
+    );
+    const current = report(
+      [
+        leadResult('a', 'valid_lead', 'valid_lead', 84),
+        leadResult('b', 'invalid_lead', 'invalid_lead', 30),
+        leadResult('new', 'valid_lead', 'valid_lead', 90),
+      ],
+      [jobResult('j1', true, true, 70)]
+    );
+
+    const drift = compareEvalReports(baseline, current);
+
+    assert.strictEqual(drift.compared, 3);
+    assert.strictEqual(drift.max_abs_delta, 20);
+    assert.strictEqual(drift.mean_abs_delta, 8);
+    assert.strictEqual(drift.label_changes, 1);
+    assert.deepStrictEqual(drift.items[0], {
+      kind: 'lead',
+      id: 'b',
+      baseline_score: 50,
+      score: 30,
+      delta: -20,
+      baseline_label: 'valid_lead',
+      label: 'invalid_lead',
+    });
+  });
+
+  it('should skip items that errored in either run', () => {
+    const drift = compareEvalReports(
+      report([leadResult('a', 'valid_lead', null, null)]),
+      report([leadResult('a', 'valid_lead', 'valid_lead', 80)])
+    );
+
+    assert.strictEqual(drift.compared, 0);
+    assert.strictEqual(drift.mean_abs_delta, 0);
+  });
+});
+
+describe('formatEvalReport', () => {
+  it('should print accuracy, confusion matrix and drift', () => {
+    const current = report([leadResult('a', 'valid_lead', 'valid_lead', 84), leadResult('b', 'valid_lead', null, null)]);
+    const baseline = report([leadResult('a', 'valid_lead', 'valid_lead', 80)]);
+
+    const text = formatEvalReport(current, compareEvalReports(baseline, current));
+
+    assert.match(text, /Leads \(classification\): 1\/2 correct \(50\.0%\), 1 errors/);
+    assert.match(text, /expected \\ actual/);
+    assert.match(text, /b: LLM down/);
+    assert.match(text, /lead a: 80 -> 84 \(\+4\)/);
+    assert.doesNotMatch(text, /Jobs/);
+  });
+});
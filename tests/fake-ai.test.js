@@ -0,0 +1,120 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import {
+  createFakeLLMRouter,
+  loadFakeAIRules,
+  matchFakeAIRule,
+  parseFakeAIRules,
+} from '../dist/services/llm/fakeRouter.js';
+import { computeFixtureKey } from '../dist/services/llm/recordedRouter.js';
+import { setLLMRouter } from '../dist/services/llm/llmRouter.js';
+import { scoreLead, generateJobAd, evaluateJob } from '../dist/services/aiService.js';
+import { runEvaluation } from '../dist/services/evals/evalRunner.js';
+import { EvalDatasetSchema } from '../dist/schemas/evalDataset.js';
+
+const rules = loadFakeAIRules(undefined);
+
+const normalizedData = {
+  company_id: 'company-1',
+  lead_score: 75,
+  role_category: 'Ekonom',
+  key_requirements: [],
+  ai_reasoning: '',
+  classification: 'valid_lead',
+};
+
+describe('matchFakeAIRule', () => {
+  const spamRule = { keywords: ['seo', 'free iphone'], reply: {} };
+
+  it('should match keywords as whole words, ignoring case', () => {
+    assert.strictEqual(matchFakeAIRule([spamRule], 'Cheap SEO services'), spamRule);
+    assert.strictEqual(matchFakeAIRule([spamRule], 'Get a Free iPhone now'), spamRule);
+    assert.strictEqual(matchFakeAIRule([spamRule], 'Office in Seoul'), undefined);
+  });
+
+  it('should treat Swedish letters as part of a word', () => {
+    const rule = { keywords: ['kock'], reply: {} };
+
+    assert.strictEqual(matchFakeAIRule([rule], 'Vi söker en kock.'), rule);
+    assert.strictEqual(matchFakeAIRule([rule], 'Kockå'), undefined);
+  });
+});
+
+describe('parseFakeAIRules', () => {
+  it('should reject a task without a default reply', () => {
+    assert.throws(
+      () =>
+        parseFakeAIRules({
+          tasks: { lead_scoring: { rules: [] }, job_ad: { default: {} }, job_evaluation: { default: {} } },
+        }),
+      /Invalid fake AI rules/
+    );
+  });
+});
+
+describe('createFakeLLMRouter', () => {
+  it('should answer recorded fixtures before the rules', async () => {
+    const messages = [{ role: 'user', content: 'Company Name: Acme' }];
+    const router = createFakeLLMRouter(rules, {
+      [computeFixtureKey('lead_scoring', messages)]: {
+        task: 'lead_scoring',
+        content: '{"recorded":true}',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      },
+    });
+
+    assert.strictEqual((await router.complete('lead_scoring', messages)).content, '{"recorded":true}');
+    assert.strictEqual((await router.complete('lead_scoring', [{ role: 'user', content: 'Other' }])).provider, 'fake');
+  });
+});
+
+describe('AI tasks with the fake provider', () => {
+  before(() => setLLMRouter(createFakeLLMRouter(rules)));
+  after(() => setLLMRouter(null));
+
+  it('should score leads by keyword rules', async () => {
+    const spam = await scoreLead({ company_name: 'Deals', needs_description: 'Click here to win money!' });
+    const candidate = await scoreLead({ company_name: 'Arbetssökande', needs_description: 'Jag söker jobb inom IT.' });
+    const valid = await scoreLead({ company_name: 'Acme AB', needs_description: 'Vi behöver en junior ekonom.' });
+
+    assert.strictEqual(spam.classification, 'likely_spam');
+    assert.strictEqual(candidate.classification, 'likely_candidate');
+    assert.strictEqual(valid.classification, 'valid_lead');
+    assert.strictEqual(valid.ai_provenance.model, 'fake');
+  });
+
+  it('should give the same result for the same input', async () => {
+    const lead = { company_name: 'Acme AB', needs_description: 'Vi behöver en controller.' };
+
+    assert.deepStrictEqual(await scoreLead(lead), await scoreLead(lead));
+  });
+
+  it('should write the job ad in the language of the lead', async () => {
+    const swedish = await generateJobAd({ company_name: 'Acme AB', language: 'sv' }, normalizedData);
+    const english = await generateJobAd({ company_name: 'Acme AB', language: 'en' }, normalizedData);
+
+    assert.match(swedish.title, /medarbetare/);
+    assert.match(english.title, /Junior Professional/);
+  });
+
+  it('should evaluate jobs by keyword rules', async () => {
+    const job = { externalId: 'job-1', url: '', rawData: {}, location: 'Stockholm', source: 'indeed' };
+
+    const senior = await evaluateJob({ ...job, title: 'Senior Developer', company: 'Acme', description: '10 years.' });
+    const junior = await evaluateJob({ ...job, title: 'Junior ekonom', company: 'Acme', description: '0-2 år.' });
+
+    assert.strictEqual(senior.isValid, false);
+    assert.strictEqual(junior.isValid, true);
+  });
+
+  it('should classify the golden dataset correctly', async () => {
+    const raw = JSON.parse(fs.readFileSync(new URL('../evals/golden-dataset.json', import.meta.url), 'utf8'));
+
+    const report = await runEvaluation(EvalDatasetSchema.parse(raw), 'live');
+
+    assert.strictEqual(report.leads.accuracy, 1);
+    assert.strictEqual(report.jobs.accuracy, 1);
+  });
+});
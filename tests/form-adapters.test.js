@@ -0,0 +1,207 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import crypto from 'crypto';
+import {
+  verifyTypeformSignature,
+  verifyHubspotSignature,
+  verifyWebflowSignature,
+} from '../dist/utils/providerSignatures.js';
+import { mapFieldsByAlias, normalizeFieldKey } from '../dist/services/intake/fieldMapping.js';
+import { getFormAdapter } from '../dist/services/intake/formAdapters.js';
+
+const secret = 'provider-secret';
+const body = '{"hello":"world"}';
+const now = 1_700_000_000_000;
+
+function hmac(data, encoding) {
+  return crypto.createHmac('sha256', secret).update(data).digest(encoding);
+}
+
+describe('verifyTypeformSignature', () => {
+  it('should accept a valid sha256= base64 signature', () => {
+    const signature = `sha256=${hmac(body, 'base64')}`;
+    assert.deepStrictEqual(verifyTypeformSignature({ body, signature, secret }), { valid: true });
+  });
+
+  it('should reject a wrong or missing signature', () => {
+    const wrong = `sha256=${crypto.createHmac('sha256', 'other').update(body).digest('base64')}`;
+    assert.strictEqual(verifyTypeformSignature({ body, signature: wrong, secret }).valid, false);
+    assert.deepStrictEqual(verifyTypeformSignature({ body, signature: undefined, secret }), {
+      valid: false,
+      reason: 'missing_headers',
+    });
+  });
+});
+
+describe('verifyHubspotSignature', () => {
+  const uri = 'https://api.example.com/api/webhook/hubspot';
+  const timestamp = String(now);
+
+  function verify(overrides = {}) {
+    return verifyHubspotSignature({
+      method: 'POST',
+      uri,
+      body,
+      signature: hmac(`POST${uri}${body}${timestamp}`, 'base64'),
+      timestamp,
+      secret,
+      toleranceSeconds: 300,
+      now,
+      ...overrides,
+    });
+  }
+
+  it('should accept a valid v3 signature', () => {
+    assert.deepStrictEqual(verify(), { valid: true });
+  });
+
+  it('should reject a signature for a different URL', () => {
+    assert.deepStrictEqual(verify({ uri: 'https://evil.example.com/api/webhook/hubspot' }), {
+      valid: false,
+      reason: 'signature_mismatch',
+    });
+  });
+
+  it('should reject a stale timestamp', () => {
+    assert.deepStrictEqual(verify({ now: now + 301_000 }), { valid: false, reason: 'timestamp_out_of_range' });
+  });
+});
+
+describe('verifyWebflowSignature', () => {
+  const timestamp = String(now);
+
+  it('should accept a valid hex signature of timestamp:body', () => {
+    const signature = hmac(`${timestamp}:${body}`, 'hex');
+    const result = verifyWebflowSignature({ body, signature, timestamp, secret, toleranceSeconds: 300, now });
+    assert.deepStrictEqual(result, { valid: true });
+  });
+
+  it('should reject a tampered body', () => {
+    const signature = hmac(`${timestamp}:${body}`, 'hex');
+    const result = verifyWebflowSignature({
+      body: '{"hello":"mallory"}',
+      signature,
+      timestamp,
+      secret,
+      toleranceSeconds: 300,
+      now,
+    });
+    assert.deepStrictEqual(result, { valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('should reject a non-numeric timestamp', () => {
+    const result = verifyWebflowSignature({ body, signature: 'ab', timestamp: 'soon', secret, toleranceSeconds: 300, now });
+    assert.deepStrictEqual(result, { valid: false, reason: 'invalid_timestamp' });
+  });
+});
+
+describe('mapFieldsByAlias', () => {
+  it('should normalize labels', () => {
+    assert.strictEqual(normalizeFieldKey('  E-post '), 'e_post');
+    assert.strictEqual(normalizeFieldKey('Företag'), 'foretag');
+  });
+
+  it('should map English and Swedish field names', () => {
+    const body = mapFieldsByAlias({
+      Namn: 'Anna Svensson',
+      'E-post': 'anna@company.se',
+      Företag: 'Company AB',
+      Meddelande: 'Vi söker en utvecklare',
+      unrelated: 'dropped',
+    });
+
+    assert.deepStrictEqual(body, {
+      name: 'Anna Svensson',
+      email: 'anna@company.se',
+      company: 'Company AB',
+      message: 'Vi söker en utvecklare',
+    });
+  });
+
+  it('should combine first and last name', () => {
+    const body = mapFieldsByAlias({ firstname: 'Anna', lastname: 'Svensson' });
+    assert.strictEqual(body.name, 'Anna Svensson');
+  });
+
+  it('should let the field map win over aliases', () => {
+    const body = mapFieldsByAlias(
+      { message: 'short', what_do_you_need: 'Two backend developers' },
+      { 'What do you need': 'message' }
+    );
+    assert.strictEqual(body.message, 'Two backend developers');
+  });
+});
+
+describe('form adapters', () => {
+  it('should resolve known providers and reject unknown ones', () => {
+    assert.strictEqual(getFormAdapter('Typeform').provider, 'typeform');
+    assert.strictEqual(getFormAdapter('toString'), null);
+    assert.strictEqual(getFormAdapter('jotform'), null);
+  });
+
+  it('should map a Typeform form_response', () => {
+    const mapped = getFormAdapter('typeform').mapPayload({
+      event_type: 'form_response',
+      form_response: {
+        token: 'abc123',
+        hidden: { company: 'Company AB' },
+        answers: [
+          { type: 'text', field: { id: 'f1', ref: 'name' }, text: 'Anna Svensson' },
+          { type: 'email', field: { id: 'f2', ref: 'a8c1e1f0' }, email: 'anna@company.se' },
+          { type: 'choice', field: { id: 'f3', ref: 'service_type' }, choice: { label: 'Rekrytering' } },
+        ],
+      },
+    });
+
+    assert.deepStrictEqual(mapped, {
+      body: {
+        name: 'Anna Svensson',
+        email: 'anna@company.se',
+        company: 'Company AB',
+        service_type: 'Rekrytering',
+      },
+      externalId: 'abc123',
+    });
+  });
+
+  it('should map HubSpot form submissions and contact properties', () => {
+    const hubspot = getFormAdapter('hubspot');
+
+    const submission = hubspot.mapPayload({
+      conversionId: 'conv-1',
+      fields: [
+        { name: 'firstname', value: 'Anna' },
+        { name: 'lastname', value: 'Svensson' },
+        { name: 'email', value: 'anna@company.se' },
+        { name: 'company', value: 'Company AB' },
+      ],
+    });
+    assert.deepStrictEqual(submission.body, { name: 'Anna Svensson', email: 'anna@company.se', company: 'Company AB' });
+    assert.strictEqual(submission.externalId, 'conv-1');
+
+    const contact = hubspot.mapPayload({
+      objectId: 42,
+      properties: { email: { value: 'anna@company.se' }, company: 'Company AB' },
+    });
+    assert.deepStrictEqual(contact.body, { email: 'anna@company.se', company: 'Company AB' });
+    assert.strictEqual(contact.externalId, '42');
+  });
+
+  it('should map a Webflow form_submission', () => {
+    const mapped = getFormAdapter('webflow').mapPayload({
+      triggerType: 'form_submission',
+      payload: { id: 'wf-1', name: 'Kontakt', data: { Name: 'Anna', Email: 'anna@company.se', Company: 'Company AB' } },
+    });
+
+    assert.deepStrictEqual(mapped, {
+      body: { name: 'Anna', email: 'anna@company.se', company: 'Company AB' },
+      externalId: 'wf-1',
+    });
+  });
+
+  it('should return null for payloads an adapter does not understand', () => {
+    assert.strictEqual(getFormAdapter('typeform').mapPayload({ name: 'Anna' }), null);
+    assert.strictEqual(getFormAdapter('webflow').mapPayload([]), null);
+    assert.strictEqual(getFormAdapter('website').mapPayload('text'), null);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * In-memory stand-in for the Supabase REST and Storage APIs and the Resend API,
+ * installed as globalThis.fetch. Lets tests run the lead pipeline against the real
+ * service modules without network.
+ *
+ * Assign FAKE_BACKEND_ENV to process.env before importing from dist/ (dynamic import),
+ * since the service modules create their clients when they load.
+ */
+
+export const SUPABASE_TEST_URL = 'http://supabase.test';
+
+const RESEND_URL = 'https://api.resend.com';
+
+/**
+ * Environment the service modules need to load against the fake backend
+ */
+export const FAKE_BACKEND_ENV = {
+  SUPABASE_URL: SUPABASE_TEST_URL,
+  SUPABASE_KEY: 'test-key',
+  RESEND_API_KEY: 're_test',
+  SUPABASE_RETRIES: '0',
+  RESEND_RETRIES: '0',
+  LEAD_PIPELINE_STEP_RETRIES: '0',
+  LEAD_QUEUE_DRIVER: 'memory',
+  AI_PROVIDER: 'fake',
+};
+
+function json(status, body) {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Value of a column, following ->> paths into JSON columns
+ */
+function columnValue(row, column) {
+  const [name, ...path] = column.split(/->>?/);
+  let value = row[name];
+  for (const key of path) {
+    value = value == null ? undefined : value[key];
+  }
+  return value;
+}
+
+function likeToRegExp(pattern, flags) {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%' || char === '*') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+function parseList(value) {
+  return value
+    .replace(/^\(|\)$/g, '')
+    .split(',')
+    .map((item) => item.replace(/^"|"$/g, ''));
+}
+
+/**
+ * PostgREST filter (e.g. eq.x, in.(a,b), is.null) as a row predicate
+ */
+function filterPredicate(column, expression) {
+  const dot = expression.indexOf('.');
+  const operator = expression.slice(0, dot);
+  const operand = expression.slice(dot + 1);
+
+  return (row) => {
+    const value = columnValue(row, column);
+    switch (operator) {
+      case 'eq':
+        return value != null && String(value) === operand;
+      case 'neq':
+        return value == null || String(value) !== operand;
+      case 'gte':
+        return value != null && String(value) >= operand;
+      case 'lte':
+        return value != null && String(value) <= operand;
+      case 'lt':
+        return value != null && String(value) < operand;
+      case 'in':
+        return value != null && parseList(operand).includes(String(value));
+      case 'is':
+        return operand === 'null' ? value == null : String(value) === operand;
+      case 'like':
+        return value != null && likeToRegExp(operand, '').test(String(value));
+      case 'ilike':
+        return value != null && likeToRegExp(operand, 'i').test(String(value));
+      default:
+        throw new Error(`Fake backend: unsupported filter ${operator}`);
+    }
+  };
+}
+
+/**
+ * or=(a.like.x,b.eq.y)
+ */
+function orPredicate(expression) {
+  const predicates = parseList(expression).map((part) => {
+    const dot = part.indexOf('.');
+    return filterPredicate(part.slice(0, dot), part.slice(dot + 1));
+  });
+  return (row) => predicates.some((predicate) => predicate(row));
+}
+
+function queryRows(rows, params) {
+  let result = rows;
+
+  for (const [key, value] of params) {
+    if (['select', 'order', 'limit', 'on_conflict', 'columns'].includes(key)) continue;
+    result = result.filter(key === 'or' ? orPredicate(value) : filterPredicate(key, value));
+  }
+
+  const order = params.get('order');
+  if (order) {
+    const [column, direction] = order.split('.');
+    const sign = direction === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => (String(a[column]) < String(b[column]) ? -sign : sign));
+  }
+
+  const limit = params.get('limit');
+  return limit ? result.slice(0, parseInt(limit, 10)) : result;
+}
+
+/**
+ * Installs the fake backend. Returns its state and a restore() for the real fetch.
+ */
+export function installFakeBackend() {
+  const realFetch = globalThis.fetch;
+  const state = {
+    // Rows by table name
+    tables: {},
+    // Resend email payloads
+    emails: [],
+    // Companies by domain or name, as returned by find_or_create_company
+    companies: new Map(),
+    // Storage objects by '<bucket>/<path>'
+    storage: new Map(),
+    // Handlers for other URLs (attachment downloads): url -> Response | Error
+    urls: new Map(),
+    nextId: 1,
+    // Every Supabase write, in order - for asserting on what was written
+    writes: [],
+    // Requests answered with a 500 once, e.g. 'POST /rest/v1/job_ads'
+    failures: new Set(),
+    // Every request as 'METHOD /path', in order
+    requests: [],
+  };
+
+  const table = (name) => (state.tables[name] ??= []);
+  const newId = (prefix) => `${prefix}-${state.nextId++}`;
+
+  function respondRows(rows, accept) {
+    if (accept?.includes('vnd.pgrst.object')) {
+      if (rows.length !== 1) {
+        return json(406, {
+          code: 'PGRST116',
+          details: `The result contains ${rows.length} rows`,
+          hint: null,
+          message: 'JSON object requested, multiple (or no) rows returned',
+        });
+      }
+      return json(200, rows[0]);
+    }
+    return json(200, rows);
+  }
+
+  function handleRpc(name, body) {
+    if (name === 'find_or_create_company') {
+      const key = body.p_org_number || body.p_domain || body.p_name;
+      if (!state.companies.has(key)) {
+        const id = newId('company');
+        state.companies.set(key, id);
+        table('companies').push({ id, name: body.p_name, domain: body.p_domain, org_number: body.p_org_number });
+      }
+      return json(200, state.companies.get(key));
+    }
+    throw new Error(`Fake backend: unsupported rpc ${name}`);
+  }
+
+  function handleRest(method, name, params, headers, body) {
+    const rows = table(name);
+    const accept = headers.get('accept');
+
+    if (method === 'GET') {
+      return respondRows(queryRows(rows, params), accept);
+    }
+
+    if (method === 'POST') {
+      const prefer = headers.get('prefer') ?? '';
+      const conflictColumn = prefer.includes('merge-duplicates') ? params.get('on_conflict') : null;
+      const inserted = [];
+
+      for (const values of Array.isArray(body) ? body : [body]) {
+        const existing = conflictColumn && rows.find((row) => row[conflictColumn] === values[conflictColumn]);
+        if (existing) {
+          Object.assign(existing, values);
+          inserted.push(existing);
+        } else {
+          const row = { id: newId(name), created_at: new Date().toISOString(), ...values };
+          rows.push(row);
+          inserted.push(row);
+        }
+        state.writes.push({ table: name, method, values });
+      }
+
+      return respondRows(inserted, accept);
+    }
+
+    if (method === 'PATCH') {
+      const updated = queryRows(rows, params);
+      for (const row of updated) {
+        Object.assign(row, body);
+      }
+      state.writes.push({ table: name, method, values: body });
+      return wantsRepresentation(headers) ? respondRows(updated, accept) : json(204);
+    }
+
+    throw new Error(`Fake backend: unsupported method ${method} on ${name}`);
+  }
+
+  function handleStorage(method, key, headers, body) {
+    if (method === 'POST' || method === 'PUT') {
+      state.storage.set(key, { data: Buffer.from(body), contentType: headers.get('content-type') });
+      return json(200, { Id: key, Key: key });
+    }
+
+    const object = state.storage.get(key);
+    if (method === 'GET' && object) {
+      return new Response(object.data, { status: 200, headers: { 'content-type': object.contentType } });
+    }
+    return json(400, { statusCode: '404', error: 'not_found', message: 'Object not found' });
+  }
+
+  function wantsRepresentation(headers) {
+    return (headers.get('prefer') ?? '').includes('return=representation');
+  }
+
+  globalThis.fetch = async (input, init = {}) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const body =
+      typeof init.body === 'string' && init.body !== '' && !url.pathname.startsWith('/storage/')
+        ? JSON.parse(init.body)
+        : undefined;
+
+    const failure = `${method} ${url.pathname}`;
+    state.requests.push(failure);
+    if (state.failures.has(failure)) {
+      state.failures.delete(failure);
+      return json(500, { message: `Fake backend: ${failure} failed` });
+    }
+
+    if (url.origin === SUPABASE_TEST_URL && url.pathname.startsWith('/rest/v1/')) {
+      const path = url.pathname.slice('/rest/v1/'.length);
+      return path.startsWith('rpc/')
+        ? handleRpc(path.slice(4), body)
+        : handleRest(method, path, url.searchParams, headers, body);
+    }
+
+    if (url.origin === SUPABASE_TEST_URL && url.pathname.startsWith('/storage/v1/object/')) {
+      return handleStorage(method, decodeURIComponent(url.pathname.slice('/storage/v1/object/'.length)), headers, init.body);
+    }
+
+    if (url.origin === RESEND_URL && url.pathname === '/emails') {
+      const id = newId('email');
+      state.emails.push({ id, ...body });
+      return json(200, { id });
+    }
+
+    const handler = state.urls.get(url.toString());
+    if (handler instanceof Error) {
+      throw handler;
+    }
+    if (handler) {
+      return typeof handler === 'function' ? handler() : handler.clone();
+    }
+
+    throw new Error(`Fake backend: unexpected request ${method} ${url}`);
+  };
+
+  return {
+    state,
+    table,
+    restore: () => {
+      globalThis.fetch = realFetch;
+    },
+  };
+}
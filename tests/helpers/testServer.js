@@ -0,0 +1,29 @@
+import express from 'express';
+
+/**
+ * Serves the API routers on a random local port, with the body parsers of src/index.ts
+ * (raw body capture for signature checks). Import after setting process.env.
+ */
+export async function startTestServer() {
+  const { default: webhookRouter } = await import('../../dist/routes/webhook.js');
+  const { default: leadsRouter } = await import('../../dist/routes/leads.js');
+  const captureRawBody = (req, _res, buf) => {
+    req.rawBody = buf;
+  };
+
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+  app.use(express.raw({ type: 'multipart/form-data', verify: captureRawBody }));
+  app.use('/api', webhookRouter);
+  app.use('/api/leads', leadsRouter);
+
+  const server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { canonicalJson, computePayloadHash, resolveIdempotencyKey } from '../dist/utils/idempotency.js';
+import { createMemoryLeadQueue } from '../dist/services/leads/leadQueue.js';
+
+const body = {
+  name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  company: 'Tech Company AB',
+  message: 'Vi söker en junior utvecklare',
+};
+
+describe('canonicalJson', () => {
+  it('should produce the same string regardless of key order', () => {
+    const a = canonicalJson({ b: 1, a: { d: [1, 2], c: 'x' } });
+    const b = canonicalJson({ a: { c: 'x', d: [1, 2] }, b: 1 });
+
+    assert.strictEqual(a, b);
+  });
+
+  it('should ignore undefined fields', () => {
+    assert.strictEqual(canonicalJson({ a: 1, b: undefined }), canonicalJson({ a: 1 }));
+  });
+});
+
+describe('resolveIdempotencyKey', () => {
+  it('should prefer the Idempotency-Key header', () => {
+    assert.strictEqual(resolveIdempotencyKey('abc-123', body), 'key:abc-123');
+  });
+
+  it('should fall back to a content hash of the payload', () => {
+    const key = resolveIdempotencyKey(undefined, body);
+
+    assert.strictEqual(key, `hash:${computePayloadHash(body)}`);
+    assert.strictEqual(key, resolveIdempotencyKey(undefined, { ...body }));
+  });
+
+  it('should give different hashes for different payloads', () => {
+    const other = resolveIdempotencyKey(undefined, { ...body, message: 'Something else' });
+
+    assert.notStrictEqual(resolveIdempotencyKey(undefined, body), other);
+  });
+
+  it('should reject empty or oversized header values', () => {
+    assert.strictEqual(resolveIdempotencyKey('   ', body), null);
+    assert.strictEqual(resolveIdempotencyKey('x'.repeat(256), body), null);
+  });
+});
+
+describe('memory queue idempotency', () => {
+  it('should return the existing submission for a duplicate key', async () => {
+    const queue = createMemoryLeadQueue();
+    const response = { success: true, message: 'queued', submission_id: 'sub-1', processingTime: 5 };
+
+    await queue.enqueue('sub-1', { id: 'sub-1' }, { idempotencyKey: 'key:abc', response });
+    const duplicate = await queue.enqueue('sub-2', { id: 'sub-2' }, { idempotencyKey: 'key:abc' });
+
+    assert.strictEqual(duplicate.id, 'sub-1');
+    assert.deepStrictEqual(duplicate.response, response);
+    assert.strictEqual(await queue.get('sub-2'), null);
+  });
+
+  it('should accept the key again once released', async () => {
+    const queue = createMemoryLeadQueue();
+
+    await queue.enqueue('sub-1', { id: 'sub-1' }, { idempotencyKey: 'key:abc' });
+    await queue.releaseIdempotencyKey('sub-1');
+    const fresh = await queue.enqueue('sub-2', { id: 'sub-2' }, { idempotencyKey: 'key:abc' });
+
+    assert.strictEqual(fresh.id, 'sub-2');
+    assert.strictEqual((await queue.findByIdempotencyKey('key:abc')).id, 'sub-2');
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import crypto from 'crypto';
+import {
+  parseEmailSender,
+  stripQuotedReply,
+  splitSignature,
+  extractSignatureDetails,
+  inboundEmailToFormBody,
+  nameFromEmailAddress,
+} from '../dist/services/intake/emailParsing.js';
+import { parseWebhookRequest } from '../dist/schemas/webhook.js';
+import { extractDomain } from '../dist/utils/validator.js';
+import { verifyMailgunSignature, verifySvixSignature } from '../dist/utils/providerSignatures.js';
+import { getFormAdapter } from '../dist/services/intake/formAdapters.js';
+
+const reply = [
+  'Hej,',
+  '',
+  'Vi behöver anställa två backendutvecklare till vårt team i Göteborg under våren.',
+  '',
+  'Med vänliga hälsningar',
+  'Anna Svensson',
+  'HR-chef',
+  'Company AB',
+  '070-123 45 67',
+  'www.company.se',
+  '',
+  'Den 3 mars 2026 kl. 10:12 skrev Rookie <hej@rookie.se>:',
+  '> Tack för ditt intresse!',
+].join('\n');
+
+describe('parseEmailSender', () => {
+  it('should parse name and address', () => {
+    assert.deepStrictEqual(parseEmailSender('"Anna Svensson" <Anna@Company.se>'), {
+      name: 'Anna Svensson',
+      email: 'anna@company.se',
+    });
+  });
+
+  it('should parse a bare address', () => {
+    assert.deepStrictEqual(parseEmailSender('anna@company.se'), { email: 'anna@company.se' });
+  });
+});
+
+describe('nameFromEmailAddress', () => {
+  it('should build a name from the local part', () => {
+    assert.strictEqual(nameFromEmailAddress('anna.svensson@company.se'), 'Anna Svensson');
+    assert.strictEqual(nameFromEmailAddress('erik_lind92@gmail.com'), 'Erik Lind');
+    assert.strictEqual(nameFromEmailAddress('123@company.se'), '123');
+  });
+});
+
+describe('stripQuotedReply', () => {
+  it('should cut at the quote header', () => {
+    const stripped = stripQuotedReply(reply);
+    assert.ok(!stripped.includes('skrev'));
+    assert.ok(!stripped.includes('Tack för ditt intresse'));
+    assert.ok(stripped.endsWith('www.company.se'));
+  });
+
+  it('should drop quoted lines and Outlook headers', () => {
+    const text = 'Kort svar.\n> gammal rad\n\nFrån: Rookie\nSkickat: idag';
+    assert.strictEqual(stripQuotedReply(text), 'Kort svar.');
+  });
+});
+
+describe('splitSignature', () => {
+  it('should split at a sign-off', () => {
+    const { body, signature } = splitSignature(stripQuotedReply(reply));
+    assert.ok(body.endsWith('under våren.'));
+    assert.ok(signature.startsWith('Anna Svensson'));
+  });
+
+  it('should prefer the -- delimiter', () => {
+    assert.deepStrictEqual(splitSignature('Message\n-- \nAnna\nCompany AB'), {
+      body: 'Message',
+      signature: 'Anna\nCompany AB',
+    });
+  });
+
+  it('should return the whole text without a signature', () => {
+    assert.deepStrictEqual(splitSignature('Just a message'), { body: 'Just a message', signature: '' });
+  });
+});
+
+describe('extractSignatureDetails', () => {
+  it('should pick name, company and phone', () => {
+    assert.deepStrictEqual(extractSignatureDetails('Anna Svensson\nHR-chef\nCompany AB\n070-123 45 67\nwww.company.se'), {
+      name: 'Anna Svensson',
+      company: 'Company AB',
+      phone: '070-123 45 67',
+    });
+  });
+});
+
+describe('inboundEmailToFormBody', () => {
+  it('should map a raw reply email', () => {
+    const body = inboundEmailToFormBody({ from: 'anna@company.se', subject: 'Rekrytering', text: reply });
+
+    assert.deepStrictEqual(body, {
+      name: 'Anna Svensson',
+      email: 'anna@company.se',
+      phone: '070-123 45 67',
+      company: 'Company AB',
+      message: 'Hej,\n\nVi behöver anställa två backendutvecklare till vårt team i Göteborg under våren.',
+      subject: 'Rekrytering',
+    });
+  });
+
+  it('should fall back to the business sender domain for the company', () => {
+    const body = inboundEmailToFormBody({ from: 'Anna <anna@company.se>', text: 'Vi söker en lagerarbetare.' });
+    assert.strictEqual(body.company, 'company.se');
+
+    const personal = inboundEmailToFormBody({ from: 'Anna <anna@gmail.com>', text: 'Vi söker en lagerarbetare.' });
+    assert.strictEqual(personal.company, 'Unknown (anna@gmail.com)');
+  });
+
+  it('should accept a bare sender without a signature name', () => {
+    const body = inboundEmailToFormBody({ from: 'anna.svensson@company.se', text: 'Vi söker en lagerarbetare.' });
+
+    assert.strictEqual(body.name, 'Anna Svensson');
+    assert.strictEqual(body.company, 'company.se');
+    assert.strictEqual(parseWebhookRequest(body).success, true);
+  });
+
+  it('should accept a personal address without a company in the signature', () => {
+    const body = inboundEmailToFormBody({
+      from: 'Anna Svensson <anna.svensson@gmail.com>',
+      text: 'Hej! Vi söker en lagerarbetare till vårt lager i Borås.\n\nMvh\nAnna',
+    });
+
+    assert.strictEqual(body.name, 'Anna Svensson');
+    assert.strictEqual(body.company, 'Unknown (anna.svensson@gmail.com)');
+    assert.strictEqual(parseWebhookRequest(body).success, true);
+    // No domain is guessed from the placeholder
+    assert.strictEqual(extractDomain({ email: body.email, company_name: body.company }).extracted_domain, null);
+  });
+
+  it('should map a Mailgun post using its stripped text', () => {
+    const mapped = getFormAdapter('mailgun').mapPayload({
+      from: 'Anna Svensson <anna@company.se>',
+      subject: 'Behov',
+      'body-plain': reply,
+      'stripped-text': 'Vi behöver två utvecklare.',
+      'stripped-signature': 'Anna Svensson\nCompany AB',
+      'Message-Id': '<abc@mail.company.se>',
+    });
+
+    assert.strictEqual(mapped.body.message, 'Vi behöver två utvecklare.');
+    assert.strictEqual(mapped.body.company, 'Company AB');
+    assert.strictEqual(mapped.externalId, '<abc@mail.company.se>');
+    assert.strictEqual(getFormAdapter('mailgun').source, 'email');
+  });
+
+  it('should map a Resend email.received event', () => {
+    const mapped = getFormAdapter('resend').mapPayload({
+      type: 'email.received',
+      data: { email_id: 'em_1', from: 'anna@company.se', html: '<p>Vi söker en ekonom.</p>' },
+    });
+
+    assert.strictEqual(mapped.body.message, 'Vi söker en ekonom.');
+    assert.strictEqual(mapped.externalId, 'em_1');
+    assert.strictEqual(getFormAdapter('resend').mapPayload({ type: 'email.sent', data: { from: 'a@b.se' } }), null);
+  });
+});
+
+describe('verifyMailgunSignature', () => {
+  const secret = 'mailgun-key';
+  const timestamp = '1700000000';
+  const token = 'token-1';
+  const signature = crypto.createHmac('sha256', secret).update(timestamp + token).digest('hex');
+
+  it('should accept a valid signature', () => {
+    const result = verifyMailgunSignature({ timestamp, token, signature, secret, toleranceSeconds: 300, now: 1700000000000 });
+    assert.deepStrictEqual(result, { valid: true });
+  });
+
+  it('should reject a stale timestamp', () => {
+    const result = verifyMailgunSignature({ timestamp, token, signature, secret, toleranceSeconds: 300, now: 1700001000000 });
+    assert.deepStrictEqual(result, { valid: false, reason: 'timestamp_out_of_range' });
+  });
+});
+
+describe('verifySvixSignature', () => {
+  const key = crypto.randomBytes(24);
+  const secret = `whsec_${key.toString('base64')}`;
+  const body = '{"type":"email.received"}';
+  const id = 'msg_1';
+  const timestamp = '1700000000';
+  const valid = crypto.createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+
+  function verify(signature) {
+    return verifySvixSignature({ body, id, timestamp, signature, secret, toleranceSeconds: 300, now: 1700000000000 });
+  }
+
+  it('should accept any matching v1 signature', () => {
+    assert.deepStrictEqual(verify(`v1,${valid}`), { valid: true });
+    assert.deepStrictEqual(verify(`v1,b2xk v1,${valid}`), { valid: true });
+  });
+
+  it('should reject a wrong signature', () => {
+    assert.deepStrictEqual(verify('v1,b2xk'), { valid: false, reason: 'signature_mismatch' });
+  });
+});
+
+describe('inbound email signature checks', () => {
+  /**
+   * Runs an adapter's signature middleware on an unsigned request, without any provider keys set
+   */
+  function verifyUnsigned(provider) {
+    const outcome = { status: null, next: false };
+    const req = { body: {}, rawBody: Buffer.from('{}'), get: () => undefined, ip: '127.0.0.1', path: `/webhook/${provider}` };
+    const res = {
+      status(code) {
+        outcome.status = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    };
+
+    getFormAdapter(provider).verifySignature(req, res, () => {
+      outcome.next = true;
+    });
+    return outcome;
+  }
+
+  it('should refuse emails when the provider key is not configured, even in development', () => {
+    assert.deepStrictEqual(verifyUnsigned('mailgun'), { status: 404, next: false });
+    assert.deepStrictEqual(verifyUnsigned('resend'), { status: 404, next: false });
+  });
+
+  it('should still skip the check for form providers in development', () => {
+    assert.deepStrictEqual(verifyUnsigned('typeform'), { status: null, next: true });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  computeJobEvaluationCacheKey,
+  createMemoryJobEvaluationCache,
+  normalizeJobText,
+} from '../dist/services/jobs/jobEvaluationCache.js';
+
+const job = {
+  title: 'Junior Ekonom',
+  company: 'Tech Company AB',
+  description: 'Vi söker en junior ekonom med 0-2 års erfarenhet.',
+};
+
+const evaluation = {
+  isValid: true,
+  score: 80,
+  category: 'Ekonom',
+  experience: '0-2',
+  experienceLogic: 'Step 1: 0-2. Step 2: yes',
+  reasoning: 'Early-career finance role',
+  applicationEmail: 'Email Not Found',
+  duration: 'Heltid',
+};
+
+describe('normalizeJobText', () => {
+  it('should lowercase and collapse whitespace', () => {
+    assert.strictEqual(normalizeJobText('  Junior\n\tEkonom  '), 'junior ekonom');
+  });
+
+  it('should treat a missing value as empty', () => {
+    assert.strictEqual(normalizeJobText(undefined), '');
+  });
+});
+
+describe('computeJobEvaluationCacheKey', () => {
+  it('should give the same key for formatting-only differences', () => {
+    const reposted = {
+      title: 'JUNIOR  EKONOM',
+      company: 'Tech Company AB ',
+      description: 'Vi söker en junior ekonom\nmed 0-2 års erfarenhet.',
+    };
+
+    assert.strictEqual(
+      computeJobEvaluationCacheKey(reposted, 'v1'),
+      computeJobEvaluationCacheKey(job, 'v1')
+    );
+  });
+
+  it('should change with the description', () => {
+    assert.notStrictEqual(
+      computeJobEvaluationCacheKey({ ...job, description: 'Senior role, 10+ years' }, 'v1'),
+      computeJobEvaluationCacheKey(job, 'v1')
+    );
+  });
+
+  it('should change with the prompt version', () => {
+    assert.notStrictEqual(computeJobEvaluationCacheKey(job, 'v2'), computeJobEvaluationCacheKey(job, 'v1'));
+  });
+
+  it('should not mix up text moved between fields', () => {
+    assert.notStrictEqual(
+      computeJobEvaluationCacheKey({ title: 'a b', company: 'c', description: '' }, 'v1'),
+      computeJobEvaluationCacheKey({ title: 'a', company: 'b c', description: '' }, 'v1')
+    );
+  });
+});
+
+describe('createMemoryJobEvaluationCache', () => {
+  it('should return a stored evaluation', async () => {
+    const cache = createMemoryJobEvaluationCache(60_000);
+    const key = computeJobEvaluationCacheKey(job, 'v1');
+
+    await cache.set(key, evaluation, 'v1');
+
+    assert.deepStrictEqual(await cache.get(key), evaluation);
+  });
+
+  it('should miss unknown keys', async () => {
+    const cache = createMemoryJobEvaluationCache(60_000);
+
+    assert.strictEqual(await cache.get('missing'), null);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    let now = 1_000_000;
+    const cache = createMemoryJobEvaluationCache(60_000, () => now);
+
+    await cache.set('key', evaluation, 'v1');
+    now += 59_999;
+    assert.deepStrictEqual(await cache.get('key'), evaluation);
+
+    now += 1;
+    assert.strictEqual(await cache.get('key'), null);
+  });
+
+  it('should overwrite an entry on refresh', async () => {
+    const cache = createMemoryJobEvaluationCache(60_000);
+
+    await cache.set('key', evaluation, 'v1');
+    await cache.set('key', { ...evaluation, score: 40 }, 'v1');
+
+    assert.strictEqual((await cache.get('key')).score, 40);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { detectLanguage, parseLanguage, resolveLeadLanguage } from '../dist/utils/languageDetection.js';
+
+describe('detectLanguage', () => {
+  it('should detect Swedish', () => {
+    assert.strictEqual(
+      detectLanguage('Vi söker en ekonom med minst två års erfarenhet till vårt kontor i Stockholm.'),
+      'sv'
+    );
+  });
+
+  it('should detect English', () => {
+    assert.strictEqual(
+      detectLanguage('We are looking for an accountant with at least two years of experience for our Stockholm office.'),
+      'en'
+    );
+  });
+
+  it('should keep a Swedish text with an English job title Swedish', () => {
+    assert.strictEqual(
+      detectLanguage('Vi behöver en Senior Backend Developer som kan börja så snart som möjligt hos oss.'),
+      'sv'
+    );
+  });
+
+  it('should return null for short or empty texts', () => {
+    assert.strictEqual(detectLanguage('Ekonom'), null);
+    assert.strictEqual(detectLanguage(''), null);
+    assert.strictEqual(detectLanguage(undefined), null);
+  });
+});
+
+describe('parseLanguage', () => {
+  it('should read language codes and locale tags', () => {
+    assert.strictEqual(parseLanguage('en'), 'en');
+    assert.strictEqual(parseLanguage('EN-gb'), 'en');
+    assert.strictEqual(parseLanguage(' sv_SE '), 'sv');
+  });
+
+  it('should return undefined for unsupported or missing values', () => {
+    assert.strictEqual(parseLanguage('de'), undefined);
+    assert.strictEqual(parseLanguage(''), undefined);
+    assert.strictEqual(parseLanguage(42), undefined);
+  });
+});
+
+describe('resolveLeadLanguage', () => {
+  const english = 'Hi, we are hiring a project manager for our team and would like your help.';
+
+  it('should prefer the form override', () => {
+    assert.deepStrictEqual(resolveLeadLanguage('sv', [english]), { language: 'sv', language_source: 'form' });
+  });
+
+  it('should fall back to the detected language', () => {
+    assert.deepStrictEqual(resolveLeadLanguage(undefined, [undefined, english]), {
+      language: 'en',
+      language_source: 'detected',
+    });
+  });
+
+  it('should default to Swedish when the language cannot be told', () => {
+    assert.deepStrictEqual(resolveLeadLanguage(undefined, ['Ekonom']), { language: 'sv', language_source: 'default' });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+import { buildPdf } from './helpers/pdf.js';
+
+Object.assign(process.env, FAKE_BACKEND_ENV, { ATTACHMENT_URL_HOSTS: 'files.example.com' });
+
+const { extractLeadAttachments, attachmentsFromUrls } = await import('../dist/services/leads/leadAttachments.js');
+
+const pdfResponse = (text) =>
+  new Response(buildPdf(text), { status: 200, headers: { 'content-type': 'application/pdf' } });
+
+describe('extractLeadAttachments', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  it('should skip files that cannot be downloaded or read and keep the rest', async () => {
+    const urls = [
+      'https://files.example.com/job.pdf',
+      'https://files.example.com/expired.pdf',
+      'https://files.example.com/broken.docx',
+    ];
+    backend.state.urls.set(urls[0], pdfResponse('Junior ekonom till Malmo'));
+    backend.state.urls.set(urls[1], new Response('Signature has expired', { status: 403 }));
+    backend.state.urls.set(
+      urls[2],
+      new Response(Buffer.from([0x50, 0x4b, 0x03, 0x04]), { status: 200, headers: { 'content-type': 'application/zip' } })
+    );
+
+    const { attachments, sections } = await extractLeadAttachments({ id: 'sub-1', attachments: attachmentsFromUrls(urls) });
+
+    assert.strictEqual(sections.length, 1);
+    assert.match(sections[0].text, /Junior ekonom till Malmo/);
+
+    assert.strictEqual(attachments[0].error, undefined);
+    assert.strictEqual(attachments[0].storage_path, 'sub-1/1-job.pdf');
+    assert.match(attachments[1].error, /HTTP 403/);
+    assert.strictEqual(attachments[1].storage_path, null);
+    // Downloaded but unreadable - the original is still stored for the recruiter
+    assert.match(attachments[2].error, /Failed to extract text from broken.docx/);
+    assert.strictEqual(attachments[2].storage_path, 'sub-1/3-broken.docx');
+    assert.ok(backend.state.storage.has('lead-attachments/sub-1/3-broken.docx'));
+  });
+
+  it('should fail when the storage bucket is unavailable, so the step is retried', async () => {
+    const url = 'https://files.example.com/job.pdf';
+    backend.state.urls.set(url, pdfResponse('Junior ekonom'));
+    backend.state.failures.add('POST /storage/v1/object/lead-attachments/sub-1/1-job.pdf');
+
+    await assert.rejects(
+      extractLeadAttachments({ id: 'sub-1', attachments: attachmentsFromUrls([url]) }),
+      /Failed to store lead attachment/
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+Object.assign(process.env, FAKE_BACKEND_ENV, { ADMIN_API_KEY: 'test-admin-key' });
+
+const { dryRunLeadSubmission } = await import('../dist/services/leads/leadDryRun.js');
+const { startTestServer } = await import('./helpers/testServer.js');
+
+// The fake backend answers every fetch, so requests to the test server go through the real one
+const realFetch = globalThis.fetch;
+
+const lead = {
+  name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  company: 'Tech Company AB',
+  message: 'Vi söker en junior utvecklare till vårt team i Stockholm.',
+};
+
+function formData(overrides = {}) {
+  return {
+    id: randomUUID(),
+    full_name: lead.name,
+    email: lead.email,
+    phone: '0701234567',
+    company_name: lead.company,
+    needs_description: lead.message,
+    source: 'website_form',
+    ...overrides,
+  };
+}
+
+describe('dryRunLeadSubmission', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  it('should return every step of a valid lead without writing or emailing', async () => {
+    const result = await dryRunLeadSubmission(formData());
+
+    assert.strictEqual(result.path, 'valid_lead');
+    assert.strictEqual(result.validation.passes, true);
+    assert.strictEqual(result.validation.is_likely_spam, false);
+    assert.strictEqual(result.ai_score.classification, 'valid_lead');
+    assert.strictEqual(result.ai_score.lead_score, 75);
+    assert.deepStrictEqual(result.domain, { extracted_domain: 'techcompany.se', domain_source: 'email' });
+    assert.ok(result.job_ad.title);
+    assert.ok(result.job_ad.description);
+
+    assert.deepStrictEqual(backend.state.writes, []);
+    assert.deepStrictEqual(backend.state.emails, []);
+  });
+
+  it('should stop after scoring a lead the AI does not accept', async () => {
+    const result = await dryRunLeadSubmission(
+      formData({ needs_description: 'Jag söker jobb som utvecklare, här är my cv.' })
+    );
+
+    assert.strictEqual(result.path, 'likely_candidate');
+    assert.strictEqual(result.ai_score.classification, 'likely_candidate');
+    assert.strictEqual(result.domain, null);
+    assert.strictEqual(result.job_ad, null);
+    assert.deepStrictEqual(backend.state.writes, []);
+  });
+
+  it('should not score a lead that fails the validation gate', async () => {
+    const botCheck = { passed: false, reasons: ['honeypot_filled'], fill_time_ms: null, captcha: 'not_checked' };
+    const result = await dryRunLeadSubmission(formData({ bot_check: botCheck }));
+
+    assert.strictEqual(result.path, 'fast_reject');
+    assert.strictEqual(result.validation.passes, false);
+    assert.strictEqual(result.ai_score, null);
+    assert.strictEqual(result.domain, null);
+    assert.strictEqual(result.job_ad, null);
+  });
+});
+
+describe('POST /api/leads/dry-run', () => {
+  let server;
+  let backend;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  const postDryRun = (body, headers = { 'x-api-key': 'test-admin-key' }) =>
+    realFetch(`${server.url}/api/leads/dry-run`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  it('should return the validation, AI score, domain and job ad', async () => {
+    const response = await postDryRun(lead);
+    const body = await response.json();
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(body.dry_run, true);
+    assert.strictEqual(body.path, 'valid_lead');
+    assert.strictEqual(body.validation.passes, true);
+    assert.strictEqual(body.ai_score.lead_score, 75);
+    assert.strictEqual(body.domain.extracted_domain, 'techcompany.se');
+    assert.ok(body.job_ad.title);
+  });
+
+  it('should not insert anything into Supabase or send an email', async () => {
+    await postDryRun(lead);
+
+    assert.deepStrictEqual(backend.state.writes, []);
+    assert.deepStrictEqual(backend.state.emails, []);
+    assert.deepStrictEqual(
+      backend.state.requests.filter((request) => !request.startsWith('GET ')),
+      []
+    );
+  });
+
+  it('should reject an invalid body', async () => {
+    const response = await postDryRun({ name: 'Anna Svensson' });
+
+    assert.strictEqual(response.status, 400);
+    assert.strictEqual((await response.json()).success, false);
+  });
+
+  it('should require the admin API key', async () => {
+    const response = await postDryRun(lead, {});
+
+    assert.strictEqual(response.status, 401);
+  });
+});
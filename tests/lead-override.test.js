@@ -0,0 +1,126 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+Object.assign(process.env, FAKE_BACKEND_ENV);
+
+const { LeadOverrideRequestSchema } = await import('../dist/schemas/leads.js');
+const { overrideLeadClassification } = await import('../dist/services/leads/leadOverride.js');
+const { overrideStepPrefix } = await import('../dist/services/leads/leadPipeline.js');
+const { leadQueue, enqueueLeadSubmission, processNextLeadSubmission } = await import(
+  '../dist/services/leads/leadWorker.js'
+);
+
+describe('LeadOverrideRequestSchema', () => {
+  it('should accept a classification with a reason', () => {
+    const result = LeadOverrideRequestSchema.safeParse({
+      classification: 'valid_lead',
+      reason: '  Existing client  ',
+      overridden_by: 'anna@rookie.se',
+    });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.reason, 'Existing client');
+  });
+
+  it('should reject unknown classifications', () => {
+    const result = LeadOverrideRequestSchema.safeParse({ classification: 'spam', reason: 'Fast rejected' });
+    assert.strictEqual(result.success, false);
+  });
+
+  it('should require a reason', () => {
+    assert.strictEqual(LeadOverrideRequestSchema.safeParse({ classification: 'valid_lead' }).success, false);
+    assert.strictEqual(LeadOverrideRequestSchema.safeParse({ classification: 'valid_lead', reason: ' ' }).success, false);
+  });
+});
+
+describe('overrideStepPrefix', () => {
+  it('should number overrides by the finished ones', () => {
+    assert.strictEqual(overrideStepPrefix({}, 'valid_lead'), 'override_1_valid_lead_');
+
+    const steps = {
+      override_1_likely_spam_done: { status: 'completed', attempts: 1, output: true, finished_at: '' },
+      override_2_valid_lead_upsert_contact: { status: 'completed', attempts: 1, output: 'c', finished_at: '' },
+    };
+
+    // The second override didn't finish - retrying it resumes its steps
+    assert.strictEqual(overrideStepPrefix(steps, 'valid_lead'), 'override_2_valid_lead_');
+    assert.strictEqual(overrideStepPrefix(steps, 'invalid_lead'), 'override_2_invalid_lead_');
+  });
+});
+
+describe('overrideLeadClassification', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  /**
+   * Queues and processes a lead the fake AI classifies as invalid_lead
+   */
+  async function processInvalidLead() {
+    const id = randomUUID();
+    await enqueueLeadSubmission(id, {
+      id,
+      full_name: 'Frida Andersson',
+      email: 'frida@caregroup.se',
+      phone: '0701234567',
+      company_name: 'Care Group in Sweden AB',
+      needs_description: 'Hej! Vi vill gärna presentera våra tjänster inom städning och lämna en offert till er.',
+      source: 'website_form',
+    });
+    await processNextLeadSubmission();
+
+    const submission = await leadQueue.get(id);
+    assert.strictEqual(submission.result.classification, 'invalid_lead');
+    return submission;
+  }
+
+  const override = async (id, classification) =>
+    overrideLeadClassification(await leadQueue.get(id), { classification, reason: 'Checked by recruiter' });
+
+  it('should write new records for every override', async () => {
+    const submission = await processInvalidLead();
+
+    const first = await override(submission.id, 'likely_spam');
+    const second = await override(submission.id, 'invalid_lead');
+
+    const rejected = backend.table('rejected_leads');
+    assert.deepStrictEqual(
+      rejected.map((row) => row.classification),
+      ['invalid_lead', 'likely_spam', 'invalid_lead']
+    );
+    assert.strictEqual(first.result.rejected_lead_id, rejected[1].id);
+    assert.strictEqual(second.result.rejected_lead_id, rejected[2].id);
+
+    const stored = await leadQueue.get(submission.id);
+    assert.deepStrictEqual(stored.result, second.result);
+    assert.deepStrictEqual(
+      backend.table('lead_overrides').map((row) => row.result.rejected_lead_id),
+      [rejected[1].id, rejected[2].id]
+    );
+  });
+
+  it('should run the valid lead path and resume it after a failure', async () => {
+    const submission = await processInvalidLead();
+    backend.state.failures.add('POST /rest/v1/job_ads');
+
+    await assert.rejects(override(submission.id, 'valid_lead'), /job ad/i);
+
+    const { result } = await override(submission.id, 'valid_lead');
+
+    assert.strictEqual(result.classification, 'valid_lead');
+    assert.strictEqual(backend.table('signals').length, 1);
+    assert.strictEqual(backend.table('contacts').length, 1);
+    assert.strictEqual(backend.table('job_ads').length, 1);
+    assert.strictEqual(result.job_ad_id, backend.table('job_ads')[0].id);
+    assert.strictEqual(backend.state.emails.length, 1);
+    assert.strictEqual(backend.table('lead_overrides').length, 1);
+  });
+});
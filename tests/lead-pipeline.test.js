@@ -0,0 +1,71 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+// Default step, Supabase and Resend retries - only the step backoff is shortened
+Object.assign(process.env, FAKE_BACKEND_ENV, { LEAD_PIPELINE_STEP_BACKOFF_MS: '1' });
+for (const key of ['LEAD_PIPELINE_STEP_RETRIES', 'SUPABASE_RETRIES', 'RESEND_RETRIES']) {
+  delete process.env[key];
+}
+
+const { leadQueue, enqueueLeadSubmission, processNextLeadSubmission } = await import(
+  '../dist/services/leads/leadWorker.js'
+);
+
+describe('lead pipeline step retries', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  async function processValidLead() {
+    const id = randomUUID();
+    await enqueueLeadSubmission(id, {
+      id,
+      full_name: 'Anna Svensson',
+      email: 'anna@techcompany.se',
+      phone: '0701234567',
+      company_name: 'Tech Company AB',
+      needs_description: 'Vi söker en junior utvecklare till vårt team i Stockholm.',
+      source: 'website_form',
+    });
+    await processNextLeadSubmission();
+    return leadQueue.get(id);
+  }
+
+  const count = (request) => backend.state.requests.filter((sent) => sent === request).length;
+
+  it('should not resend the email after a server error', async () => {
+    backend.state.failures.add('POST /emails');
+
+    const submission = await processValidLead();
+
+    assert.strictEqual(count('POST /emails'), 1);
+    assert.strictEqual(submission.steps.send_email.status, 'failed');
+    assert.strictEqual(submission.steps.send_email.attempts, 1);
+  });
+
+  it('should not repeat an insert after a server error', async () => {
+    backend.state.failures.add('POST /rest/v1/signals');
+
+    const submission = await processValidLead();
+
+    assert.strictEqual(count('POST /rest/v1/signals'), 1);
+    assert.strictEqual(submission.steps.create_signal.status, 'failed');
+  });
+
+  it('should still retry lookups', async () => {
+    backend.state.failures.add('POST /rest/v1/rpc/find_or_create_company');
+
+    const submission = await processValidLead();
+
+    assert.strictEqual(count('POST /rest/v1/rpc/find_or_create_company'), 2);
+    assert.strictEqual(submission.status, 'completed');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createMemoryLeadQueue } from '../dist/services/leads/leadQueue.js';
+import { withRetry, computeBackoffDelay } from '../dist/utils/retry.js';
+
+const formData = {
+  id: 'sub-1',
+  full_name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  company_name: 'Tech Company AB',
+};
+
+describe('createMemoryLeadQueue', () => {
+  it('should enqueue submissions as pending', async () => {
+    const queue = createMemoryLeadQueue();
+
+    const submission = await queue.enqueue('sub-1', formData);
+
+    assert.strictEqual(submission.status, 'pending');
+    assert.strictEqual(submission.attempts, 0);
+    assert.deepStrictEqual(submission.steps, {});
+  });
+
+  it('should keep the correlation ID of the webhook call', async () => {
+    const queue = createMemoryLeadQueue();
+
+    await queue.enqueue('sub-1', formData, { correlationId: 'req-123' });
+    const claimed = await queue.claimNext();
+
+    assert.strictEqual(claimed.correlation_id, 'req-123');
+  });
+
+  it('should claim oldest pending submission and increment attempts', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.enqueue('sub-2', { ...formData, id: 'sub-2' });
+
+    const claimed = await queue.claimNext();
+
+    assert.strictEqual(claimed.id, 'sub-1');
+    assert.strictEqual(claimed.status, 'processing');
+    assert.strictEqual(claimed.attempts, 1);
+    assert.ok(claimed.locked_at);
+  });
+
+  it('should not claim the same submission twice', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+
+    await queue.claimNext();
+    const second = await queue.claimNext();
+
+    assert.strictEqual(second, null);
+  });
+
+  it('should store a claimed submission out of reach of claimNext', async () => {
+    const queue = createMemoryLeadQueue();
+
+    const submission = await queue.enqueue('sub-1', formData, { claimed: true });
+
+    assert.strictEqual(submission.status, 'processing');
+    assert.strictEqual(submission.attempts, 1);
+    assert.strictEqual(await queue.claimNext(), null);
+  });
+
+  it('should claim a failed submission by id and keep its steps', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.claimNext();
+    await queue.saveSteps('sub-1', { upsert_contact: { status: 'completed', attempts: 1, output: 'c1', finished_at: '' } });
+    await queue.fail('sub-1', 'boom');
+
+    const claimed = await queue.claim('sub-1');
+
+    assert.strictEqual(claimed.status, 'processing');
+    assert.strictEqual(claimed.attempts, 2);
+    assert.strictEqual(claimed.steps.upsert_contact.output, 'c1');
+    assert.strictEqual(await queue.claim('sub-1'), null);
+    assert.strictEqual(await queue.claim('missing'), null);
+  });
+
+  it('should not claim submissions scheduled for a later retry', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.claimNext();
+
+    await queue.retryLater('sub-1', 'AI scoring failed', new Date(Date.now() + 60000));
+
+    assert.strictEqual(await queue.claimNext(), null);
+    const stored = await queue.get('sub-1');
+    assert.strictEqual(stored.status, 'pending');
+    assert.strictEqual(stored.last_error, 'AI scoring failed');
+  });
+
+  it('should keep saved steps across retries', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.claimNext();
+
+    await queue.saveSteps('sub-1', {
+      score: { status: 'completed', attempts: 1, output: { lead_score: 80 }, finished_at: new Date().toISOString() },
+    });
+    await queue.retryLater('sub-1', 'Failed to create signal', new Date(Date.now() - 1));
+
+    const reclaimed = await queue.claimNext();
+
+    assert.strictEqual(reclaimed.attempts, 2);
+    assert.strictEqual(reclaimed.steps.score.status, 'completed');
+  });
+
+  it('should store result on completion', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.claimNext();
+
+    await queue.complete('sub-1', { classification: 'valid_lead', message: 'Valid lead processed successfully' });
+
+    const stored = await queue.get('sub-1');
+    assert.strictEqual(stored.status, 'completed');
+    assert.strictEqual(stored.result.classification, 'valid_lead');
+  });
+
+  it('should requeue stale processing submissions', async () => {
+    const queue = createMemoryLeadQueue();
+    await queue.enqueue('sub-1', formData);
+    await queue.claimNext();
+
+    const count = await queue.requeueStale(new Date(Date.now() + 1000));
+
+    assert.strictEqual(count, 1);
+    assert.strictEqual((await queue.get('sub-1')).status, 'pending');
+  });
+});
+
+describe('withRetry', () => {
+  it('should return result after transient failures', async () => {
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw new Error('timeout');
+        return 'ok';
+      },
+      { retries: 2, baseDelayMs: 1 }
+    );
+
+    assert.strictEqual(result, 'ok');
+    assert.strictEqual(calls, 3);
+  });
+
+  it('should rethrow after retries are exhausted', async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error('down');
+        },
+        { retries: 1, baseDelayMs: 1 }
+      ),
+      /down/
+    );
+
+    assert.strictEqual(calls, 2);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('should double the delay per attempt up to the cap', () => {
+    assert.strictEqual(computeBackoffDelay(1, 1000), 1000);
+    assert.strictEqual(computeBackoffDelay(2, 1000), 2000);
+    assert.strictEqual(computeBackoffDelay(3, 1000), 4000);
+    assert.strictEqual(computeBackoffDelay(10, 1000, 5000), 5000);
+  });
+});
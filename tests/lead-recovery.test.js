@@ -0,0 +1,126 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+// One attempt, so a failing pipeline is saved as processing_error right away
+Object.assign(process.env, FAKE_BACKEND_ENV, { LEAD_QUEUE_MAX_ATTEMPTS: '1' });
+
+const { replayProcessingErrorLeads } = await import('../dist/services/leads/leadRecovery.js');
+const { leadQueue, enqueueLeadSubmission, processNextLeadSubmission } = await import(
+  '../dist/services/leads/leadWorker.js'
+);
+
+const formData = (id) => ({
+  id,
+  full_name: 'Erik Lindqvist',
+  email: 'erik@nordbygg.se',
+  phone: '0701234567',
+  company_name: 'Nordbygg AB',
+  needs_description: 'Vi behöver en junior projektingenjör till vårt kontor i Stockholm.',
+  industry: 'Bygg',
+  service_type: 'Rekrytering',
+  source: 'website_form',
+});
+
+describe('replayProcessingErrorLeads', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  /**
+   * Queues a valid lead whose job ad insert fails, so it ends up as a processing_error row
+   */
+  async function failLead() {
+    const id = randomUUID();
+    await enqueueLeadSubmission(id, formData(id));
+    backend.state.failures.add('POST /rest/v1/job_ads');
+    await processNextLeadSubmission();
+
+    const [row] = backend.table('rejected_leads');
+    assert.strictEqual(row.classification, 'processing_error');
+    assert.strictEqual(row.submission_id, id);
+    return { id, row };
+  }
+
+  it('should resume the failed submission without repeating completed steps', async () => {
+    const { id, row } = await failLead();
+
+    const report = await replayProcessingErrorLeads({ ids: [row.id] });
+
+    assert.strictEqual(report.recovered, 1);
+    assert.strictEqual(report.items[0].submission_id, id);
+    assert.strictEqual(report.items[0].classification, 'valid_lead');
+
+    const submission = await leadQueue.get(id);
+    assert.strictEqual(submission.status, 'completed');
+    assert.strictEqual(submission.result.job_ad_id, backend.table('job_ads')[0].id);
+    assert.strictEqual(backend.table('signals').length, 1);
+    assert.strictEqual(backend.table('contacts').length, 1);
+    assert.strictEqual(backend.table('job_ads').length, 1);
+    assert.strictEqual(backend.table('rejected_leads')[0].recovered_submission_id, id);
+  });
+
+  it('should release the row and keep the steps when the replay fails', async () => {
+    const { id, row } = await failLead();
+    backend.state.failures.add('POST /rest/v1/job_ads');
+
+    const failed = await replayProcessingErrorLeads({ ids: [row.id] });
+
+    assert.strictEqual(failed.failed, 1);
+    assert.strictEqual(backend.table('rejected_leads')[0].recovered_at, null);
+    assert.strictEqual((await leadQueue.get(id)).status, 'failed');
+
+    const report = await replayProcessingErrorLeads({ ids: [row.id] });
+
+    assert.strictEqual(report.recovered, 1);
+    assert.strictEqual(report.items[0].submission_id, id);
+    assert.strictEqual(backend.table('signals').length, 1);
+    assert.strictEqual(backend.table('contacts').length, 1);
+  });
+
+  const pushLegacyRow = (id) =>
+    backend.table('rejected_leads').push({
+      ...formData(id),
+      submitted_description: formData().needs_description,
+      classification: 'processing_error',
+      recovered_at: null,
+      created_at: new Date().toISOString(),
+    });
+
+  it('should queue nothing when another replay claims the row first', async () => {
+    pushLegacyRow('legacy-2');
+    const fakeFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init = {}) => {
+      // The other replay marks the row between the listing and our claim
+      if (init.method === 'PATCH' && String(input).includes('/rejected_leads')) {
+        backend.table('rejected_leads')[0].recovered_at = new Date().toISOString();
+      }
+      return fakeFetch(input, init);
+    };
+
+    const report = await replayProcessingErrorLeads({ ids: ['legacy-2'] });
+
+    assert.strictEqual(report.skipped, 1);
+    assert.strictEqual(report.items[0].message, 'Already recovered by another replay');
+    assert.strictEqual(await leadQueue.claimNext(), null);
+  });
+
+  it('should rebuild a submission for rows without one', async () => {
+    pushLegacyRow('legacy-1');
+
+    const report = await replayProcessingErrorLeads({ ids: ['legacy-1'] });
+
+    assert.strictEqual(report.recovered, 1);
+    const submission = await leadQueue.get(report.items[0].submission_id);
+    assert.strictEqual(submission.status, 'completed');
+    assert.strictEqual(submission.form_data.email, 'erik@nordbygg.se');
+    assert.strictEqual(submission.form_data.industry, undefined);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { toLeadStatus } from '../dist/services/leads/leadStatus.js';
+
+function submission(overrides = {}) {
+  return {
+    id: '3f1c2b9e-8a4d-4a51-9d4e-2f7f0b6c1a2e',
+    status: 'completed',
+    form_data: { id: '3f1c2b9e-8a4d-4a51-9d4e-2f7f0b6c1a2e', email: 'anna@company.se' },
+    idempotency_key: null,
+    response: null,
+    attempts: 1,
+    next_attempt_at: '2026-01-01T00:00:00.000Z',
+    locked_at: null,
+    steps: {},
+    result: null,
+    last_error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:05.000Z',
+    ...overrides,
+  };
+}
+
+const completed = (output) => ({ status: 'completed', attempts: 1, output, finished_at: '2026-01-01T00:00:01.000Z' });
+
+describe('toLeadStatus', () => {
+  it('should report a processed valid lead', () => {
+    const status = toLeadStatus(
+      submission({
+        result: {
+          classification: 'valid_lead',
+          message: 'Valid lead processed successfully',
+          lead_score: 82,
+          ai_reasoning: 'Clear hiring need',
+          company_id: 'c1',
+          signal_id: 's1',
+          contact_id: 'p1',
+          job_ad_id: 'j1',
+        },
+      })
+    );
+
+    assert.strictEqual(status.classification, 'valid_lead');
+    assert.strictEqual(status.lead_score, 82);
+    assert.strictEqual(status.destination, 'job_ads');
+    assert.strictEqual(status.job_ad_id, 'j1');
+    assert.strictEqual(status.source, 'website_form');
+  });
+
+  it('should report a candidate and a fast-rejected lead', () => {
+    const candidate = toLeadStatus(
+      submission({ result: { classification: 'likely_candidate', message: '', candidate_lead_id: 'cl1' } })
+    );
+    assert.strictEqual(candidate.destination, 'candidate_leads');
+
+    const spam = toLeadStatus(submission({ result: { classification: 'spam', message: '', rejected_lead_id: 'r1' } }));
+    assert.strictEqual(spam.destination, 'rejected_leads');
+    assert.strictEqual(spam.rejected_lead_id, 'r1');
+  });
+
+  it('should fill in from completed steps while processing', () => {
+    const status = toLeadStatus(
+      submission({
+        status: 'processing',
+        steps: {
+          score: completed({ classification: 'valid_lead', lead_score: 70, ai_reasoning: 'ok' }),
+          find_or_create_company: completed('c1'),
+          create_signal: { status: 'failed', attempts: 3, error: 'timeout', finished_at: '2026-01-01T00:00:02.000Z' },
+        },
+      })
+    );
+
+    assert.strictEqual(status.classification, 'valid_lead');
+    assert.strictEqual(status.lead_score, 70);
+    assert.strictEqual(status.company_id, 'c1');
+    assert.strictEqual(status.signal_id, null);
+    assert.strictEqual(status.destination, null);
+  });
+
+  it('should point failed submissions at rejected_leads', () => {
+    const status = toLeadStatus(submission({ status: 'failed', last_error: 'AI scoring failed' }));
+    assert.strictEqual(status.destination, 'rejected_leads');
+    assert.strictEqual(status.last_error, 'AI scoring failed');
+  });
+});
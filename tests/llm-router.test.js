@@ -0,0 +1,149 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createLLMRouter, parseLLMRoutes, loadLLMRoutes } from '../dist/services/llm/llmRouter.js';
+import { createLLMProviders } from '../dist/services/llm/providers.js';
+
+const routes = parseLLMRoutes({
+  providers: { primary: {}, backup: {}, local: { base_url_env: 'LOCAL_LLM_BASE_URL' } },
+  tasks: {
+    lead_scoring: [
+      { provider: 'primary', model: 'big', temperature: 0.7 },
+      { provider: 'backup', model: 'small', temperature: 0.7 },
+    ],
+    job_ad: [{ provider: 'local', model: 'llama', temperature: 0.7 }],
+    job_evaluation: [{ provider: 'primary', model: 'big', temperature: 0.3 }],
+  },
+});
+
+/**
+ * Provider stub answering with a fixed reply, or throwing when reply is an Error
+ */
+function fakeProvider(name, reply, calls = [], usage) {
+  return {
+    name,
+    async complete(request) {
+      calls.push({ provider: name, ...request });
+      if (reply instanceof Error) throw reply;
+      return { content: reply, usage };
+    },
+  };
+}
+
+describe('createLLMRouter', () => {
+  it('should answer with the first target of the task', async () => {
+    const calls = [];
+    const router = createLLMRouter(
+      routes,
+      new Map([
+        ['primary', fakeProvider('primary', '{"ok":true}', calls)],
+        ['backup', fakeProvider('backup', 'unused', calls)],
+      ])
+    );
+
+    const completion = await router.complete('lead_scoring', [{ role: 'user', content: 'Hi' }]);
+
+    assert.deepStrictEqual(completion, { content: '{"ok":true}', provider: 'primary', model: 'big' });
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0].temperature, 0.7);
+  });
+
+  it('should pass on the token usage reported by the provider', async () => {
+    const usage = { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 };
+    const router = createLLMRouter(routes, new Map([['primary', fakeProvider('primary', 'reply', [], usage)]]));
+
+    const completion = await router.complete('job_evaluation', []);
+
+    assert.deepStrictEqual(completion.usage, usage);
+  });
+
+  it('should fall back to the next target when one fails', async () => {
+    const router = createLLMRouter(
+      routes,
+      new Map([
+        ['primary', fakeProvider('primary', new Error('503'))],
+        ['backup', fakeProvider('backup', 'fallback reply')],
+      ])
+    );
+
+    const completion = await router.complete('lead_scoring', []);
+
+    assert.strictEqual(completion.provider, 'backup');
+    assert.strictEqual(completion.model, 'small');
+  });
+
+  it('should skip targets whose provider is not configured', async () => {
+    const router = createLLMRouter(routes, new Map([['backup', fakeProvider('backup', 'reply')]]));
+
+    assert.strictEqual((await router.complete('lead_scoring', [])).provider, 'backup');
+  });
+
+  it('should report every failed target', async () => {
+    const router = createLLMRouter(
+      routes,
+      new Map([
+        ['primary', fakeProvider('primary', new Error('timeout'))],
+        ['backup', fakeProvider('backup', new Error('429'))],
+      ])
+    );
+
+    await assert.rejects(router.complete('lead_scoring', []), /primary\/big: timeout; backup\/small: 429/);
+  });
+
+  it('should fail when no provider of the task is configured', async () => {
+    const router = createLLMRouter(routes, new Map());
+
+    await assert.rejects(router.complete('job_ad', []), /No configured LLM provider for job_ad/);
+  });
+});
+
+describe('parseLLMRoutes', () => {
+  it('should load the bundled routes', () => {
+    const bundled = loadLLMRoutes(undefined);
+
+    assert.strictEqual(bundled.tasks.job_evaluation[0].provider, 'openrouter');
+    assert.ok(bundled.providers.local);
+  });
+
+  it('should reject targets with an unknown provider', () => {
+    assert.throws(
+      () =>
+        parseLLMRoutes({
+          providers: { openai: {} },
+          tasks: {
+            lead_scoring: [{ provider: 'anthropic', model: 'x', temperature: 0 }],
+            job_ad: [{ provider: 'openai', model: 'x', temperature: 0 }],
+            job_evaluation: [{ provider: 'openai', model: 'x', temperature: 0 }],
+          },
+        }),
+      /Unknown provider: anthropic/
+    );
+  });
+
+  it('should reject a task without targets', () => {
+    assert.throws(
+      () =>
+        parseLLMRoutes({
+          providers: { openai: {} },
+          tasks: { lead_scoring: [], job_ad: [], job_evaluation: [] },
+        }),
+      /at least one target/
+    );
+  });
+});
+
+describe('createLLMProviders', () => {
+  const providers = {
+    openai: { api_key_env: 'OPENAI_API_KEY' },
+    openrouter: { base_url: 'https://openrouter.ai/api/v1', api_key_env: 'OPENROUTER_API_KEY' },
+    local: { base_url_env: 'LOCAL_LLM_BASE_URL' },
+  };
+
+  it('should only set up providers whose key and endpoint are in the environment', () => {
+    const available = createLLMProviders(providers, {
+      OPENAI_API_KEY: 'sk-test',
+      LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    assert.deepStrictEqual([...available.keys()], ['openai', 'local']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseLLMPrices, loadLLMPrices, toAIUsage, sumUsage } from '../dist/services/llm/llmUsage.js';
+
+const prices = parseLLMPrices({
+  models: { 'gpt-4o-mini': { input_usd_per_million: 0.15, output_usd_per_million: 0.6 } },
+});
+
+describe('toAIUsage', () => {
+  it('should price prompt and completion tokens of a known model', () => {
+    const usage = toAIUsage(
+      'gpt-4o-mini',
+      { prompt_tokens: 1_000_000, completion_tokens: 500_000, total_tokens: 1_500_000 },
+      prices
+    );
+
+    assert.strictEqual(usage.calls, 1);
+    assert.strictEqual(usage.total_tokens, 1_500_000);
+    assert.strictEqual(usage.cost_usd, 0.45);
+    assert.strictEqual(usage.unpriced_calls, 0);
+  });
+
+  it('should count tokens of a model without a price as unpriced', () => {
+    const usage = toAIUsage('llama3.1', { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 }, prices);
+
+    assert.strictEqual(usage.total_tokens, 120);
+    assert.strictEqual(usage.cost_usd, 0);
+    assert.strictEqual(usage.unpriced_calls, 1);
+  });
+
+  it('should count a call without reported usage as unpriced', () => {
+    assert.deepStrictEqual(toAIUsage('gpt-4o-mini', undefined, prices), {
+      calls: 1,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      unpriced_calls: 1,
+    });
+  });
+});
+
+describe('sumUsage', () => {
+  it('should add up usage and skip missing entries', () => {
+    const call = toAIUsage('gpt-4o-mini', { prompt_tokens: 200, completion_tokens: 100, total_tokens: 300 }, prices);
+
+    const total = sumUsage(call, undefined, call, null);
+
+    assert.strictEqual(total.calls, 2);
+    assert.strictEqual(total.total_tokens, 600);
+    assert.ok(Math.abs(total.cost_usd - 2 * call.cost_usd) < 1e-12);
+  });
+
+  it('should be zero for no usage', () => {
+    assert.strictEqual(sumUsage().calls, 0);
+  });
+});
+
+describe('parseLLMPrices', () => {
+  it('should load the bundled price table', () => {
+    assert.ok(loadLLMPrices(undefined).models['gpt-4o-mini']);
+  });
+
+  it('should reject negative prices', () => {
+    assert.throws(
+      () => parseLLMPrices({ models: { x: { input_usd_per_million: -1, output_usd_per_million: 0 } } }),
+      /Invalid LLM prices/
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { normalizePhoneNumber } from '../dist/utils/phoneNumber.js';
+import { normalizeOrgNumber, passesLuhnCheck } from '../dist/utils/orgNumber.js';
+import { parseWebhookRequest } from '../dist/schemas/webhook.js';
+
+describe('normalizePhoneNumber', () => {
+  it('should normalize Swedish mobile numbers in any common format', () => {
+    for (const raw of ['070-123 45 67', '+46 70 123 4567', '0046701234567', '+46 (0)70 123 45 67', '+460701234567']) {
+      assert.deepStrictEqual(normalizePhoneNumber(raw), { e164: '+46701234567', country: 'SE', type: 'mobile' }, raw);
+    }
+  });
+
+  it('should detect Swedish landlines', () => {
+    assert.deepStrictEqual(normalizePhoneNumber('08-123 456 78'), { e164: '+46812345678', country: 'SE', type: 'landline' });
+    assert.deepStrictEqual(normalizePhoneNumber('031-12 34 56'), { e164: '+4631123456', country: 'SE', type: 'landline' });
+  });
+
+  it('should support the other Nordic countries', () => {
+    assert.deepStrictEqual(normalizePhoneNumber('+47 912 34 567'), { e164: '+4791234567', country: 'NO', type: 'mobile' });
+    assert.deepStrictEqual(normalizePhoneNumber('+47 22 12 34 56'), { e164: '+4722123456', country: 'NO', type: 'landline' });
+    assert.deepStrictEqual(normalizePhoneNumber('+45 32 12 34 56'), { e164: '+4532123456', country: 'DK', type: 'unknown' });
+    assert.deepStrictEqual(normalizePhoneNumber('+358 40 123 4567'), { e164: '+358401234567', country: 'FI', type: 'mobile' });
+    assert.deepStrictEqual(normalizePhoneNumber('912 34 567', 'NO'), { e164: '+4791234567', country: 'NO', type: 'mobile' });
+  });
+
+  it('should accept other international numbers without a country match', () => {
+    assert.deepStrictEqual(normalizePhoneNumber('+44 20 7946 0958'), { e164: '+442079460958', country: null, type: 'unknown' });
+  });
+
+  it('should reject numbers that cannot be normalized', () => {
+    assert.strictEqual(normalizePhoneNumber('123'), null);
+    assert.strictEqual(normalizePhoneNumber('70 123 45 67'), null);
+    assert.strictEqual(normalizePhoneNumber('+47 1234'), null);
+    assert.strictEqual(normalizePhoneNumber('call me'), null);
+    assert.strictEqual(normalizePhoneNumber(undefined), null);
+  });
+});
+
+describe('normalizeOrgNumber', () => {
+  it('should check the Luhn digit', () => {
+    assert.strictEqual(passesLuhnCheck('5560360793'), true);
+    assert.strictEqual(passesLuhnCheck('5560360794'), false);
+  });
+
+  it('should normalize 10 and 12 digit forms', () => {
+    assert.strictEqual(normalizeOrgNumber('5560360793'), '556036-0793');
+    assert.strictEqual(normalizeOrgNumber('556036-0793'), '556036-0793');
+    assert.strictEqual(normalizeOrgNumber('16556036-0793'), '556036-0793');
+  });
+
+  it('should reject invalid numbers', () => {
+    assert.strictEqual(normalizeOrgNumber('556036-0794'), null);
+    assert.strictEqual(normalizeOrgNumber('55603607'), null);
+    assert.strictEqual(normalizeOrgNumber('17556036-0793'), null);
+  });
+});
+
+describe('webhook org_number', () => {
+  const body = { name: 'Anna', email: 'anna@company.se', company: 'Company AB' };
+
+  it('should normalize a valid org number', () => {
+    const result = parseWebhookRequest({ ...body, org_number: '5560360793' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.org_number, '556036-0793');
+  });
+
+  it('should treat an empty org number as not given', () => {
+    const result = parseWebhookRequest({ ...body, org_number: '  ' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.org_number, undefined);
+  });
+
+  it('should reject an org number with a bad check digit', () => {
+    const result = parseWebhookRequest({ ...body, org_number: '556036-0794' });
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.errors.errors.some((e) => e.path.includes('org_number')));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  computePromptVersion,
+  createPromptRegistry,
+  fillTemplate,
+  getPrompt,
+  promptRegistry,
+  renderPrompt,
+  toProvenance,
+} from '../dist/prompts/promptRegistry.js';
+
+const promptFile = {
+  id: 'job_evaluation',
+  system: 'You evaluate job ads.',
+  user: 'Job Title: {{title}}\nCompany: {{company}}',
+};
+
+describe('promptRegistry', () => {
+  it('should load a prompt for every AI task', () => {
+    const ids = promptRegistry.list().map((prompt) => prompt.id);
+
+    assert.deepStrictEqual(ids.sort(), ['job_ad', 'job_evaluation', 'lead_scoring']);
+  });
+
+  it('should version every prompt with a short content hash', () => {
+    for (const prompt of promptRegistry.list()) {
+      assert.match(prompt.version, /^[0-9a-f]{12}$/);
+    }
+  });
+
+  it('should throw for unknown prompts', () => {
+    assert.throws(() => getPrompt('summarize'), /Unknown prompt: summarize/);
+  });
+
+  it('should reject duplicate prompt ids', () => {
+    assert.throws(() => createPromptRegistry([promptFile, promptFile]), /Duplicate prompt id: job_evaluation/);
+  });
+});
+
+describe('computePromptVersion', () => {
+  it('should be stable for the same text', () => {
+    assert.strictEqual(computePromptVersion(promptFile), computePromptVersion({ ...promptFile }));
+  });
+
+  it('should change when the system prompt changes', () => {
+    assert.notStrictEqual(
+      computePromptVersion({ ...promptFile, system: 'You evaluate job ads strictly.' }),
+      computePromptVersion(promptFile)
+    );
+  });
+
+  it('should change when the user template changes', () => {
+    assert.notStrictEqual(
+      computePromptVersion({ ...promptFile, user: `${promptFile.user}\nLocation: {{location}}` }),
+      computePromptVersion(promptFile)
+    );
+  });
+});
+
+describe('fillTemplate', () => {
+  it('should fill placeholders', () => {
+    assert.strictEqual(
+      fillTemplate(promptFile.user, { title: 'Junior Ekonom', company: 'Tech Company AB' }),
+      'Job Title: Junior Ekonom\nCompany: Tech Company AB'
+    );
+  });
+
+  it('should render missing values as empty and arrays comma-separated', () => {
+    assert.strictEqual(fillTemplate('{{a}}|{{b}}|{{c}}', { a: undefined, b: null, c: ['x', 'y'] }), '||x,y');
+  });
+
+  it('should leave single braces alone', () => {
+    assert.strictEqual(fillTemplate('{ "score": {{score}} }', { score: 80 }), '{ "score": 80 }');
+  });
+
+  it('should throw for placeholders without a variable', () => {
+    assert.throws(() => fillTemplate(promptFile.user, { title: 'Junior Ekonom' }), /Missing prompt variable: company/);
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should fill every placeholder of the bundled prompts', () => {
+    const messages = renderPrompt(getPrompt('job_evaluation'), {
+      title: 'Junior Ekonom',
+      company: 'Tech Company AB',
+      description: 'Vi söker en junior ekonom.',
+    });
+
+    assert.strictEqual(messages[0].role, 'system');
+    assert.strictEqual(messages[1].role, 'user');
+    assert.match(messages[1].content, /Job Title: Junior Ekonom/);
+    assert.doesNotMatch(messages[1].content, /\{\{/);
+  });
+});
+
+describe('toProvenance', () => {
+  it('should record prompt id, version and model', () => {
+    const prompt = getPrompt('lead_scoring');
+
+    assert.deepStrictEqual(toProvenance(prompt, 'gpt-4o-mini'), {
+      prompt_id: 'lead_scoring',
+      prompt_version: prompt.version,
+      model: 'gpt-4o-mini',
+    });
+  });
+});
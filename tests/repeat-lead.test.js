@@ -0,0 +1,160 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { installFakeBackend, FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+Object.assign(process.env, FAKE_BACKEND_ENV, { ADMIN_ALERT_EMAIL: 'admin@rookie.se' });
+
+const { findRecentLeadMatch, formSignalType } = await import('../dist/services/supabaseService.js');
+const { leadQueue, enqueueLeadSubmission, processNextLeadSubmission } = await import(
+  '../dist/services/leads/leadWorker.js'
+);
+
+const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+const recently = () => new Date().toISOString();
+
+describe('formSignalType', () => {
+  it('should name the signal after the intake source', () => {
+    assert.strictEqual(formSignalType('website_form', false), 'website_form_submission');
+    assert.strictEqual(formSignalType('typeform', true), 'typeform_follow_up');
+  });
+});
+
+describe('findRecentLeadMatch', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  const lookup = (params = {}) =>
+    findRecentLeadMatch({
+      email: 'Anna@TechCompany.se',
+      domain: null,
+      since,
+      excludeSubmissionId: 'current',
+      ...params,
+    });
+
+  function seedEmailMatches() {
+    backend.table('lead_submissions').push({
+      id: 'sub-1',
+      status: 'completed',
+      form_data: { email: 'anna@techcompany.se' },
+      result: { classification: 'valid_lead', company_id: 'company-sub' },
+      created_at: recently(),
+    });
+    backend.table('signals').push({
+      id: 'signal-1',
+      company_id: 'company-signal',
+      signal_type: 'typeform_submission',
+      payload: { email: 'anna@techcompany.se' },
+      created_at: recently(),
+    });
+    backend.table('contacts').push({
+      id: 'contact-1',
+      company_id: 'company-contact',
+      email: 'anna@techcompany.se',
+      created_at: recently(),
+    });
+  }
+
+  it('should prefer submissions, then form signals, then contacts', async () => {
+    seedEmailMatches();
+
+    assert.strictEqual((await lookup()).source, 'lead_submissions');
+    assert.strictEqual((await lookup({ excludeSubmissionId: 'sub-1' })).source, 'signals');
+
+    backend.table('signals')[0].signal_type = 'linkedin_job_ad';
+    const match = await lookup({ excludeSubmissionId: 'sub-1' });
+
+    assert.deepStrictEqual(
+      { source: match.source, company_id: match.company_id, matched_by: match.matched_by },
+      { source: 'contacts', company_id: 'company-contact', matched_by: 'email' }
+    );
+  });
+
+  it('should ignore matches older than the window', async () => {
+    seedEmailMatches();
+    for (const name of ['lead_submissions', 'signals', 'contacts']) {
+      backend.table(name)[0].created_at = new Date(since.getTime() - 1000).toISOString();
+    }
+
+    assert.strictEqual(await lookup(), null);
+  });
+
+  it('should match form signals of other contacts at the same company domain', async () => {
+    backend.table('companies').push({ id: 'company-1', domain: 'techcompany.se' });
+    backend.table('signals').push(
+      { id: 'signal-1', company_id: 'company-1', signal_type: 'linkedin_job_ad', created_at: recently() },
+      {
+        id: 'signal-2',
+        company_id: 'company-1',
+        signal_type: 'website_form_follow_up',
+        payload: { email: 'erik@techcompany.se' },
+        created_at: recently(),
+      }
+    );
+
+    assert.strictEqual(await lookup(), null);
+
+    const match = await lookup({ domain: 'techcompany.se' });
+
+    assert.strictEqual(match.matched_by, 'domain');
+    assert.strictEqual(match.record_id, 'signal-2');
+    assert.strictEqual(match.company_id, 'company-1');
+  });
+});
+
+describe('repeat leads in the pipeline', () => {
+  let backend;
+
+  beforeEach(() => {
+    backend = installFakeBackend();
+  });
+
+  afterEach(() => {
+    backend.restore();
+  });
+
+  async function submit(formData) {
+    const id = randomUUID();
+    await enqueueLeadSubmission(id, { id, ...formData });
+    await processNextLeadSubmission();
+    return (await leadQueue.get(id)).result;
+  }
+
+  const lead = {
+    full_name: 'Anna Svensson',
+    email: 'anna@techcompany.se',
+    phone: '0701234567',
+    company_name: 'Tech Company AB',
+    needs_description: 'Vi söker en junior utvecklare till vårt team i Stockholm.',
+    source: 'typeform',
+  };
+
+  it('should attach a repeat lead as a follow-up without a new job ad', async () => {
+    const first = await submit(lead);
+    const second = await submit({ ...lead, needs_description: 'Vi behöver också en junior testare.' });
+
+    assert.strictEqual(first.classification, 'valid_lead');
+    assert.ok(first.job_ad_id);
+    assert.strictEqual(second.classification, 'valid_lead');
+    assert.strictEqual(second.repeat_of.record_id, first.signal_id);
+    assert.strictEqual(second.company_id, first.company_id);
+    assert.strictEqual(second.job_ad_id, undefined);
+
+    assert.deepStrictEqual(
+      backend.table('signals').map((signal) => signal.signal_type),
+      ['typeform_submission', 'typeform_follow_up']
+    );
+    assert.strictEqual(backend.table('job_ads').length, 1);
+    // The lead email for the first submission and the admin alert for the second
+    assert.strictEqual(backend.state.emails.length, 2);
+    assert.strictEqual(backend.state.emails[1].to, 'admin@rookie.se');
+  });
+});
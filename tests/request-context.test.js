@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { resolveCorrelationId, runWithContext, getCorrelationId } from '../dist/utils/requestContext.js';
+import { logger } from '../dist/utils/logger.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('resolveCorrelationId', () => {
+  it('should accept the caller X-Request-Id', () => {
+    assert.strictEqual(resolveCorrelationId('req-123'), 'req-123');
+    assert.strictEqual(resolveCorrelationId(' trace:abc.1 '), 'trace:abc.1');
+    assert.strictEqual(resolveCorrelationId(['first', 'second']), 'first');
+  });
+
+  it('should generate a UUID when the header is missing or unusable', () => {
+    assert.match(resolveCorrelationId(undefined), UUID_PATTERN);
+    assert.match(resolveCorrelationId(''), UUID_PATTERN);
+    assert.match(resolveCorrelationId('<script>alert(1)</script>'), UUID_PATTERN);
+    assert.match(resolveCorrelationId('x'.repeat(129)), UUID_PATTERN);
+  });
+});
+
+describe('runWithContext', () => {
+  it('should expose the correlation ID across awaits', async () => {
+    const seen = await runWithContext({ correlationId: 'req-1' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getCorrelationId();
+    });
+
+    assert.strictEqual(seen, 'req-1');
+    assert.strictEqual(getCorrelationId(), undefined);
+  });
+
+  it('should keep concurrent contexts apart', async () => {
+    const run = (id, delayMs) =>
+      runWithContext({ correlationId: id }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        return getCorrelationId();
+      });
+
+    assert.deepStrictEqual(await Promise.all([run('a', 5), run('b', 1)]), ['a', 'b']);
+  });
+});
+
+describe('logger correlation ID', () => {
+  /**
+   * Captures the JSON lines written by console.log while fn runs
+   */
+  function captureLogs(fn) {
+    const lines = [];
+    const original = console.log;
+    console.log = (line) => lines.push(JSON.parse(line));
+    try {
+      fn();
+    } finally {
+      console.log = original;
+    }
+    return lines;
+  }
+
+  it('should stamp log lines with the current correlation ID', () => {
+    const [entry] = captureLogs(() => runWithContext({ correlationId: 'req-42' }, () => logger.info('Inside')));
+
+    assert.strictEqual(entry.correlation_id, 'req-42');
+  });
+
+  it('should leave the correlation ID out outside a context', () => {
+    const [entry] = captureLogs(() => logger.info('Outside'));
+
+    assert.strictEqual('correlation_id' in entry, false);
+  });
+});
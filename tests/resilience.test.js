@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createCircuitBreaker } from '../dist/utils/circuitBreaker.js';
+import { withJitter } from '../dist/utils/retry.js';
+
+// Short delays and a low threshold - config is read when the module loads
+process.env.EXTERNAL_RETRY_BASE_DELAY_MS = '1';
+process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '3';
+const { callExternal, isRetryableError, withTimeout, getCircuitBreakerSnapshots } = await import(
+  '../dist/utils/resilience.js'
+);
+
+const httpError = (status) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('createCircuitBreaker', () => {
+  it('should open after consecutive failures and fail fast', () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000, now: () => 0 });
+
+    breaker.recordFailure('503');
+    assert.strictEqual(breaker.canRequest(), true);
+    breaker.recordFailure('503');
+
+    assert.strictEqual(breaker.snapshot().state, 'open');
+    assert.strictEqual(breaker.canRequest(), false);
+  });
+
+  it('should let one trial call through after the reset timeout', () => {
+    let now = 0;
+    const breaker = createCircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 1000, now: () => now });
+    breaker.recordFailure('timeout');
+
+    now = 1000;
+    assert.strictEqual(breaker.canRequest(), true);
+    assert.strictEqual(breaker.snapshot().state, 'half_open');
+    assert.strictEqual(breaker.canRequest(), false);
+
+    breaker.recordSuccess();
+    assert.strictEqual(breaker.snapshot().state, 'closed');
+    assert.strictEqual(breaker.snapshot().consecutive_failures, 0);
+  });
+
+  it('should open again when the trial call fails', () => {
+    let now = 0;
+    const breaker = createCircuitBreaker('test', { failureThreshold: 3, resetTimeoutMs: 1000, now: () => now });
+    breaker.recordFailure('a');
+    breaker.recordFailure('b');
+    breaker.recordFailure('c');
+
+    now = 1500;
+    breaker.canRequest();
+    breaker.recordFailure('d');
+
+    assert.strictEqual(breaker.snapshot().state, 'open');
+    assert.strictEqual(breaker.snapshot().last_failure, 'd');
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should retry rate limits, server errors and dropped connections', () => {
+    assert.strictEqual(isRetryableError(httpError(429)), true);
+    assert.strictEqual(isRetryableError(httpError(503)), true);
+    assert.strictEqual(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' })), true);
+    assert.strictEqual(isRetryableError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } })), true);
+  });
+
+  it('should not retry client errors', () => {
+    assert.strictEqual(isRetryableError(httpError(400)), false);
+    assert.strictEqual(isRetryableError(httpError(404)), false);
+    assert.strictEqual(isRetryableError(new Error('Invalid input')), false);
+  });
+});
+
+describe('withJitter', () => {
+  it('should keep the delay between half and the full delay', () => {
+    assert.strictEqual(withJitter(1000, () => 0), 500);
+    assert.strictEqual(withJitter(1000, () => 1), 1000);
+  });
+});
+
+describe('withTimeout', () => {
+  it('should reject and abort when the deadline passes', async () => {
+    let aborted = false;
+
+    await assert.rejects(
+      withTimeout(
+        (signal) =>
+          new Promise(() => {
+            signal.addEventListener('abort', () => (aborted = true));
+          }),
+        10,
+        'slow'
+      ),
+      /slow timed out after 10ms/
+    );
+    assert.strictEqual(aborted, true);
+  });
+});
+
+describe('callExternal', () => {
+  it('should retry retryable errors', async () => {
+    let calls = 0;
+
+    const result = await callExternal(
+      'resend',
+      async () => {
+        calls++;
+        if (calls < 3) throw httpError(503);
+        return 'sent';
+      },
+      { breaker: 'test-retry' }
+    );
+
+    assert.strictEqual(result, 'sent');
+    assert.strictEqual(calls, 3);
+  });
+
+  it('should not retry client errors', async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      callExternal(
+        'resend',
+        async () => {
+          calls++;
+          throw httpError(422);
+        },
+        { breaker: 'test-client-error' }
+      ),
+      /HTTP 422/
+    );
+    assert.strictEqual(calls, 1);
+  });
+
+  it('should fail fast while the breaker is open and show it on the snapshot', async () => {
+    let calls = 0;
+    const failing = async () => {
+      calls++;
+      throw httpError(500);
+    };
+
+    // Three failed attempts (one call plus two retries) open the breaker
+    await assert.rejects(callExternal('resend', failing, { breaker: 'test-open' }), /HTTP 500/);
+    assert.strictEqual(calls, 3);
+
+    await assert.rejects(callExternal('resend', failing, { breaker: 'test-open' }), /test-open circuit open/);
+    assert.strictEqual(calls, 3);
+
+    const snapshot = getCircuitBreakerSnapshots().find((breaker) => breaker.name === 'test-open');
+    assert.strictEqual(snapshot.state, 'open');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { z } from 'zod';
+import {
+  completeStructured,
+  parseStructuredReply,
+  toLLMResponseFormat,
+  stripUnsupportedSchemaKeywords,
+} from '../dist/services/llm/structuredCompletion.js';
+import { toResponseFormatParam } from '../dist/services/llm/providers.js';
+
+const ScoreSchema = z.object({
+  lead_score: z.number().min(1).max(100),
+  classification: z.enum(['valid_lead', 'likely_spam']),
+});
+
+/**
+ * Router stub answering the given replies in order and recording each call
+ */
+function fakeRouter(replies) {
+  const calls = [];
+  return {
+    calls,
+    async complete(task, messages, options) {
+      calls.push({ task, messages: [...messages], options });
+      return { content: replies[calls.length - 1], provider: 'fake', model: 'fake-model' };
+    },
+  };
+}
+
+describe('parseStructuredReply', () => {
+  it('should parse fenced JSON', () => {
+    const result = parseStructuredReply('```json\n{"lead_score": 80, "classification": "valid_lead"}\n```', ScoreSchema);
+
+    assert.deepStrictEqual(result, { success: true, data: { lead_score: 80, classification: 'valid_lead' } });
+  });
+
+  it('should take the JSON object out of surrounding text', () => {
+    const result = parseStructuredReply(
+      'Here is the analysis: {"lead_score": 12, "classification": "likely_spam"} Hope it helps!',
+      ScoreSchema
+    );
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.lead_score, 12);
+  });
+
+  it('should report invalid JSON', () => {
+    const result = parseStructuredReply('{"lead_score": 80,', ScoreSchema);
+
+    assert.strictEqual(result.success, false);
+    assert.match(result.error, /not valid JSON/);
+  });
+
+  it('should report schema violations by field', () => {
+    const result = parseStructuredReply('{"lead_score": 0, "classification": "maybe"}', ScoreSchema);
+
+    assert.strictEqual(result.success, false);
+    assert.match(result.error, /lead_score/);
+    assert.match(result.error, /classification/);
+  });
+});
+
+describe('completeStructured', () => {
+  const messages = [{ role: 'user', content: 'Score this lead' }];
+
+  it('should send the JSON schema derived from the zod schema', async () => {
+    const router = fakeRouter(['{"lead_score": 80, "classification": "valid_lead"}']);
+
+    const result = await completeStructured(router, 'lead_scoring', messages, ScoreSchema, 'lead_score', 1);
+
+    const { usage, ...completion } = result;
+    assert.deepStrictEqual(completion, {
+      data: { lead_score: 80, classification: 'valid_lead' },
+      provider: 'fake',
+      model: 'fake-model',
+      repairs: 0,
+    });
+    assert.strictEqual(usage.calls, 1);
+    const { responseFormat } = router.calls[0].options;
+    assert.strictEqual(responseFormat.name, 'lead_score');
+    assert.deepStrictEqual(responseFormat.schema.required, ['lead_score', 'classification']);
+  });
+
+  it('should repair a reply with the validation errors', async () => {
+    const router = fakeRouter(['{"lead_score": 500, "classification": "valid_lead"}', '{"lead_score": 50, "classification": "valid_lead"}']);
+
+    const result = await completeStructured(router, 'lead_scoring', messages, ScoreSchema, 'lead_score', 1);
+
+    assert.strictEqual(result.data.lead_score, 50);
+    assert.strictEqual(result.repairs, 1);
+    assert.strictEqual(result.usage.calls, 2);
+
+    const repairCall = router.calls[1].messages;
+    assert.strictEqual(repairCall.length, 3);
+    assert.strictEqual(repairCall[1].role, 'assistant');
+    assert.match(repairCall[2].content, /lead_score/);
+  });
+
+  it('should fail once the repair attempts are used up', async () => {
+    const router = fakeRouter(['not json', 'still not json', 'never asked']);
+
+    await assert.rejects(
+      completeStructured(router, 'lead_scoring', messages, ScoreSchema, 'lead_score', 1),
+      /Invalid lead_score response after 1 repair attempt\(s\)/
+    );
+    assert.strictEqual(router.calls.length, 2);
+  });
+});
+
+describe('toLLMResponseFormat', () => {
+  const unsupported = [
+    'format',
+    'pattern',
+    'minLength',
+    'maxLength',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'minItems',
+    'maxItems',
+  ];
+
+  /**
+   * Every key used anywhere in a JSON value
+   */
+  function collectKeys(value, keys = new Set()) {
+    if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        keys.add(key);
+        collectKeys(child, keys);
+      }
+    }
+    return keys;
+  }
+
+  it('should leave out keywords strict structured outputs does not support', () => {
+    const JobAdLikeSchema = z.object({
+      title: z.string().min(1).max(60),
+      external_url: z.string().url(),
+      email: z.string().email(),
+      slug: z.string().regex(/^[a-z-]+$/),
+      score: z.number().min(0).max(100),
+      tags: z.array(z.string()).min(1),
+    });
+
+    const { schema } = toLLMResponseFormat(JobAdLikeSchema, 'job_ad');
+    const keys = collectKeys(schema);
+
+    for (const keyword of unsupported) {
+      assert.ok(!keys.has(keyword), `schema contains ${keyword}`);
+    }
+    assert.deepStrictEqual(schema.required, ['title', 'external_url', 'email', 'slug', 'score', 'tags']);
+    assert.strictEqual(schema.properties.external_url.type, 'string');
+  });
+
+  it('should keep properties named like a keyword', () => {
+    const stripped = stripUnsupportedSchemaKeywords({
+      type: 'object',
+      properties: { format: { type: 'string', format: 'uri' } },
+      required: ['format'],
+    });
+
+    assert.deepStrictEqual(stripped, {
+      type: 'object',
+      properties: { format: { type: 'string' } },
+      required: ['format'],
+    });
+  });
+
+  it('should still reject replies breaking the stripped constraints', () => {
+    const result = parseStructuredReply('{"lead_score": 500, "classification": "valid_lead"}', ScoreSchema);
+
+    assert.strictEqual(result.success, false);
+  });
+});
+
+describe('toResponseFormatParam', () => {
+  const format = toLLMResponseFormat(ScoreSchema, 'lead_score');
+
+  it('should send a strict JSON schema to providers that support it', () => {
+    const param = toResponseFormatParam('json_schema', format);
+
+    assert.strictEqual(param.type, 'json_schema');
+    assert.strictEqual(param.json_schema.strict, true);
+    assert.strictEqual(param.json_schema.schema.additionalProperties, false);
+  });
+
+  it('should fall back to JSON mode or the prompt alone', () => {
+    assert.deepStrictEqual(toResponseFormatParam('json_object', format), { type: 'json_object' });
+    assert.strictEqual(toResponseFormatParam('none', format), undefined);
+    assert.strictEqual(toResponseFormatParam('json_schema', undefined), undefined);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseValidationRules, evaluateValidationRules, getValidationRules } from '../dist/utils/validationRules.js';
+
+const baseRules = {
+  version: 'test.1',
+  thresholds: { min_validation_score: 30, spam_threshold: 2 },
+  quality_rules: [
+    { id: 'company_filled', field: 'company_name', type: 'min_length', value: 3, weight: 3, explanation: 'Company set' },
+    { id: 'email_valid', field: 'email', type: 'regex', pattern: '^\\S+@\\S+\\.\\S+$', explanation: 'Email set' },
+  ],
+  spam_rules: [
+    { id: 'contains_link', field: 'needs_description', type: 'contains', value: 'HTTP', weight: 1, explanation: 'Link' },
+    { id: 'casino', field: 'needs_description', type: 'regex', pattern: 'casino', flags: 'i', weight: 1, explanation: 'Casino' },
+  ],
+};
+
+describe('parseValidationRules', () => {
+  it('should accept the bundled rules', () => {
+    const rules = getValidationRules();
+
+    assert.ok(rules.version);
+    assert.ok(rules.quality_rules.length > 0);
+  });
+
+  it('should default weight and enabled', () => {
+    const rules = parseValidationRules(baseRules);
+
+    assert.strictEqual(rules.quality_rules[1].weight, 1);
+    assert.strictEqual(rules.quality_rules[1].enabled, true);
+  });
+
+  it('should reject duplicate rule ids', () => {
+    const rules = {
+      ...baseRules,
+      spam_rules: [{ ...baseRules.spam_rules[0], id: 'company_filled' }],
+    };
+
+    assert.throws(() => parseValidationRules(rules), /Duplicate rule id: company_filled/);
+  });
+
+  it('should reject invalid regex patterns', () => {
+    const rules = {
+      ...baseRules,
+      spam_rules: [{ ...baseRules.spam_rules[1], pattern: '(unclosed' }],
+    };
+
+    assert.throws(() => parseValidationRules(rules), /Invalid pattern in rule casino/);
+  });
+
+  it('should reject stateful regex flags', () => {
+    const rules = {
+      ...baseRules,
+      spam_rules: [{ ...baseRules.spam_rules[1], flags: 'g' }],
+    };
+
+    assert.throws(() => parseValidationRules(rules), /Invalid validation rules/);
+  });
+
+  it('should reject unknown rule types', () => {
+    const rules = {
+      ...baseRules,
+      quality_rules: [{ id: 'x', field: 'email', type: 'equals', value: 'a', explanation: 'x' }],
+    };
+
+    assert.throws(() => parseValidationRules(rules), /Invalid validation rules/);
+  });
+});
+
+describe('evaluateValidationRules', () => {
+  const rules = parseValidationRules(baseRules);
+
+  it('should score by weight and list fired rules', () => {
+    const result = evaluateValidationRules({ id: '1', company_name: 'Acme AB', email: 'bad' }, rules);
+
+    assert.strictEqual(result.validation_score, 75);
+    assert.strictEqual(result.validation_details.company_filled, true);
+    assert.strictEqual(result.validation_details.email_valid, false);
+    assert.deepStrictEqual(result.fired_rules, [
+      { id: 'company_filled', category: 'quality', weight: 3, explanation: 'Company set' },
+    ]);
+    assert.strictEqual(result.rules_version, 'test.1');
+  });
+
+  it('should flag spam once the spam threshold is reached', () => {
+    const oneHit = evaluateValidationRules({ id: '1', needs_description: 'see http://x.se' }, rules);
+    const twoHits = evaluateValidationRules({ id: '1', needs_description: 'Casino at http://x.se' }, rules);
+
+    assert.strictEqual(oneHit.is_likely_spam, false);
+    assert.strictEqual(twoHits.is_likely_spam, true);
+    assert.deepStrictEqual(
+      twoHits.fired_rules.filter((rule) => rule.category === 'spam').map((rule) => rule.id),
+      ['contains_link', 'casino']
+    );
+  });
+
+  it('should skip disabled rules', () => {
+    const withDisabled = parseValidationRules({
+      ...baseRules,
+      quality_rules: [baseRules.quality_rules[0], { ...baseRules.quality_rules[1], enabled: false }],
+    });
+
+    const result = evaluateValidationRules({ id: '1', company_name: 'Acme AB' }, withDisabled);
+
+    assert.strictEqual(result.validation_score, 100);
+    assert.strictEqual('email_valid' in result.validation_details, false);
+  });
+});
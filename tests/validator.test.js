@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { validateLead, extractDomain } from '../dist/utils/validator.js';
+import { validateLead, extractDomain, passesValidationGate, structureFormData } from '../dist/utils/validator.js';
 
 describe('validateLead', () => {
   it('should return high score for complete valid lead', () => {
@@ -152,3 +152,96 @@ describe('extractDomain', () => {
     assert.strictEqual(result.domain_source, 'none');
   });
 });
+
+describe('passesValidationGate', () => {
+  it('should pass leads above the threshold that are not spam', () => {
+    assert.strictEqual(passesValidationGate({ validation_score: 31, is_likely_spam: false }), true);
+  });
+
+  it('should fast-reject low scores and spam', () => {
+    assert.strictEqual(passesValidationGate({ validation_score: 30, is_likely_spam: false }), false);
+    assert.strictEqual(passesValidationGate({ validation_score: 100, is_likely_spam: true }), false);
+  });
+
+  it('should fast-reject submissions that failed the bot check', () => {
+    const botCheck = { passed: false, reasons: ['honeypot_filled'], fill_time_ms: null, captcha: 'not_checked' };
+
+    assert.strictEqual(passesValidationGate({ validation_score: 100, is_likely_spam: false, bot_check: botCheck }), false);
+    assert.strictEqual(
+      passesValidationGate({ validation_score: 100, is_likely_spam: false, bot_check: { ...botCheck, passed: true, reasons: [] } }),
+      true
+    );
+  });
+});
+
+describe('structureFormData', () => {
+  it('should map the webhook body onto form data', () => {
+    const formData = structureFormData(
+      { name: 'Anna', email: 'anna@company.se', company: 'Company AB', message: 'Behov' },
+      'id-1',
+      'typeform'
+    );
+
+    assert.strictEqual(formData.id, 'id-1');
+    assert.strictEqual(formData.full_name, 'Anna');
+    assert.strictEqual(formData.company_name, 'Company AB');
+    assert.strictEqual(formData.needs_description, 'Behov');
+    assert.strictEqual(formData.source, 'typeform');
+  });
+
+  it('should normalize the phone number to E.164', () => {
+    const formData = structureFormData(
+      { name: 'Anna', email: 'anna@company.se', company: 'Company AB', phone: '070-123 45 67' },
+      'id-1',
+      'website_form'
+    );
+
+    assert.strictEqual(formData.phone, '+46701234567');
+    assert.strictEqual(formData.phone_country, 'SE');
+    assert.strictEqual(formData.phone_type, 'mobile');
+  });
+
+  it('should keep a phone number that cannot be normalized', () => {
+    const formData = structureFormData(
+      { name: 'Anna', email: 'anna@company.se', company: 'Company AB', phone: 'ring mig' },
+      'id-1',
+      'website_form'
+    );
+
+    assert.strictEqual(formData.phone, 'ring mig');
+    assert.strictEqual(formData.phone_type, undefined);
+  });
+
+  it('should detect the language of the message', () => {
+    const formData = structureFormData(
+      {
+        name: 'Anna',
+        email: 'anna@company.se',
+        company: 'Company AB',
+        message: 'We are looking for a junior developer with experience of React to join our team.',
+      },
+      'id-1',
+      'website_form'
+    );
+
+    assert.strictEqual(formData.language, 'en');
+    assert.strictEqual(formData.language_source, 'detected');
+  });
+
+  it('should let the form override the detected language', () => {
+    const formData = structureFormData(
+      {
+        name: 'Anna',
+        email: 'anna@company.se',
+        company: 'Company AB',
+        message: 'We are looking for a junior developer with experience of React to join our team.',
+        language: 'sv',
+      },
+      'id-1',
+      'website_form'
+    );
+
+    assert.strictEqual(formData.language, 'sv');
+    assert.strictEqual(formData.language_source, 'form');
+  });
+});
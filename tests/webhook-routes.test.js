@@ -0,0 +1,106 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { FAKE_BACKEND_ENV } from './helpers/fakeBackend.js';
+
+// Signed deployment: WEBHOOK_SECRET is set, the form provider secrets are not
+Object.assign(process.env, FAKE_BACKEND_ENV, {
+  WEBHOOK_SECRET: 'test-secret',
+  CAPTCHA_PROVIDER: 'stub',
+  CAPTCHA_REQUIRED: 'true',
+});
+for (const key of ['TYPEFORM_WEBHOOK_SECRET', 'HUBSPOT_CLIENT_SECRET', 'WEBFLOW_WEBHOOK_SECRET']) {
+  delete process.env[key];
+}
+
+const { startTestServer } = await import('./helpers/testServer.js');
+const { signWebhookPayload } = await import('../dist/utils/webhookSigning.js');
+const { leadQueue } = await import('../dist/services/leads/leadWorker.js');
+
+const lead = {
+  name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  company: 'Tech Company AB',
+  message: 'Vi söker en junior utvecklare till vårt team i Stockholm.',
+};
+
+describe('POST /api/webhook', () => {
+  let server;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const post = (path, headers = {}) =>
+    fetch(`${server.url}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(lead),
+    });
+
+  it('should refuse unsigned requests to providers without a secret', async () => {
+    for (const provider of ['typeform', 'hubspot', 'webflow']) {
+      const byPath = await post(`/api/webhook/${provider}`);
+      const byHeader = await post('/api/webhook', { 'x-form-provider': provider });
+
+      assert.strictEqual(byPath.status, 404, provider);
+      assert.strictEqual(byHeader.status, 404, provider);
+      assert.strictEqual((await byPath.json()).message, 'Form provider not configured');
+    }
+  });
+
+  it('should still require our own signature', async () => {
+    assert.strictEqual((await post('/api/webhook')).status, 401);
+  });
+});
+
+describe('POST /api/webhook bot check and idempotency', () => {
+  let server;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const postSigned = (body) => {
+    const raw = JSON.stringify(body);
+
+    return fetch(`${server.url}/api/webhook`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...signWebhookPayload(raw, 'test-secret') },
+      body: raw,
+    });
+  };
+
+  it('should process a valid retry after a failed CAPTCHA', async () => {
+    const failed = await postSigned({ ...lead, captcha_token: 'fail' });
+    const retried = await postSigned({ ...lead, captcha_token: 'valid-token' });
+
+    assert.strictEqual(failed.status, 202);
+    assert.strictEqual(retried.status, 202);
+    assert.strictEqual(retried.headers.get('idempotent-replayed'), null);
+
+    const first = await leadQueue.get((await failed.json()).submission_id);
+    const second = await leadQueue.get((await retried.json()).submission_id);
+
+    assert.notStrictEqual(first.id, second.id);
+    assert.strictEqual(first.form_data.bot_check.passed, false);
+    assert.strictEqual(first.idempotency_key, null);
+    assert.strictEqual(second.form_data.bot_check.passed, true);
+  });
+
+  it('should still replay a retry of a submission that passed the bot check', async () => {
+    const body = { ...lead, email: 'erik@techcompany.se', captcha_token: 'valid-token' };
+    const first = await postSigned(body);
+    const replayed = await postSigned(body);
+
+    assert.strictEqual(replayed.headers.get('idempotent-replayed'), 'true');
+    assert.strictEqual((await replayed.json()).submission_id, (await first.json()).submission_id);
+  });
+});
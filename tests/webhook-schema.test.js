@@ -109,6 +109,20 @@ describe('parseWebhookRequest', () => {
     assert.strictEqual(result.success, false);
   });
 
+  it('should accept a language override as a locale tag', () => {
+    const result = parseWebhookRequest({ name: 'Test', email: 'test@test.com', company: 'Test AB', language: 'en-GB' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.language, 'en');
+  });
+
+  it('should ignore an unsupported language', () => {
+    const result = parseWebhookRequest({ name: 'Test', email: 'test@test.com', company: 'Test AB', language: 'de' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.language, undefined);
+  });
+
   it('should handle null body', () => {
     const result = parseWebhookRequest(null);
 
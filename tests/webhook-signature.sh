@@ -2,7 +2,8 @@
 
 # Webhook Signature Verification Tests
 # =====================================
-# Tests HMAC-SHA256 signature verification on the webhook endpoint.
+# Tests replay-protected HMAC-SHA256 signature verification on the webhook endpoint.
+# Signature = HMAC-SHA256("<timestamp>.<nonce>.<body>", secret), see src/utils/webhookSigning.ts
 #
 # Usage:
 #   ./tests/webhook-signature.sh [API_URL]
@@ -91,14 +92,18 @@ echo ""
 # ------------------------------------------------------------------------------
 echo "Test 3: Request WITH VALID signature"
 echo "------------------------------------"
-echo "Expected: 200 OK"
+echo "Expected: 202 Accepted"
 echo ""
 
-# Generate HMAC-SHA256 signature
-SIGNATURE=$(echo -n "$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
+# Generate timestamp, nonce and HMAC-SHA256 signature
+TIMESTAMP=$(date +%s)
+NONCE=$(cat /proc/sys/kernel/random/uuid 2>/dev/null || uuidgen)
+SIGNATURE=$(echo -n "$TIMESTAMP.$NONCE.$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
 
 RESPONSE=$(curl -s -w "\n%{http_code}" -X POST "$WEBHOOK_ENDPOINT" \
   -H "Content-Type: application/json" \
+  -H "x-webhook-timestamp: $TIMESTAMP" \
+  -H "x-webhook-nonce: $NONCE" \
   -H "x-webhook-signature: $SIGNATURE" \
   -d "$BODY")
 
@@ -108,10 +113,70 @@ RESPONSE_BODY=$(echo "$RESPONSE" | sed '$d')
 echo "Response: $RESPONSE_BODY"
 echo "Status: $HTTP_CODE"
 
-if [ "$HTTP_CODE" = "200" ]; then
+if [ "$HTTP_CODE" = "202" ]; then
   echo "✅ PASSED"
 else
-  echo "❌ FAILED (expected 200, got $HTTP_CODE)"
+  echo "❌ FAILED (expected 202, got $HTTP_CODE)"
+fi
+echo ""
+
+# ------------------------------------------------------------------------------
+# Test 4: Replaying the same signed request (should fail with 401)
+# ------------------------------------------------------------------------------
+echo "Test 4: Replay of the signed request"
+echo "------------------------------------"
+echo "Expected: 401 Unauthorized"
+echo ""
+
+RESPONSE=$(curl -s -w "\n%{http_code}" -X POST "$WEBHOOK_ENDPOINT" \
+  -H "Content-Type: application/json" \
+  -H "x-webhook-timestamp: $TIMESTAMP" \
+  -H "x-webhook-nonce: $NONCE" \
+  -H "x-webhook-signature: $SIGNATURE" \
+  -d "$BODY")
+
+HTTP_CODE=$(echo "$RESPONSE" | tail -n1)
+RESPONSE_BODY=$(echo "$RESPONSE" | sed '$d')
+
+echo "Response: $RESPONSE_BODY"
+echo "Status: $HTTP_CODE"
+
+if [ "$HTTP_CODE" = "401" ]; then
+  echo "✅ PASSED"
+else
+  echo "❌ FAILED (expected 401, got $HTTP_CODE)"
+fi
+echo ""
+
+# ------------------------------------------------------------------------------
+# Test 5: Stale timestamp (should fail with 401)
+# ------------------------------------------------------------------------------
+echo "Test 5: Request with a stale timestamp"
+echo "--------------------------------------"
+echo "Expected: 401 Unauthorized"
+echo ""
+
+OLD_TIMESTAMP=$((TIMESTAMP - 3600))
+OLD_NONCE=$(cat /proc/sys/kernel/random/uuid 2>/dev/null || uuidgen)
+OLD_SIGNATURE=$(echo -n "$OLD_TIMESTAMP.$OLD_NONCE.$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
+
+RESPONSE=$(curl -s -w "\n%{http_code}" -X POST "$WEBHOOK_ENDPOINT" \
+  -H "Content-Type: application/json" \
+  -H "x-webhook-timestamp: $OLD_TIMESTAMP" \
+  -H "x-webhook-nonce: $OLD_NONCE" \
+  -H "x-webhook-signature: $OLD_SIGNATURE" \
+  -d "$BODY")
+
+HTTP_CODE=$(echo "$RESPONSE" | tail -n1)
+RESPONSE_BODY=$(echo "$RESPONSE" | sed '$d')
+
+echo "Response: $RESPONSE_BODY"
+echo "Status: $HTTP_CODE"
+
+if [ "$HTTP_CODE" = "401" ]; then
+  echo "✅ PASSED"
+else
+  echo "❌ FAILED (expected 401, got $HTTP_CODE)"
 fi
 echo ""
 
@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  signWebhookPayload,
+  computeWebhookSignature,
+  verifySignedRequest,
+} from '../dist/utils/webhookSigning.js';
+import { createNonceCache } from '../dist/utils/nonceCache.js';
+
+const body = '{"name":"Test User","email":"test@company.se","company":"Test Company"}';
+const secret = 'current-secret';
+
+function verify(headers, overrides = {}) {
+  return verifySignedRequest({
+    body,
+    signature: headers['x-webhook-signature'],
+    timestamp: headers['x-webhook-timestamp'],
+    nonce: headers['x-webhook-nonce'],
+    secrets: [secret],
+    toleranceSeconds: 300,
+    ...overrides,
+  });
+}
+
+describe('signWebhookPayload', () => {
+  it('should produce headers that verify', () => {
+    const headers = signWebhookPayload(body, secret);
+
+    const result = verify(headers);
+
+    assert.strictEqual(result.valid, true);
+  });
+
+  it('should sign timestamp, nonce and body together', () => {
+    const headers = signWebhookPayload(body, secret, { timestamp: 1700000000, nonce: 'abc' });
+
+    assert.strictEqual(headers['x-webhook-timestamp'], '1700000000');
+    assert.strictEqual(headers['x-webhook-nonce'], 'abc');
+    assert.strictEqual(headers['x-webhook-signature'], computeWebhookSignature(secret, '1700000000', 'abc', body));
+  });
+
+  it('should generate a new nonce per request', () => {
+    const a = signWebhookPayload(body, secret);
+    const b = signWebhookPayload(body, secret);
+
+    assert.notStrictEqual(a['x-webhook-nonce'], b['x-webhook-nonce']);
+  });
+});
+
+describe('verifySignedRequest', () => {
+  it('should reject missing timestamp or nonce', () => {
+    const headers = signWebhookPayload(body, secret);
+
+    const result = verify({ ...headers, 'x-webhook-nonce': undefined });
+
+    assert.deepStrictEqual(result, { valid: false, reason: 'missing_headers' });
+  });
+
+  it('should reject timestamps outside the tolerance window', () => {
+    const oldTimestamp = Math.floor(Date.now() / 1000) - 600;
+    const headers = signWebhookPayload(body, secret, { timestamp: oldTimestamp });
+
+    const result = verify(headers);
+
+    assert.deepStrictEqual(result, { valid: false, reason: 'timestamp_out_of_range' });
+  });
+
+  it('should reject non-numeric timestamps', () => {
+    const headers = signWebhookPayload(body, secret);
+
+    const result = verify({ ...headers, 'x-webhook-timestamp': 'yesterday' });
+
+    assert.deepStrictEqual(result, { valid: false, reason: 'invalid_timestamp' });
+  });
+
+  it('should reject a tampered body', () => {
+    const headers = signWebhookPayload(body, secret);
+
+    const result = verify(headers, { body: body.replace('Test User', 'Attacker') });
+
+    assert.deepStrictEqual(result, { valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('should accept any active secret during rotation', () => {
+    const headers = signWebhookPayload(body, 'old-secret');
+
+    const result = verify(headers, { secrets: ['new-secret', 'old-secret'] });
+
+    assert.deepStrictEqual(result, { valid: true, secretIndex: 1 });
+  });
+
+  it('should reject a secret that was rotated out', () => {
+    const headers = signWebhookPayload(body, 'old-secret');
+
+    const result = verify(headers, { secrets: ['new-secret'] });
+
+    assert.strictEqual(result.valid, false);
+  });
+});
+
+describe('createNonceCache', () => {
+  it('should reject a nonce seen within the TTL', () => {
+    const cache = createNonceCache(1000);
+
+    assert.strictEqual(cache.checkAndStore('n1', 0), true);
+    assert.strictEqual(cache.checkAndStore('n1', 500), false);
+  });
+
+  it('should forget nonces after the TTL', () => {
+    const cache = createNonceCache(1000);
+
+    cache.checkAndStore('n1', 0);
+
+    assert.strictEqual(cache.checkAndStore('n1', 1500), true);
+  });
+
+  it('should cap the number of stored nonces', () => {
+    const cache = createNonceCache(60000, 3);
+
+    for (const nonce of ['a', 'b', 'c', 'd']) {
+      cache.checkAndStore(nonce, 0);
+    }
+
+    assert.ok(cache.size() <= 3);
+  });
+});